@@ -0,0 +1,51 @@
+// app/api/alerts/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { describeAlertRule, getAlertEngine } from '@/lib/alert-engine';
+import { getAlertStore, parseAlertRuleInput } from '@/lib/alert-store';
+
+const alertEngine = getAlertEngine();
+const alertStore = getAlertStore();
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const parsed = parseAlertRuleInput(await request.json().catch(() => null), true);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const rule = await alertStore.updateRule(id, parsed.input);
+    if (!rule) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rule: { ...rule, description: describeAlertRule(rule) },
+        events: await alertEngine.evaluate()
+      }
+    });
+  } catch (error) {
+    console.error('Alerts API error:', error);
+    return NextResponse.json({ error: 'Failed to update alert rule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await alertStore.deleteRule(id))) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Alerts API error:', error);
+    return NextResponse.json({ error: 'Failed to delete alert rule' }, { status: 500 });
+  }
+}
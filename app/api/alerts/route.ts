@@ -0,0 +1,50 @@
+// app/api/alerts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { describeAlertRule, getAlertEngine } from '@/lib/alert-engine';
+import { getAlertStore, parseAlertRuleInput } from '@/lib/alert-store';
+
+const alertEngine = getAlertEngine();
+const alertStore = getAlertStore();
+
+// Rules plus the triggered-alerts feed; pass ?since=<ISO time> to poll for new events
+export async function GET(request: NextRequest) {
+  try {
+    const since = new URL(request.url).searchParams.get('since') || undefined;
+    await alertEngine.evaluate();
+
+    const rules = await alertStore.listRules();
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules: rules.map(rule => ({ ...rule, description: describeAlertRule(rule) })),
+        events: await alertStore.listEvents(since)
+      }
+    });
+  } catch (error) {
+    console.error('Alerts API error:', error);
+    return NextResponse.json({ error: 'Failed to load alerts' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseAlertRuleInput(await request.json().catch(() => null), false);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { query, metric, operator, threshold } = parsed.input;
+    const rule = await alertStore.createRule({ ...parsed.input, query: query!, metric: metric!, operator: operator!, threshold: threshold! });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rule: { ...rule, description: describeAlertRule(rule) },
+        events: await alertEngine.evaluate()
+      }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Alerts API error:', error);
+    return NextResponse.json({ error: 'Failed to create alert rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+// app/api/backtest/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSentimentAnalyzer } from '@/lib/sentiment-utils';
+import { getPriceDataStore } from '@/lib/price-data';
+import { parseBacktestOptions, runBacktest } from '@/lib/backtest';
+
+const sentimentAnalyzer = getSentimentAnalyzer();
+const priceDataStore = getPriceDataStore();
+
+async function backtestResponse(params: Record<string, any>) {
+  const parsed = parseBacktestOptions(params);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  await sentimentAnalyzer.ready();
+  const { options } = parsed;
+  const ticker = sentimentAnalyzer.resolveTicker(options.query).primary || options.query.toUpperCase();
+  const prices = await priceDataStore.getPrices(ticker);
+  if (!prices) {
+    const available = await priceDataStore.listTickers();
+    return NextResponse.json({
+      error: `No price file for ${ticker}. Add ${ticker}.csv to the data directory` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+    }, { status: 404 });
+  }
+  if (prices.bars.length < 2) {
+    return NextResponse.json({ error: `Not enough price data in ${prices.file}` }, { status: 400 });
+  }
+
+  return NextResponse.json({ success: true, data: runBacktest(sentimentAnalyzer, prices, options) });
+}
+
+// Without a query, lists the tickers that have price files
+export async function GET(request: NextRequest) {
+  try {
+    const params = Object.fromEntries(new URL(request.url).searchParams);
+    if (!params.query) {
+      return NextResponse.json({ success: true, data: { tickers: await priceDataStore.listTickers() } });
+    }
+    return await backtestResponse(params);
+  } catch (error) {
+    console.error('Backtest API error:', error);
+    return NextResponse.json({ error: 'Failed to run backtest' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    return await backtestResponse(body);
+  } catch (error) {
+    console.error('Backtest API error:', error);
+    return NextResponse.json({ error: 'Failed to run backtest' }, { status: 500 });
+  }
+}
@@ -1,200 +1,129 @@
-import { GoogleGenerativeAI } from "@google/generative-ai"
-import { SentimentAnalyzer } from '@/lib/sentiment-utils';
-
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "")
-
-// Add this function to detect sentiment-related queries
-function detectSentimentQuery(message: string): {
-  isFinancialQuery: boolean;
-  queryType: 'stock' | 'sector' | 'market' | 'news' | null;
-  entities: string[];
-} {
-  const lowerMessage = message.toLowerCase();
-  
-  // Stock patterns
-  const stockPatterns = [
-    /how is ([a-z]+) stock doing/i,
-    /what.*sentiment.*([a-z]+)/i,
-    /([a-z]+) stock analysis/i,
-    /analyze ([a-z]+)/i,
-    /([a-z]{2,5}) performance/i // Assuming stock symbols are 2-5 chars
-  ];
-
-  // Sector patterns
-  const sectorPatterns = [
-    /how is.*([a-z]+)\s+(sector|industry)/i,
-    /(technology|healthcare|finance|energy|retail|automotive|banking|pharmaceutical|tech|fintech|crypto)\s+(sector|industry|market)/i,
-    /([a-z]+)\s+sector\s+(doing|performance|analysis)/i
-  ];
-
-  // Market patterns
-  const marketPatterns = [
-    /market overview/i,
-    /overall market/i,
-    /market sentiment/i,
-    /general market/i
-  ];
-
-  // News patterns
-  const newsPatterns = [
-    /latest news about/i,
-    /recent news/i,
-    /news on ([a-z]+)/i
-  ];
-
-  let queryType: 'stock' | 'sector' | 'market' | 'news' | null = null;
-  let entities: string[] = [];
-  let isFinancialQuery = false;
-
-  // Check for financial keywords
-  const financialKeywords = [
-    'stock', 'sector', 'market', 'investment', 'trading', 'bull', 'bear',
-    'sentiment', 'analysis', 'performance', 'earnings', 'revenue', 'profit',
-    'nasdaq', 'spy', 'dow', 'portfolio', 'finance', 'financial'
-  ];
-
-  isFinancialQuery = financialKeywords.some(keyword => 
-    lowerMessage.includes(keyword)
-  );
-
-  if (isFinancialQuery) {
-    // Check stock patterns
-    for (const pattern of stockPatterns) {
-      const match = message.match(pattern);
-      if (match) {
-        queryType = 'stock';
-        entities.push(match[1]);
-        break;
-      }
-    }
-
-    // Check sector patterns
-    if (!queryType) {
-      for (const pattern of sectorPatterns) {
-        const match = message.match(pattern);
-        if (match) {
-          queryType = 'sector';
-          entities.push(match[1]);
-          break;
-        }
-      }
-    }
-
-    // Check market patterns
-    if (!queryType && marketPatterns.some(pattern => pattern.test(message))) {
-      queryType = 'market';
-    }
-
-    // Check news patterns
-    if (!queryType) {
-      for (const pattern of newsPatterns) {
-        const match = message.match(pattern);
-        if (match) {
-          queryType = 'news';
-          if (match[1]) entities.push(match[1]);
-          break;
-        }
-      }
-    }
-  }
-
-  return { isFinancialQuery, queryType, entities };
+import { createDataStreamResponse } from "ai"
+import { getSentimentAnalyzer, normalizeAsOf } from '@/lib/sentiment-utils';
+import { collectArticleIds, collectCitations, executeSentimentTool, getAnomalyContext, getSentimentSnapshotContext, sentimentFunctionDeclarations } from '@/lib/sentiment-tools';
+import { buildContextWindow, estimateTokens, getModelTokenBudget, parseAttachmentContext, truncateToTokens } from '@/lib/context-window';
+import { DEFAULT_CHAT_MODEL, getChatModel, getProviderRequirement, type ChatModelInfo } from '@/lib/chat-models';
+import { createChatSession, type ChatToolCall, type ChatToolResult, type ChatUserInput } from '@/lib/chat-providers';
+import { getAttachmentKind, parseChatAttachments, type ChatAttachment } from '@/lib/chat-attachments';
+import { describeDocument, getDocumentStore, type StoredDocument } from '@/lib/document-store';
+import { documentFunctionDeclarations, executeDocumentTool, isDocumentTool } from '@/lib/document-tools';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { getLatestPrices, getPortfolioContext, getPortfolioSentiment, isPortfolioQuestion } from '@/lib/portfolio-sentiment';
+import { getPriceDataStore } from '@/lib/price-data';
+import {
+  createErrorStreamResponse,
+  getFinishMessage,
+  writeAnnotation,
+  writeFinishMessage,
+  writeFinishStep,
+  writeText,
+  writeToolCall,
+  writeToolResult,
+  type ChatFinishReason,
+  type ChatUsage,
+} from '@/lib/chat-stream';
+
+// Maximum rounds of tool calls the model may make for one message
+const MAX_TOOL_STEPS = 5
+
+// Added to the results of the last allowed round so the model answers with what it has
+const FINAL_TOOL_STEP_NOTE = "This was the last tool call allowed for this message. Answer the user now from the results you have; do not call any more tools."
+
+// Largest share of the token budget a media transcription may take
+const MAX_TRANSCRIPT_SHARE = 0.5
+
+// Largest share of the token budget the descriptions of attached spreadsheets may take
+const MAX_DOCUMENT_SHARE = 0.25
+
+const SYSTEM_INSTRUCTION = `You are TradeBuddy, a financial assistant with access to a news sentiment database covering the tickers and topics in our news feed.
+When a question involves stocks, companies, sectors, market conditions or financial news, call the available tools to fetch data before answering. To compare several stocks or sectors, call compareSentiment once with all of them and present a side-by-side answer.
+Base your analysis on the returned data: focus on trends, risks, opportunities and strategic recommendations, and say so when the data has no coverage for something.
+Tool results list articles with an "id" such as 20250801_3. When a statement relies on a specific article, cite it right after the statement by its id in square brackets, e.g. [20250801_3] or [20250801_3, 20250802_7]. Only cite ids that appear in tool results or in the context given with the current message.
+When the user attaches a CSV or spreadsheet, its description lists the columns and a few sample rows; call queryDocument for exact figures, totals and rankings rather than estimating from the samples.`
+
+// Replay mode: answer as if it were the as-of moment, with only the news published by then
+function getReplayInstruction(asOf: string) {
+  return `\n\nReplay mode: the current date and time is ${asOf}. The tools only return news published up to that moment, so treat it as the present and do not refer to later events.`
 }
 
-// Add this function to format sentiment data for Gemini
-function formatSentimentDataForAI(sentimentData: any, queryType: string, query?: string): string {
-  let contextData = '';
-
-  switch (queryType) {
-    case 'stock':
-      contextData += `STOCK SENTIMENT ANALYSIS FOR: ${query?.toUpperCase()}\n\n`;
-      contextData += `Overall Sentiment: ${sentimentData.avgSentiment.toFixed(3)} (${sentimentData.trend})\n`;
-      contextData += `Total Articles: ${sentimentData.totalArticles}\n`;
-      contextData += `Positive: ${sentimentData.positiveCount}, Negative: ${sentimentData.negativeCount}, Neutral: ${sentimentData.neutralCount}\n\n`;
-      
-      if (sentimentData.articles.length > 0) {
-        contextData += `RECENT NEWS HEADLINES:\n`;
-        sentimentData.articles.slice(0, 5).forEach((article: any, index: number) => {
-          contextData += `${index + 1}. ${article.title} (Sentiment: ${article.sentiment.score.toFixed(2)})\n`;
-        });
-      }
-      break;
-
-    case 'sector':
-      contextData += `SECTOR SENTIMENT ANALYSIS FOR: ${query?.toUpperCase()}\n\n`;
-      contextData += `Overall Sentiment: ${sentimentData.avgSentiment.toFixed(3)} (${sentimentData.trend})\n`;
-      contextData += `Total Articles: ${sentimentData.totalArticles}\n`;
-      contextData += `Positive: ${sentimentData.positiveCount}, Negative: ${sentimentData.negativeCount}, Neutral: ${sentimentData.neutralCount}\n\n`;
-      
-      if (sentimentData.topStocks.length > 0) {
-        contextData += `TOP STOCKS IN SECTOR: ${sentimentData.topStocks.slice(0, 5).join(', ')}\n\n`;
-      }
-      
-      if (sentimentData.articles.length > 0) {
-        contextData += `RECENT NEWS HEADLINES:\n`;
-        sentimentData.articles.slice(0, 5).forEach((article: any, index: number) => {
-          contextData += `${index + 1}. ${article.title} (Sentiment: ${article.sentiment.score.toFixed(2)})\n`;
-        });
-      }
-      break;
-
-    case 'market':
-      contextData += `MARKET OVERVIEW & SENTIMENT ANALYSIS\n\n`;
-      contextData += `Overall Market Sentiment: ${sentimentData.avgSentiment.toFixed(3)}\n`;
-      contextData += `Total Articles Analyzed: ${sentimentData.totalArticles}\n`;
-      contextData += `Sentiment Distribution - Positive: ${sentimentData.sentimentDistribution.positive}, Negative: ${sentimentData.sentimentDistribution.negative}, Neutral: ${sentimentData.sentimentDistribution.neutral}\n\n`;
-      
-      contextData += `TOP SECTORS BY COVERAGE:\n`;
-      sentimentData.topSectors.slice(0, 5).forEach((sector: any, index: number) => {
-        contextData += `${index + 1}. ${sector.sector}: ${sector.sentiment.toFixed(2)} sentiment (${sector.count} articles)\n`;
-      });
-      
-      contextData += `\nTOP STOCKS BY COVERAGE:\n`;
-      sentimentData.topStocks.slice(0, 10).forEach((stock: any, index: number) => {
-        contextData += `${index + 1}. ${stock.stock}: ${stock.sentiment.toFixed(2)} sentiment (${stock.count} articles)\n`;
-      });
-      break;
-
-    case 'news':
-      contextData += `RECENT NEWS SEARCH RESULTS FOR: ${query?.toUpperCase()}\n\n`;
-      if (sentimentData.articles && sentimentData.articles.length > 0) {
-        contextData += `RELEVANT NEWS ARTICLES:\n`;
-        sentimentData.articles.slice(0, 10).forEach((article: any, index: number) => {
-          contextData += `${index + 1}. ${article.title} (Sentiment: ${article.sentiment.score.toFixed(2)})\n`;
-          contextData += `   ${article.content.substring(0, 100)}...\n\n`;
-        });
-      }
-      break;
+// Why the model cannot take an attached file, or null if it can
+function getUnsupportedFileError(model: ChatModelInfo, attachment: ChatAttachment) {
+  const kind = getAttachmentKind(attachment.mimeType)
+  const name = attachment.name || kind
+  if (kind === "image") {
+    if (!model.capabilities.vision) return `${model.label} cannot read images. Choose a model with vision support.`
+    // Only Gemini can read files uploaded to Gemini; other providers need the image inline
+    if (model.provider !== "gemini" && !attachment.imageDataUrl) return `${model.label} needs the image data for ${name} sent with the message.`
+    return null
+  }
+  if ((kind === "audio" || kind === "video") && !model.capabilities[kind] && !attachment.transcription?.text) {
+    return `${model.label} cannot read ${kind} files, and there is no transcript of ${name} to use instead.`
+  }
+  if (kind === "pdf" && !model.capabilities.documents) {
+    return `${model.label} cannot read PDFs. Choose a Gemini model to ask about ${name}.`
   }
+  if (kind === "table" && !attachment.documentId) {
+    return `${name} has not been processed yet. Please upload it again.`
+  }
+  return null
+}
 
-  return contextData;
+function formatTranscriptDuration(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`
 }
 
 export async function POST(req: Request) {
   try {
     // Parse request
-    const { messages, model = "gemini-2.5-flash-preview-05-20", fileUri, fileMimeType, transcription } = await req.json()
+    const body = await req.json()
+    const { messages, model = DEFAULT_CHAT_MODEL, asOf, pinnedMessageIds, attachmentContext } = body
 
     if (!messages || !Array.isArray(messages)) {
       return new Response("Invalid messages format", { status: 400 })
     }
 
-    // Get the generative model with appropriate settings
-    const modelConfig: any = { model }
-    
-    // Add specific configurations for video-capable models
-    if (model === "gemini-2.0-flash-exp" && fileMimeType?.startsWith("video/")) {
-      // Gemini 2.0 Flash might have different video capabilities
-      modelConfig.generationConfig = {
-        temperature: 0.4, // Lower temperature for more focused analysis
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 8192,
+    const cutoff = typeof asOf === "string" && asOf ? normalizeAsOf(asOf) : null
+    if (asOf && !cutoff) {
+      return new Response("Invalid asOf date", { status: 400 })
+    }
+
+    // Per-model settings come from the model registry
+    const modelInfo = getChatModel(model)
+    if (!modelInfo) {
+      return new Response(`Unknown model: ${model}`, { status: 400 })
+    }
+    if (!modelInfo.available) {
+      return new Response(`${modelInfo.label} is not configured. Set ${getProviderRequirement(modelInfo.provider)} to use it.`, { status: 400 })
+    }
+
+    const parsedAttachments = parseChatAttachments(body)
+    if ("error" in parsedAttachments) {
+      return new Response(parsedAttachments.error, { status: 400 })
+    }
+    const { attachments } = parsedAttachments
+    for (const attachment of attachments) {
+      const fileError = getUnsupportedFileError(modelInfo, attachment)
+      if (fileError) {
+        return new Response(fileError, { status: 400 })
       }
     }
-    
-    const generativeModel = genAI.getGenerativeModel(modelConfig)
+
+    // Spreadsheets on this message, or else on the latest earlier one, stay queryable
+    const earlierAttachments = attachments.length > 0 ? [] : parseAttachmentContext(attachmentContext)
+    const documentIds = [...attachments, ...earlierAttachments].flatMap(attachment => attachment.documentId ? [attachment.documentId] : [])
+    const documentStore = getDocumentStore()
+    const documents = (await Promise.all(documentIds.map(id => documentStore.get(id))))
+      .filter((document): document is StoredDocument => document !== null)
+    if (documents.length < documentIds.length) {
+      return new Response("An attached spreadsheet is no longer available. Please upload it again.", { status: 400 })
+    }
+
+    const systemInstruction = cutoff ? SYSTEM_INSTRUCTION + getReplayInstruction(cutoff) : SYSTEM_INSTRUCTION
+    const tools = modelInfo.capabilities.tools
+      ? [...sentimentFunctionDeclarations, ...(documents.length > 0 ? documentFunctionDeclarations : [])]
+      : []
+    // The same model-capped budget buildContextWindow fits the history into
+    const tokenBudget = getModelTokenBudget(modelInfo.contextWindow)
 
     // Get the last user message
     const lastMessage = messages[messages.length - 1]
@@ -202,100 +131,22 @@ export async function POST(req: Request) {
       return new Response("No user message found", { status: 400 })
     }
 
-    // Convert messages to Gemini format, excluding system messages and initial assistant greeting
-    const history = messages
-      .filter((m) => m.role !== "system" && m.id !== "welcome-message")
-      .slice(0, -1) // Exclude the last message which we'll send separately
-      .map((m) => ({
-        role: m.role === "user" ? "user" : "model",
-        parts: [{ text: m.content }],
-      }))
-    
-    // Ensure history starts with user message or is empty
-    if (history.length > 0 && history[0].role !== "user") {
-      history.shift() // Remove first message if it's not from user
-    }
-
-    // Start chat session with history
-    // Use higher token limits for video analysis
-    const isVideoAnalysis = fileMimeType?.startsWith("video/")
-    const chat = generativeModel.startChat({
-      history,
-      generationConfig: {
-        temperature: 0.7,
-        topK: 1,
-        topP: 1,
-        maxOutputTokens: isVideoAnalysis ? 8192 : 4096, // Much higher limit for videos
-      },
-    })
-
-    // Prepare content parts for multimodal input
-    const contentParts = []
-    
-    // Add file if provided
-    if (fileUri && fileMimeType) {
-      console.log(`Processing file: ${fileMimeType}, URI: ${fileUri}`)
-      contentParts.push({
-        fileData: {
-          mimeType: fileMimeType,
-          fileUri: fileUri
-        }
-      })
-    }
+    // Files go to the model natively when it can read them; otherwise only their transcript is sent.
+    // Spreadsheets never leave our server: the model gets their description and the query tool.
+    const fileKinds = attachments.map(attachment => getAttachmentKind(attachment.mimeType))
+    const sentFiles = modelInfo.provider === "gemini"
+      ? attachments.flatMap((attachment, index) => attachment.uri && fileKinds[index] !== "table" ? [{ uri: attachment.uri, mimeType: attachment.mimeType }] : [])
+      : []
+    sentFiles.forEach(file => console.log(`Processing file: ${file.mimeType}, URI: ${file.uri}`))
     
     // Prepare the message content
     let messageContent = lastMessage.content
-
-    // **NEW: Sentiment Analysis Integration**
-    const sentimentQuery = detectSentimentQuery(messageContent);
-
-    if (sentimentQuery.isFinancialQuery && sentimentQuery.queryType) {
-      const sentimentAnalyzer = new SentimentAnalyzer();
-      let sentimentData;
-
-      try {
-        switch (sentimentQuery.queryType) {
-          case 'stock':
-            if (sentimentQuery.entities.length > 0) {
-              sentimentData = sentimentAnalyzer.getStockSentiment(sentimentQuery.entities[0]);
-            }
-            break;
-          case 'sector':
-            if (sentimentQuery.entities.length > 0) {
-              sentimentData = sentimentAnalyzer.getSectorSentiment(sentimentQuery.entities[0]);
-            }
-            break;
-          case 'market':
-            sentimentData = sentimentAnalyzer.getMarketOverview();
-            break;
-          case 'news':
-            if (sentimentQuery.entities.length > 0) {
-              const newsResults = sentimentAnalyzer.searchNews(sentimentQuery.entities[0]);
-              sentimentData = { articles: newsResults };
-            }
-            break;
-        }
-
-        if (sentimentData) {
-          const sentimentContext = formatSentimentDataForAI(
-            sentimentData, 
-            sentimentQuery.queryType, 
-            sentimentQuery.entities[0]
-          );
-          
-          // Add sentiment context to your existing message/prompt
-          messageContent += `\n\nCONTEXT DATA FROM SENTIMENT ANALYSIS:\n${sentimentContext}\n\nPlease analyze this data and provide insights based on the sentiment analysis above. Focus on trends, risks, opportunities, and strategic recommendations.`;
-          
-          console.log(`Added sentiment context for ${sentimentQuery.queryType} query: ${sentimentQuery.entities[0] || 'general'}`);
-        }
-      } catch (error) {
-        console.error('Error fetching sentiment data:', error);
-      }
-    }
-    // **END: Sentiment Analysis Integration**
+    const fileMimeType = attachments.length === 1 ? attachments[0].mimeType : undefined
     
-    // If it's a media file and no user input, add appropriate analysis instruction
-    if (fileMimeType && !lastMessage.content.trim()) {
+    // If it's media and no user input, add appropriate analysis instruction
+    if (attachments.length > 1 && !lastMessage.content.trim()) {
+      messageContent = `Please analyze these ${attachments.length} attached files (${attachments.map(attachment => attachment.name || attachment.mimeType).join(", ")}). Describe each one, then explain how they relate to each other and what they suggest together.`
+    } else if (fileMimeType && !lastMessage.content.trim()) {
       if (fileMimeType.startsWith("audio/")) {
         messageContent = "Please analyze this audio file. Provide insights about the content, context, and any notable aspects you observe."
       } else if (fileMimeType.startsWith("video/")) {
@@ -318,8 +169,12 @@ export async function POST(req: Request) {
 Please ensure you analyze the ENTIRE video duration from beginning to end.`
       } else if (fileMimeType.startsWith("image/")) {
         messageContent = "Please analyze this image. Describe what you see and provide any relevant insights or observations."
+      } else if (fileKinds[0] === "pdf") {
+        messageContent = "Please summarize this document. Highlight the key figures, positions, dates and anything that needs attention."
+      } else if (fileKinds[0] === "table") {
+        messageContent = "Please summarize this spreadsheet: what it contains, the key totals, and the largest entries."
       }
-    } else if (fileMimeType?.startsWith("video/") && lastMessage.content.trim().toLowerCase().includes("analyze")) {
+    } else if (fileKinds.includes("video") && lastMessage.content.trim().toLowerCase().includes("analyze")) {
       // If user asks to analyze a video, ensure comprehensive analysis
       messageContent = lastMessage.content + `
 
@@ -338,82 +193,219 @@ Analyze the ENTIRE video duration, not just the beginning.`
     let finalMessageContent = messageContent
     
     // If we have transcription data for video/audio, include it as context
-    if (transcription && transcription.text && (fileMimeType?.startsWith("video/") || fileMimeType?.startsWith("audio/"))) {
-      const duration = transcription.duration ? ` (Duration: ${Math.floor(transcription.duration / 60)}:${Math.floor(transcription.duration % 60).toString().padStart(2, '0')})` : ''
+    const transcribed = attachments.filter((attachment, index) =>
+      attachment.transcription?.text && (fileKinds[index] === "video" || fileKinds[index] === "audio"))
+    transcribed.forEach((attachment) => {
+      const transcription = attachment.transcription!
+      const duration = transcription.duration ? ` (Duration: ${formatTranscriptDuration(transcription.duration)})` : ''
       const language = transcription.language ? ` [Language: ${transcription.language}]` : ''
+      const source = transcribed.length > 1 && attachment.name ? ` of ${attachment.name}` : ''
       
-      finalMessageContent += `\n\nTranscription of audio track${language}${duration}:\n"${transcription.text}"\n\nPlease incorporate this transcription into your complete analysis.`
+      // Long recordings may not fit the budget whole; keep the start. Several share one budget.
+      const transcriptText = truncateToTokens(transcription.text, Math.floor(tokenBudget * MAX_TRANSCRIPT_SHARE / transcribed.length))
+      finalMessageContent += `\n\nTranscription of audio track${source}${language}${duration}:\n"${transcriptText}"`
       
       console.log(`Including transcription in analysis - Length: ${transcription.text.length} chars`)
+    })
+    if (transcribed.length > 0) {
+      finalMessageContent += `\n\nPlease incorporate ${transcribed.length > 1 ? "these transcriptions" : "this transcription"} into your complete analysis.`
     }
     
-    contentParts.push({ text: finalMessageContent })
-    
-    // Send message and get streaming response
-    const result = await chat.sendMessageStream(contentParts)
-
-    // Create a TransformStream to convert the response
-    const encoder = new TextEncoder()
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of result.stream) {
-            const text = chunk.text()
-            // Format as data stream for AI SDK v4
-            // Escape the text properly for JSON
-            const escapedText = text
-              .replace(/\\/g, '\\\\')
-              .replace(/"/g, '\\"')
-              .replace(/\n/g, '\\n')
-              .replace(/\r/g, '\\r')
-              .replace(/\t/g, '\\t')
-            
-            const formatted = `0:"${escapedText}"\n`
-            controller.enqueue(encoder.encode(formatted))
+    // Spreadsheet descriptions share one budget; the rows themselves stay behind queryDocument
+    const attachedDocuments = documents.filter(document => attachments.some(attachment => attachment.documentId === document.id))
+    attachedDocuments.forEach(document => {
+      const description = truncateToTokens(describeDocument(document), Math.floor(tokenBudget * MAX_DOCUMENT_SHARE / attachedDocuments.length))
+      finalMessageContent += `\n\nAttached spreadsheet:\n${description}`
+    })
+
+    // Tools read from the shared sentiment corpus, cut off at asOf in replay mode
+    const rootAnalyzer = getSentimentAnalyzer()
+    await rootAnalyzer.ready()
+    const sentimentAnalyzer = rootAnalyzer.asOf(cutoff)
+
+    // "What's unusual today?" questions start from the anomaly detector's findings
+    const anomalyContext = getAnomalyContext(lastMessage.content, sentimentAnalyzer)
+    if (anomalyContext) {
+      finalMessageContent += `\n\n${anomalyContext}`
+    }
+
+    // Models without tools cannot look anything up, so they get a sentiment snapshot instead
+    const snapshotContext = modelInfo.capabilities.tools ? null : getSentimentSnapshotContext(lastMessage.content, sentimentAnalyzer)
+    if (snapshotContext) {
+      finalMessageContent += `\n\n${snapshotContext}`
+    }
+
+    // "How is my portfolio doing?" questions get the imported holdings, weighted by position size
+    let portfolioContext: string | null = null
+    if (isPortfolioQuestion(lastMessage.content)) {
+      const portfolio = await getPortfolioStore().get()
+      portfolioContext = portfolio
+        ? getPortfolioContext(getPortfolioSentiment(
+            portfolio,
+            sentimentAnalyzer,
+            await getLatestPrices(portfolio.holdings, getPriceDataStore(), cutoff),
+            cutoff
+          ))
+        : "The user has not imported a portfolio yet. If the question needs their holdings, ask them to import a holdings CSV or XLSX (ticker, quantity, cost basis) from the Portfolio tab of the sentiment dashboard."
+      finalMessageContent += `\n\n${portfolioContext}`
+    }
+
+    // Fit earlier messages into the token budget, trimming and summarizing old turns
+    const context = buildContextWindow({
+      contextLimit: modelInfo.contextWindow,
+      history: messages
+        .filter((m) => m.role !== "system" && m.id !== "welcome-message")
+        .slice(0, -1), // Exclude the last message which we'll send separately
+      pinnedIds: Array.isArray(pinnedMessageIds) ? pinnedMessageIds : [],
+      // Files on the current message take the place of earlier ones
+      attachments: earlierAttachments,
+      fixedTokens: estimateTokens(systemInstruction + JSON.stringify(tools) + finalMessageContent),
+      // Use higher token limits for video analysis
+      maxOutputTokens: fileKinds.includes("video") && modelInfo.videoOutputTokens ? modelInfo.videoOutputTokens : modelInfo.maxOutputTokens,
+    })
+    if (context.budget.trimmedMessages > 0) {
+      console.log(`Context trimmed: kept ${context.budget.keptMessages}, summarized ${context.budget.trimmedMessages} messages`)
+    }
+
+    const userInput: ChatUserInput = {
+      text: context.preamble ? `${context.preamble}\n\n${finalMessageContent}` : finalMessageContent,
+      files: sentFiles,
+      imageDataUrls: modelInfo.provider !== "gemini"
+        ? attachments.flatMap((attachment, index) => fileKinds[index] === "image" && attachment.imageDataUrl ? [attachment.imageDataUrl] : [])
+        : [],
+    }
+
+    // Start chat session with the trimmed history
+    const chat = createChatSession({
+      model: modelInfo,
+      systemInstruction,
+      history: context.history,
+      tools,
+      maxOutputTokens: context.budget.maxOutputTokens,
+    })
+
+    return createDataStreamResponse({
+      async execute(dataStream) {
+        writeAnnotation(dataStream, { type: "context", ...context.budget })
+
+        // Tell the client which files the reply is based on
+        if (attachments.length > 0) {
+          writeAnnotation(dataStream, {
+            type: "attachments",
+            files: attachments.map(attachment => ({
+              name: attachment.name || null,
+              mimeType: attachment.mimeType,
+              transcribed: !!attachment.transcription?.text,
+            })),
+          })
+        }
+
+        // Full reply text, scanned for article citations once streaming ends
+        let responseText = ""
+        // Token counts summed over every model call made for this message
+        const usage: ChatUsage = { promptTokens: 0, completionTokens: 0 }
+        const toolsUsed: Array<{ name: string; args: Record<string, any> }> = []
+        // Article ids the model was shown this turn; only these may be cited
+        const shownArticleIds = new Set<string>()
+        if (anomalyContext) collectArticleIds(anomalyContext, shownArticleIds)
+        if (snapshotContext) collectArticleIds(snapshotContext, shownArticleIds)
+        if (portfolioContext) collectArticleIds(portfolioContext, shownArticleIds)
+        let finishReason: ChatFinishReason = "unknown"
+        let providerReason: string | null = null
+        let input: ChatUserInput | ChatToolResult[] = userInput
+
+        for (let step = 0; ; step++) {
+          const toolCalls: ChatToolCall[] = []
+          let stepUsage: ChatUsage = { promptTokens: 0, completionTokens: 0 }
+
+          for await (const chunk of chat.send(input)) {
+            if (chunk.text) {
+              responseText += chunk.text
+              writeText(dataStream, chunk.text)
+            }
+            toolCalls.push(...chunk.toolCalls)
+            finishReason = chunk.finishReason || finishReason
+            providerReason = chunk.providerReason || providerReason
+            // Usage is cumulative within a call, so the last report has the totals
+            if (chunk.usage) {
+              stepUsage = chunk.usage
+            }
+          }
+
+          usage.promptTokens += stepUsage.promptTokens
+          usage.completionTokens += stepUsage.completionTokens
+
+          if (toolCalls.length === 0) {
+            break
           }
-          // Send the done signal
-          controller.enqueue(encoder.encode(`d:{"finishReason":"stop"}\n`))
-        } catch (error) {
-          console.error("Streaming error:", error)
-          // Send error signal
-          const errorMessage = error instanceof Error ? error.message : "Unknown error"
-          const escapedError = errorMessage
-            .replace(/\\/g, '\\\\')
-            .replace(/"/g, '\\"')
-            .replace(/\n/g, '\\n')
-          controller.enqueue(encoder.encode(`3:{"error":"${escapedError}"}\n`))
-        } finally {
-          controller.close()
+          // Asked for more tools after being told to answer: end with the limit's finish message rather than as a normal stop
+          if (step >= MAX_TOOL_STEPS) {
+            console.warn(`Chat stopped at the tool step limit with ${toolCalls.length} tool calls pending`)
+            finishReason = "tool-calls"
+            providerReason = "MAX_TOOL_STEPS"
+            break
+          }
+          const lastToolStep = step === MAX_TOOL_STEPS - 1
+
+          // Run each requested tool, surfacing the call and its result as separate parts
+          input = toolCalls.map((call, index) => {
+            const toolCallId = call.id || `call_${step}_${index}`
+            console.log(`Tool call: ${call.name}`, call.args)
+            writeToolCall(dataStream, toolCallId, call.name, call.args)
+            toolsUsed.push({ name: call.name, args: call.args })
+
+            const toolResult = isDocumentTool(call.name)
+              ? executeDocumentTool(call.name, call.args, documents)
+              : executeSentimentTool(call.name, call.args, sentimentAnalyzer)
+            writeToolResult(dataStream, toolCallId, toolResult)
+            collectArticleIds(toolResult, shownArticleIds)
+
+            return { id: call.id, name: call.name, result: lastToolStep ? { ...toolResult, note: FINAL_TOOL_STEP_NOTE } : toolResult }
+          })
+          writeFinishStep(dataStream, "tool-calls", stepUsage)
         }
-      },
-    })
 
-    // Return SSE response
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+        if (finishReason !== "stop") {
+          console.warn(`Chat finished early: ${providerReason}`)
+        }
+
+        // Attach the cited articles as a message annotation
+        const citations = collectCitations(responseText, sentimentAnalyzer, shownArticleIds)
+        if (citations.length > 0) {
+          writeAnnotation(dataStream, { type: "citations", citations })
+        }
+        if (toolsUsed.length > 0 || anomalyContext || snapshotContext || portfolioContext || cutoff) {
+          writeAnnotation(dataStream, {
+            type: "sentiment-context",
+            asOf: cutoff,
+            tools: toolsUsed,
+            anomalies: !!anomalyContext,
+            snapshot: !!snapshotContext,
+            portfolio: !!portfolioContext,
+          })
+        }
+        writeAnnotation(dataStream, {
+          type: "usage",
+          ...usage,
+          totalTokens: usage.promptTokens + usage.completionTokens,
+        })
+        writeAnnotation(dataStream, {
+          type: "finish",
+          finishReason,
+          providerReason,
+          message: getFinishMessage(finishReason),
+        })
+
+        writeFinishMessage(dataStream, finishReason, usage)
+      },
+      onError(error) {
+        console.error("Streaming error:", error)
+        return error instanceof Error ? error.message : "Unknown error"
       },
     })
   } catch (error) {
     console.error("Chat API Error:", error)
-    
-    // Return error in data stream format
-    const errorMessage = error instanceof Error ? error.message : "Unknown error"
-    const escapedError = errorMessage
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, '\\n')
-    return new Response(
-      `3:{"error":"${escapedError}"}\n`,
-      { 
-        status: 200, // Keep 200 for data stream compatibility
-        headers: { 
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-        }
-      }
-    )
+    // Errors before streaming starts still go out as an error part, so useChat shows them
+    return createErrorStreamResponse(error instanceof Error ? error.message : "Unknown error")
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+// app/api/conversations/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore, parseConversationInput } from '@/lib/conversation-store';
+
+const conversationStore = getConversationStore();
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const conversation = await conversationStore.get(id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: conversation });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json({ error: 'Failed to load conversation' }, { status: 500 });
+  }
+}
+
+// Partial update: rename, switch model or replace the message history
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const parsed = parseConversationInput(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const conversation = await conversationStore.update(id, parsed.input);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: conversation });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json({ error: 'Failed to update conversation' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await conversationStore.delete(id))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json({ error: 'Failed to delete conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/conversations/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore, parseConversationInput } from '@/lib/conversation-store';
+
+const conversationStore = getConversationStore();
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await conversationStore.list()
+    });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json({ error: 'Failed to list conversations' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseConversationInput(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await conversationStore.create(parsed.input)
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json({ error: 'Failed to create conversation' }, { status: 500 });
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { smartEditWithGPTImage1, checkGPTImage1Available } from "@/lib/openai-image-client"
+import { createMockImageUrl, isMockMode } from "@/lib/mock-ai"
 
 export async function POST(req: NextRequest) {
   console.log("GPT-Image-1 editing API called")
 
   try {
     // Check if API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    if (!process.env.OPENAI_API_KEY && !isMockMode()) {
       console.error("OPENAI_API_KEY not configured")
       return NextResponse.json(
         {
@@ -67,6 +68,29 @@ export async function POST(req: NextRequest) {
       console.log(`Using mask for inpainting: ${mask.substring(0, 50)}...`)
     }
 
+    if (isMockMode()) {
+      return NextResponse.json({
+        success: true,
+        images: [{
+          url: createMockImageUrl(prompt, actualSize, "Mock edit"),
+          originalUrl: imageUrl,
+          revisedPrompt: prompt,
+          index: 0,
+        }],
+        metadata: {
+          model: "mock",
+          provider: "mock",
+          quality: quality,
+          style,
+          size,
+          originalPrompt: prompt,
+          editMode: true,
+          method: "mock",
+          imageCount: 1,
+        }
+      })
+    }
+
     try {
       // Edit image using GPT-Image-1
       const result = await smartEditWithGPTImage1(imageUrl, prompt, {
@@ -168,6 +192,16 @@ export async function POST(req: NextRequest) {
 }
 
 export async function GET() {
+  if (isMockMode()) {
+    return NextResponse.json({
+      status: "ok",
+      message: "Image editing is running in mock mode",
+      provider: "mock",
+      model: "mock",
+      available: true
+    })
+  }
+
   try {
     // Check if GPT-Image-1 is available
     const isAvailable = await checkGPTImage1Available();
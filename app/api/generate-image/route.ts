@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { generateImageWithWaveSpeed } from "@/lib/wavespeed-client"
+import { createMockImageUrl, isMockMode } from "@/lib/mock-ai"
 
 export async function POST(req: NextRequest) {
   console.log("WaveSpeed image generation API called")
   
   try {
     // Check if API key is configured
-    if (!process.env.WAVESPEED_API_KEY) {
+    if (!process.env.WAVESPEED_API_KEY && !isMockMode()) {
       console.error("WAVESPEED_API_KEY not configured")
       return NextResponse.json(
         { 
@@ -38,6 +39,26 @@ export async function POST(req: NextRequest) {
     console.log(`Generating image with WaveSpeed: "${prompt.substring(0, 50)}..."`)
     console.log(`Quality: ${quality}, Style: ${style}, Size: ${size}`)
 
+    if (isMockMode()) {
+      return NextResponse.json({
+        success: true,
+        images: [{
+          url: createMockImageUrl(prompt, size, "Mock image"),
+          revisedPrompt: prompt,
+          index: 0,
+        }],
+        metadata: {
+          model: "mock",
+          provider: "mock",
+          quality,
+          style,
+          size,
+          originalPrompt: prompt,
+          imageCount: 1,
+        }
+      })
+    }
+
     try {
       // Generate image using WaveSpeed
       const result = await generateImageWithWaveSpeed(prompt, {
@@ -121,11 +142,12 @@ export async function POST(req: NextRequest) {
 }
 
 export async function GET() {
+  const mock = isMockMode()
   return NextResponse.json({
     status: "ok",
-    message: "WaveSpeed image generation API is accessible",
-    provider: "wavespeed",
-    model: "flux-dev-ultra-fast",
+    message: mock ? "Image generation is running in mock mode" : "WaveSpeed image generation API is accessible",
+    provider: mock ? "mock" : "wavespeed",
+    model: mock ? "mock" : "flux-dev-ultra-fast",
     capabilities: {
       sizes: ["1024x1024", "1792x1024", "1024x1792"],
       quality: ["standard", "hd"],
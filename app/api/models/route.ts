@@ -0,0 +1,13 @@
+// app/api/models/route.ts
+import { NextResponse } from 'next/server';
+import { DEFAULT_CHAT_MODEL, listChatModels } from '@/lib/chat-models';
+
+// Chat models for the model picker, with their capabilities and whether they are configured
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: { models: listChatModels(), defaultModel: DEFAULT_CHAT_MODEL } });
+  } catch (error) {
+    console.error('Models API error:', error);
+    return NextResponse.json({ error: 'Failed to list models' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// app/api/portfolio/import/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSentimentAnalyzer } from '@/lib/sentiment-utils';
+import { getFileMimeType, isTabularMimeType, CSV_MIME_TYPE } from '@/lib/chat-attachments';
+import { parseTabularDocument, type DocumentTable } from '@/lib/document-parser';
+import { MAX_TABULAR_BYTES, getDocumentStore } from '@/lib/document-store';
+import { getPortfolioStore, parseHoldingsTable } from '@/lib/portfolio-store';
+
+const sentimentAnalyzer = getSentimentAnalyzer();
+const portfolioStore = getPortfolioStore();
+
+// The first table of an uploaded file, or of a spreadsheet already attached in chat
+async function readImportTable(request: NextRequest): Promise<{ table: DocumentTable; source: string } | { error: string; status: number }> {
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.documentId !== 'string') return { error: 'documentId is required', status: 400 };
+    const document = await getDocumentStore().get(body.documentId);
+    if (!document) return { error: 'Document not found', status: 404 };
+    return { table: document.tables[0], source: document.fileName };
+  }
+
+  const file = (await request.formData().catch(() => null))?.get('file');
+  if (!(file instanceof File)) return { error: 'No file provided', status: 400 };
+  const mimeType = getFileMimeType(file);
+  if (!isTabularMimeType(mimeType)) return { error: 'Holdings must be a CSV or XLSX file', status: 400 };
+  if (file.size > MAX_TABULAR_BYTES) return { error: 'File too large. Holdings files can be at most 20MB', status: 400 };
+
+  try {
+    const content = Buffer.from(await file.arrayBuffer());
+    const [table] = parseTabularDocument(file.name, mimeType === CSV_MIME_TYPE ? 'csv' : 'xlsx', content);
+    return { table, source: file.name };
+  } catch (error) {
+    return { error: `Could not read ${file.name}: ${error instanceof Error ? error.message : 'invalid file'}`, status: 400 };
+  }
+}
+
+/**
+ * Replace the portfolio with the holdings in a CSV or XLSX file (multipart
+ * "file"), or in a chat attachment ({ documentId }). Rows that are not
+ * holdings, such as cash or totals lines, are skipped and listed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const read = await readImportTable(request);
+    if ('error' in read) {
+      return NextResponse.json({ error: read.error }, { status: read.status });
+    }
+
+    await sentimentAnalyzer.ready();
+    const parsed = parseHoldingsTable(read.table, ticker => sentimentAnalyzer.resolveTicker(ticker).primary);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        portfolio: await portfolioStore.save(parsed.holdings, read.source),
+        skipped: parsed.skipped
+      }
+    });
+  } catch (error) {
+    console.error('Portfolio import error:', error);
+    return NextResponse.json({ error: 'Failed to import portfolio' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+// app/api/portfolio/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSentimentAnalyzer, normalizeAsOf } from '@/lib/sentiment-utils';
+import { getPriceDataStore } from '@/lib/price-data';
+import { getPortfolioStore } from '@/lib/portfolio-store';
+import { getLatestPrices, getPortfolioSentiment } from '@/lib/portfolio-sentiment';
+
+const sentimentAnalyzer = getSentimentAnalyzer();
+const priceDataStore = getPriceDataStore();
+const portfolioStore = getPortfolioStore();
+
+// The imported holdings with their sentiment weighted by position size; null before any import
+export async function GET(request: NextRequest) {
+  try {
+    const asOf = new URL(request.url).searchParams.get('asOf');
+    const cutoff = asOf ? normalizeAsOf(asOf) : null;
+    if (asOf && !cutoff) {
+      return NextResponse.json({ error: 'Invalid asOf. Use YYYY-MM-DD or an ISO timestamp' }, { status: 400 });
+    }
+
+    const portfolio = await portfolioStore.get();
+    if (!portfolio) {
+      return NextResponse.json({ success: true, data: null });
+    }
+
+    await sentimentAnalyzer.ready();
+    const prices = await getLatestPrices(portfolio.holdings, priceDataStore, cutoff);
+    return NextResponse.json({
+      success: true,
+      data: getPortfolioSentiment(portfolio, sentimentAnalyzer.asOf(cutoff), prices, cutoff)
+    });
+  } catch (error) {
+    console.error('Portfolio API error:', error);
+    return NextResponse.json({ error: 'Failed to load portfolio' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    if (!(await portfolioStore.clear())) {
+      return NextResponse.json({ error: 'No portfolio imported' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Portfolio API error:', error);
+    return NextResponse.json({ error: 'Failed to delete portfolio' }, { status: 500 });
+  }
+}
@@ -1,8 +1,37 @@
 // app/api/sentiment/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { SentimentAnalyzer } from '@/lib/sentiment-utils';
+import { getSentimentAnalyzer, normalizeAsOf, type SentimentAnalyzer } from '@/lib/sentiment-utils';
+import { detectAnomalies, parseAnomalyOptions } from '@/lib/anomaly-detector';
+import { SearchCursorError } from '@/lib/news-search';
 
-const sentimentAnalyzer = new SentimentAnalyzer();
+const sentimentAnalyzer = getSentimentAnalyzer();
+
+const DATE_PARAM_PATTERN = /^\d{4}-?\d{2}-?\d{2}$/;
+
+const SENTIMENT_LABELS = ['positive', 'negative', 'neutral'];
+
+const MIN_COMPARE_ENTITIES = 2;
+const MAX_COMPARE_ENTITIES = 10;
+
+// Validate and run a comparison shared by GET and POST
+function compareResponse(analyzer: SentimentAnalyzer, queries: string[], type: string) {
+  const uniqueQueries = Array.from(new Set(queries.map(query => query.trim()).filter(Boolean)));
+
+  if (uniqueQueries.length < MIN_COMPARE_ENTITIES || uniqueQueries.length > MAX_COMPARE_ENTITIES) {
+    return NextResponse.json({
+      error: `Compare requires ${MIN_COMPARE_ENTITIES}-${MAX_COMPARE_ENTITIES} distinct tickers or sectors`
+    }, { status: 400 });
+  }
+  if (type !== 'stock' && type !== 'sector') {
+    return NextResponse.json({ error: 'Invalid type. Use: stock or sector' }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: analyzer.compareSentiment(uniqueQueries, type),
+    type: 'compare'
+  });
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,13 +39,22 @@ export async function GET(request: NextRequest) {
     const action = searchParams.get('action');
     const query = searchParams.get('query');
     const limit = parseInt(searchParams.get('limit') || '20');
+    const asOf = searchParams.get('asOf');
+
+    if (asOf && !normalizeAsOf(asOf)) {
+      return NextResponse.json({ error: 'Invalid asOf. Use YYYY-MM-DD or an ISO timestamp' }, { status: 400 });
+    }
+
+    await sentimentAnalyzer.ready();
+    // Replay mode: only news published up to asOf is visible
+    const analyzer = sentimentAnalyzer.asOf(asOf);
 
     switch (action) {
       case 'stock':
         if (!query) {
           return NextResponse.json({ error: 'Stock symbol required' }, { status: 400 });
         }
-        const stockData = sentimentAnalyzer.getStockSentiment(query);
+        const stockData = analyzer.getStockSentiment(query);
         return NextResponse.json({
           success: true,
           data: stockData,
@@ -27,7 +65,7 @@ export async function GET(request: NextRequest) {
         if (!query) {
           return NextResponse.json({ error: 'Sector name required' }, { status: 400 });
         }
-        const sectorData = sentimentAnalyzer.getSectorSentiment(query);
+        const sectorData = analyzer.getSectorSentiment(query);
         return NextResponse.json({
           success: true,
           data: sectorData,
@@ -35,27 +73,143 @@ export async function GET(request: NextRequest) {
         });
 
       case 'overview':
-        const overviewData = sentimentAnalyzer.getMarketOverview();
+        const overviewData = analyzer.getMarketOverview();
         return NextResponse.json({
           success: true,
           data: overviewData,
           type: 'overview'
         });
 
-      case 'search':
+      case 'search': {
+        const ticker = searchParams.get('ticker') || undefined;
+        const topic = searchParams.get('topic') || undefined;
+        const sentiment = searchParams.get('sentiment') || undefined;
+        const sort = searchParams.get('sort') || 'relevance';
+        const searchFrom = searchParams.get('from') || undefined;
+        const searchTo = searchParams.get('to') || undefined;
+
+        if (!query && !ticker && !topic && !sentiment && !searchFrom && !searchTo) {
+          return NextResponse.json({ error: 'Search query or filter required' }, { status: 400 });
+        }
+        if (sentiment && !SENTIMENT_LABELS.includes(sentiment)) {
+          return NextResponse.json({ error: 'Invalid sentiment. Use: positive, negative or neutral' }, { status: 400 });
+        }
+        if (sort !== 'relevance' && sort !== 'date') {
+          return NextResponse.json({ error: 'Invalid sort. Use: relevance or date' }, { status: 400 });
+        }
+        if ((searchFrom && !DATE_PARAM_PATTERN.test(searchFrom)) || (searchTo && !DATE_PARAM_PATTERN.test(searchTo))) {
+          return NextResponse.json({ error: 'Invalid date. Use YYYYMMDD or YYYY-MM-DD' }, { status: 400 });
+        }
+
+        try {
+          const searchResults = analyzer.searchArticles(query || '', {
+            from: searchFrom,
+            to: searchTo,
+            ticker,
+            topic,
+            sentiment: sentiment as 'positive' | 'negative' | 'neutral' | undefined,
+            sort,
+            limit,
+            cursor: searchParams.get('cursor')
+          });
+          return NextResponse.json({
+            success: true,
+            data: searchResults,
+            type: 'search'
+          });
+        } catch (error) {
+          if (error instanceof SearchCursorError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+          }
+          throw error;
+        }
+      }
+
+      case 'compare':
+        if (!query) {
+          return NextResponse.json({ error: 'Comma-separated tickers or sectors required' }, { status: 400 });
+        }
+        return compareResponse(analyzer, query.split(','), searchParams.get('type') || 'stock');
+
+      case 'status':
+        return NextResponse.json({
+          success: true,
+          data: analyzer.getDataStatus(),
+          type: 'status'
+        });
+
+      case 'timeseries':
         if (!query) {
-          return NextResponse.json({ error: 'Search query required' }, { status: 400 });
+          return NextResponse.json({ error: 'Stock symbol or sector name required' }, { status: 400 });
+        }
+        const type = searchParams.get('type') || 'stock';
+        const interval = searchParams.get('interval') || 'day';
+        const from = searchParams.get('from') || undefined;
+        const to = searchParams.get('to') || undefined;
+
+        if (type !== 'stock' && type !== 'sector') {
+          return NextResponse.json({ error: 'Invalid type. Use: stock or sector' }, { status: 400 });
+        }
+        if (interval !== 'day' && interval !== 'week') {
+          return NextResponse.json({ error: 'Invalid interval. Use: day or week' }, { status: 400 });
+        }
+        if ((from && !DATE_PARAM_PATTERN.test(from)) || (to && !DATE_PARAM_PATTERN.test(to))) {
+          return NextResponse.json({ error: 'Invalid date. Use YYYYMMDD or YYYY-MM-DD' }, { status: 400 });
+        }
+
+        const timeSeries = analyzer.getSentimentTimeSeries(query, { type, interval, from, to });
+        return NextResponse.json({
+          success: true,
+          data: timeSeries,
+          type: 'timeseries'
+        });
+
+      case 'network': {
+        const networkType = searchParams.get('type') || 'ticker';
+        const networkLimit = parseInt(searchParams.get('limit') || '25');
+        const minWeight = parseInt(searchParams.get('minWeight') || '2');
+        const networkFrom = searchParams.get('from') || undefined;
+        const networkTo = searchParams.get('to') || undefined;
+
+        if (networkType !== 'ticker' && networkType !== 'topic') {
+          return NextResponse.json({ error: 'Invalid type. Use: ticker or topic' }, { status: 400 });
+        }
+        if (isNaN(networkLimit) || isNaN(minWeight) || minWeight < 1) {
+          return NextResponse.json({ error: 'limit and minWeight must be positive integers' }, { status: 400 });
+        }
+        if ((networkFrom && !DATE_PARAM_PATTERN.test(networkFrom)) || (networkTo && !DATE_PARAM_PATTERN.test(networkTo))) {
+          return NextResponse.json({ error: 'Invalid date. Use YYYYMMDD or YYYY-MM-DD' }, { status: 400 });
+        }
+
+        return NextResponse.json({
+          success: true,
+          data: analyzer.getCoMentionNetwork({
+            type: networkType,
+            focus: query || undefined,
+            limit: networkLimit,
+            minWeight,
+            from: networkFrom,
+            to: networkTo
+          }),
+          type: 'network'
+        });
+      }
+
+      case 'anomalies': {
+        const parsed = parseAnomalyOptions(Object.fromEntries(searchParams));
+        if ('error' in parsed) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 });
         }
-        const searchResults = sentimentAnalyzer.searchNews(query, limit);
         return NextResponse.json({
           success: true,
-          data: searchResults,
-          type: 'search'
+          data: detectAnomalies(analyzer, parsed.options),
+          type: 'anomalies'
         });
+      }
 
       default:
         return NextResponse.json({ 
-          error: 'Invalid action. Use: stock, sector, overview, or search' 
+          error: 'Invalid action. Use: stock, sector, overview, search, timeseries, compare, network, anomalies, or status' 
         }, { status: 400 });
     }
   } catch (error) {
@@ -69,7 +223,14 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, query, limit = 20 } = body;
+    const { action, query, limit = 20, asOf } = body;
+
+    if (asOf !== undefined && asOf !== null && (typeof asOf !== 'string' || !normalizeAsOf(asOf))) {
+      return NextResponse.json({ error: 'Invalid asOf. Use YYYY-MM-DD or an ISO timestamp' }, { status: 400 });
+    }
+
+    await sentimentAnalyzer.ready();
+    const analyzer = sentimentAnalyzer.asOf(asOf);
 
     // Handle batch requests or complex queries
     if (action === 'batch') {
@@ -82,14 +243,14 @@ export async function POST(request: NextRequest) {
             results.push({
               type: 'stock',
               query: req.query,
-              data: sentimentAnalyzer.getStockSentiment(req.query)
+              data: analyzer.getStockSentiment(req.query)
             });
             break;
           case 'sector':
             results.push({
               type: 'sector',
               query: req.query,
-              data: sentimentAnalyzer.getSectorSentiment(req.query)
+              data: analyzer.getSectorSentiment(req.query)
             });
             break;
         }
@@ -102,6 +263,14 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (action === 'compare') {
+      const { queries, type = 'stock' } = body;
+      if (!Array.isArray(queries)) {
+        return NextResponse.json({ error: 'queries must be an array' }, { status: 400 });
+      }
+      return compareResponse(analyzer, queries.map(String), type);
+    }
+
     return NextResponse.json({ 
       error: 'Invalid POST action' 
     }, { status: 400 });
@@ -1,15 +1,128 @@
 import { NextRequest, NextResponse } from "next/server"
-import OpenAI from "openai"
+import OpenAI, { toFile } from "openai"
+import type { Uploadable } from "openai/uploads"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import { createMockTranscription, isMockMode } from "@/lib/mock-ai"
+import { getUploadSessionStore } from "@/lib/upload-sessions"
+import {
+  FfmpegUnavailableError,
+  transcribeLongMedia,
+  WHISPER_MAX_BYTES,
+  type Transcript,
+  type TranscriptionProgress,
+} from "@/lib/media-transcription"
 
 // Initialize OpenAI
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || "",
 })
 
+const uploadStore = getUploadSessionStore()
+
+// Media to transcribe: a file posted with the request, or one an upload session already stored
+interface MediaSource {
+  name: string
+  type: string
+  size: number
+  file?: File
+  path?: string
+}
+
+// One Whisper request; the file must be under its 25MB limit
+async function whisper(file: Uploadable, signal?: AbortSignal): Promise<Transcript> {
+  const transcription = await openai.audio.transcriptions.create({
+    file: file,
+    model: "whisper-1",
+    response_format: "verbose_json", // Get more detailed response
+  }, { signal })
+  
+  // Extract additional metadata if available
+  const response = transcription as any; // Type assertion for verbose response
+  return {
+    text: response.text || "",
+    language: response.language || undefined,
+    duration: response.duration || undefined,
+    segments: (response.segments || []).map((segment: any) => ({
+      id: segment.id,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+    })),
+  }
+}
+
+// Files over the limit are cut into pieces with ffmpeg in a temporary folder and transcribed piece by piece
+async function transcribe(source: MediaSource, onProgress: (progress: TranscriptionProgress) => void): Promise<Transcript> {
+  if (source.size <= WHISPER_MAX_BYTES) {
+    // Whisper tells the format from the name, and stored uploads are named <id>.part
+    return whisper(source.file || await toFile(fs.createReadStream(source.path!), source.name))
+  }
+  
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "tradebuddy-transcribe-"))
+  try {
+    let inputPath = source.path
+    if (!inputPath) {
+      // Streamed to disk rather than copied into another buffer
+      inputPath = path.join(workDir, `input${path.extname(source.name)}`)
+      await pipeline(Readable.fromWeb(source.file!.stream() as NodeReadableStream), fs.createWriteStream(inputPath))
+    }
+    return await transcribeLongMedia(inputPath, workDir, (audioPath, signal) => whisper(fs.createReadStream(audioPath), signal), onProgress)
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined)
+  }
+}
+
+// The error body and status for a failed transcription
+function describeError(transcriptionError: any): { body: { error: string; details: string }; status: number } {
+  console.error("Transcription error:", transcriptionError)
+  
+  if (transcriptionError instanceof FfmpegUnavailableError) {
+    return {
+      body: { error: "File too large", details: transcriptionError.message },
+      status: 400,
+    }
+  }
+  
+  // Check if it's an authentication error
+  if (transcriptionError.status === 401) {
+    return {
+      body: { error: "Invalid OpenAI API key", details: "Please check your OPENAI_API_KEY in the .env file" },
+      status: 401,
+    }
+  }
+  
+  // Check if it's a file format error
+  if (transcriptionError.message?.includes("format")) {
+    return {
+      body: { error: "Unsupported file format", details: "Please upload a supported audio or video format (MP3, MP4, MOV, etc.)" },
+      status: 400,
+    }
+  }
+  
+  return {
+    body: { error: "Failed to transcribe media", details: transcriptionError.message || "Unknown error" },
+    status: 500,
+  }
+}
+
+/**
+ * Transcribe an audio or video file: JSON { uploadId } for a file sent through
+ * /api/upload/sessions, whose stored bytes are released afterwards, or a
+ * multipart "file" for direct API use. Clients that send
+ * "Accept: application/x-ndjson" get one JSON line per progress update
+ * ({ type: "progress", stage, completed, total }) and then a final
+ * { type: "result", ... } or { type: "error", ... } line; others get the
+ * result as a single JSON response.
+ */
 export async function POST(req: NextRequest) {
   try {
     // Check if API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    if (!process.env.OPENAI_API_KEY && !isMockMode()) {
       console.error("OpenAI API key not configured")
       return NextResponse.json(
         { error: "OpenAI API key not configured. Please add OPENAI_API_KEY to your .env file" },
@@ -17,19 +130,36 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const formData = await req.formData()
-    const file = formData.get("file") as File
-    
-    if (!file) {
-      return NextResponse.json(
-        { error: "No file provided" },
-        { status: 400 }
-      )
+    let source: MediaSource
+    let uploadId: string | undefined
+    if (req.headers.get("content-type")?.includes("application/json")) {
+      const body = await req.json().catch(() => ({}))
+      uploadId = typeof body.uploadId === "string" ? body.uploadId : undefined
+      const session = uploadId ? await uploadStore.get(uploadId) : null
+      const mediaPath = uploadId ? await uploadStore.getMediaPath(uploadId) : null
+      if (!session || !mediaPath) {
+        return NextResponse.json(
+          { error: "Upload not found", details: "The upload has expired or was already transcribed. Please upload the file again" },
+          { status: 404 }
+        )
+      }
+      source = { name: session.fileName, type: session.mimeType, size: session.size, path: mediaPath }
+    } else {
+      const formData = await req.formData()
+      const file = formData.get("file") as File
+      
+      if (!file) {
+        return NextResponse.json(
+          { error: "No file provided" },
+          { status: 400 }
+        )
+      }
+      source = { name: file.name, type: file.type, size: file.size, file }
     }
 
     // Check if it's an audio or video file
-    const isAudio = file.type.startsWith("audio/")
-    const isVideo = file.type.startsWith("video/")
+    const isAudio = source.type.startsWith("audio/")
+    const isVideo = source.type.startsWith("video/")
     
     if (!isAudio && !isVideo) {
       return NextResponse.json(
@@ -38,84 +168,56 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    console.log(`Processing ${isVideo ? 'video' : 'audio'} file:`, file.name, "Type:", file.type, "Size:", file.size)
+    console.log(`Processing ${isVideo ? 'video' : 'audio'} file:`, source.name, "Type:", source.type, "Size:", source.size)
 
-    // Check file size (Whisper has a 25MB limit)
-    const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { 
-          error: "File too large",
-          details: `Maximum file size is 25MB. Your file is ${(file.size / 1024 / 1024).toFixed(1)}MB`
+    const fileInfo = {
+      name: source.name,
+      type: source.type,
+      size: source.size,
+      isVideo: isVideo
+    }
+    const run = async (onProgress: (progress: TranscriptionProgress) => void): Promise<Transcript> => {
+      try {
+        if (isMockMode()) return createMockTranscription(source.name)
+        const transcription = await transcribe(source, onProgress)
+        return { ...transcription, text: transcription.text || "No transcription available" }
+      } finally {
+        if (uploadId) await uploadStore.releaseMedia(uploadId)
+      }
+    }
+
+    if (req.headers.get("accept")?.includes("application/x-ndjson")) {
+      const encoder = new TextEncoder()
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (line: object) => controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`))
+          try {
+            const transcription = await run((progress) => send({ type: "progress", ...progress }))
+            send({ type: "result", success: true, transcription, fileInfo })
+          } catch (transcriptionError) {
+            send({ type: "error", ...describeError(transcriptionError).body })
+          }
+          controller.close()
         },
-        { status: 400 }
-      )
+      })
+      return new Response(stream, {
+        headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+      })
     }
 
     try {
-      // Whisper API supports both audio and video files
       console.log("Calling OpenAI Whisper API...")
-      
-      const transcription = await openai.audio.transcriptions.create({
-        file: file,
-        model: "whisper-1",
-        response_format: "verbose_json", // Get more detailed response
-      })
-      
+      const transcription = await run((progress) => console.log("Transcription progress:", progress))
       console.log("Transcription successful!")
       
-      // Extract additional metadata if available
-      const response = transcription as any; // Type assertion for verbose response
-      
       return NextResponse.json({
         success: true,
-        transcription: {
-          text: response.text || "No transcription available",
-          language: response.language || undefined,
-          duration: response.duration || undefined,
-          segments: response.segments || [], // Detailed timing information
-        },
-        fileInfo: {
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          isVideo: isVideo
-        }
+        transcription,
+        fileInfo
       })
     } catch (transcriptionError: any) {
-      console.error("Transcription error:", transcriptionError)
-      console.error("Error type:", transcriptionError.constructor.name)
-      console.error("Error message:", transcriptionError.message)
-      
-      // Check if it's an authentication error
-      if (transcriptionError.status === 401) {
-        return NextResponse.json(
-          { 
-            error: "Invalid OpenAI API key",
-            details: "Please check your OPENAI_API_KEY in the .env file"
-          },
-          { status: 401 }
-        )
-      }
-      
-      // Check if it's a file format error
-      if (transcriptionError.message?.includes("format")) {
-        return NextResponse.json(
-          { 
-            error: "Unsupported file format",
-            details: "Please upload a supported audio or video format (MP3, MP4, MOV, etc.)"
-          },
-          { status: 400 }
-        )
-      }
-      
-      return NextResponse.json(
-        { 
-          error: "Failed to transcribe media",
-          details: transcriptionError.message || "Unknown error"
-        },
-        { status: 500 }
-      )
+      const { body, status } = describeError(transcriptionError)
+      return NextResponse.json(body, { status })
     }
   } catch (error: any) {
     console.error("General error:", error)
@@ -4,10 +4,15 @@ import { NextResponse } from "next/server"
 import path from "node:path"
 import fs from "node:fs/promises"
 import os from "node:os"
+import { createMockFileInfo, isMockMode } from "@/lib/mock-ai"
+import { isTabularMimeType } from "@/lib/chat-attachments"
+import { MAX_TABULAR_BYTES } from "@/lib/document-store"
+import { SUPPORTED_UPLOAD_TYPES, UNSUPPORTED_UPLOAD_TYPE_ERROR, ingestTabularFile } from "@/lib/upload-sessions"
 
 // Initialize the File Manager
 const fileManager = new GoogleAIFileManager(process.env.GEMINI_API_KEY || "")
 
+// One-shot upload for small files; the chat UI uses the resumable /api/upload/sessions flow
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData()
@@ -21,36 +26,16 @@ export async function POST(req: NextRequest) {
     }
 
     // Validate file type
-    const supportedTypes = [
-      // Images
-      "image/jpeg",
-      "image/png",
-      "image/webp",
-      "image/heic",
-      "image/heif",
-      // Audio
-      "audio/mpeg",
-      "audio/mp3",
-      "audio/wav",
-      "audio/webm",
-      "audio/mp4",
-      "audio/m4a",
-      // Video
-      "video/mp4",
-      "video/mpeg",
-      "video/mov",
-      "video/avi",
-      "video/x-flv",
-      "video/mpg",
-      "video/webm",
-      "video/wmv",
-      "video/3gpp",
-      "video/quicktime"
-    ]
+    if (!SUPPORTED_UPLOAD_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: UNSUPPORTED_UPLOAD_TYPE_ERROR },
+        { status: 400 }
+      )
+    }
 
-    if (!supportedTypes.includes(file.type)) {
+    if (isTabularMimeType(file.type) && file.size > MAX_TABULAR_BYTES) {
       return NextResponse.json(
-        { error: "Unsupported file type. Please upload an image (JPEG, PNG, WebP), audio file (MP3, WAV, etc.), or video file (MP4, MOV, etc.)" },
+        { error: "Spreadsheet too large. CSV and XLSX files can be at most 20MB" },
         { status: 400 }
       )
     }
@@ -58,6 +43,23 @@ export async function POST(req: NextRequest) {
     // Convert File to Buffer
     const bytes = await file.arrayBuffer()
     const buffer = Buffer.from(bytes)
+
+    // CSV and XLSX are parsed here and queried through the document tools
+    if (isTabularMimeType(file.type)) {
+      try {
+        return NextResponse.json({ success: true, file: await ingestTabularFile(file.name, file.type, buffer) })
+      } catch (parseError) {
+        return NextResponse.json(
+          { error: `Could not read ${file.name}: ${parseError instanceof Error ? parseError.message : "invalid file"}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Offline mode: a stable fake URI that only the mock chat provider reads
+    if (isMockMode()) {
+      return NextResponse.json({ success: true, file: createMockFileInfo(file, buffer) })
+    }
     
     // Upload to Gemini
     try {
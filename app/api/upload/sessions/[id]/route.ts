@@ -0,0 +1,66 @@
+// app/api/upload/sessions/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploadSessionStore, parseContentRange } from '@/lib/upload-sessions';
+
+const uploadStore = getUploadSessionStore();
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Upload and processing status: receivedBytes for resuming, then Gemini's state
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await uploadStore.refresh(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: session });
+  } catch (error) {
+    console.error('Upload sessions API error:', error);
+    return NextResponse.json({ error: 'Failed to check upload status' }, { status: 500 });
+  }
+}
+
+// One chunk as the raw request body, placed by a "Content-Range: bytes start-end/total" header
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const range = parseContentRange(request.headers.get('content-range'));
+    if (!range) {
+      return NextResponse.json({ error: 'A Content-Range header of the form "bytes start-end/total" is required' }, { status: 400 });
+    }
+
+    const bytes = Buffer.from(await request.arrayBuffer());
+    if (bytes.length !== range.end - range.start + 1) {
+      return NextResponse.json({ error: 'Chunk length does not match Content-Range' }, { status: 400 });
+    }
+
+    const result = await uploadStore.appendChunk(id, range.start, range.total, bytes);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error, data: result.session }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, data: result.session });
+  } catch (error) {
+    console.error('Upload sessions API error:', error);
+    return NextResponse.json({ error: 'Failed to store chunk' }, { status: 500 });
+  }
+}
+
+// Cancel an upload and discard what was received
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await uploadStore.delete(id))) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Upload sessions API error:', error);
+    return NextResponse.json({ error: 'Failed to cancel upload' }, { status: 500 });
+  }
+}
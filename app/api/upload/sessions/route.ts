@@ -0,0 +1,23 @@
+// app/api/upload/sessions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploadSessionStore, parseUploadSessionInput } from '@/lib/upload-sessions';
+
+const uploadStore = getUploadSessionStore();
+
+// Start a resumable upload; the client then PUTs chunks to /api/upload/sessions/:id
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseUploadSessionInput(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await uploadStore.create(parsed.input)
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Upload sessions API error:', error);
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+// app/api/watchlists/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSentimentAnalyzer } from '@/lib/sentiment-utils';
+import { getWatchlistStore, parseWatchlistChanges, resolveWatchlistTickers } from '@/lib/watchlist-store';
+
+const sentimentAnalyzer = getSentimentAnalyzer();
+const watchlistStore = getWatchlistStore();
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The watchlist with a sentiment snapshot for each of its tickers
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const watchlist = await watchlistStore.get(id);
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+
+    await sentimentAnalyzer.ready();
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...watchlist,
+        snapshots: watchlist.tickers.map(ticker => sentimentAnalyzer.getTickerSnapshot(ticker))
+      }
+    });
+  } catch (error) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json({ error: 'Failed to load watchlist' }, { status: 500 });
+  }
+}
+
+// Rename, replace the tickers, or add/remove individual tickers
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const parsed = parseWatchlistChanges(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    await sentimentAnalyzer.ready();
+    const resolved = resolveWatchlistTickers(parsed.changes, query => sentimentAnalyzer.resolveTicker(query).primary);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+
+    const watchlist = await watchlistStore.update(id, resolved.changes);
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: watchlist });
+  } catch (error) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json({ error: 'Failed to update watchlist' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await watchlistStore.delete(id))) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json({ error: 'Failed to delete watchlist' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/watchlists/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getSentimentAnalyzer } from '@/lib/sentiment-utils';
+import { getWatchlistStore, parseWatchlistChanges, resolveWatchlistTickers } from '@/lib/watchlist-store';
+
+const sentimentAnalyzer = getSentimentAnalyzer();
+const watchlistStore = getWatchlistStore();
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, data: await watchlistStore.list() });
+  } catch (error) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json({ error: 'Failed to list watchlists' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseWatchlistChanges(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (!parsed.changes.name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    await sentimentAnalyzer.ready();
+    const resolved = resolveWatchlistTickers(parsed.changes, query => sentimentAnalyzer.resolveTicker(query).primary);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+
+    const { name, tickers = [], add = [] } = resolved.changes;
+    return NextResponse.json({
+      success: true,
+      data: await watchlistStore.create(name!, tickers.concat(add))
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json({ error: 'Failed to create watchlist' }, { status: 500 });
+  }
+}
@@ -1,15 +1,40 @@
 "use client"
 
+import { useCallback, useState } from "react"
 import { AppSidebar } from "@/components/app-sidebar"
 import ChatInterface from "@/components/chat-interface"
 
 export default function Home() {
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  // Changes only when the user switches conversations, so saving never remounts the chat
+  const [chatKey, setChatKey] = useState(0)
+  const [historyVersion, setHistoryVersion] = useState(0)
+
+  const openConversation = useCallback((id: string | null) => {
+    setConversationId(id)
+    setChatKey(key => key + 1)
+  }, [])
+
+  const handleConversationSaved = useCallback((id: string) => {
+    setConversationId(id)
+    setHistoryVersion(version => version + 1)
+  }, [])
+
   return (
     <main className="h-screen bg-[#1E1E1E]">
-      <AppSidebar />
+      <AppSidebar
+        activeConversationId={conversationId}
+        refreshKey={historyVersion}
+        onSelectConversation={openConversation}
+        onNewConversation={() => openConversation(null)}
+      />
       <div className="pl-[3.05rem] transition-all duration-200 h-full">
-        <ChatInterface />
+        <ChatInterface
+          key={chatKey}
+          conversationId={conversationId}
+          onConversationSaved={handleConversationSaved}
+        />
       </div>
     </main>
   )
-}
\ No newline at end of file
+}
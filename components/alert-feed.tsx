@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { BellRing } from 'lucide-react';
+import type { AlertEvent } from '@/lib/alert-store';
+
+interface AlertFeedProps {
+  events: AlertEvent[];
+  onSelect?: (event: AlertEvent) => void;
+  emptyMessage?: string;
+}
+
+// Triggered alerts, newest first; shared by the chat header and the dashboard
+export function AlertFeed({ events, onSelect, emptyMessage = 'No alerts have fired yet.' }: AlertFeedProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {events.map(event => (
+        <button
+          key={event.id}
+          type="button"
+          onClick={() => onSelect?.(event)}
+          disabled={!onSelect}
+          className="w-full text-left p-3 rounded-lg border flex gap-3 items-start enabled:hover:bg-muted transition-colors"
+        >
+          <BellRing className="w-4 h-4 mt-0.5 text-orange-500 shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{event.ruleName}</p>
+            <p className="text-xs text-muted-foreground">{event.message}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {new Date(event.triggeredAt).toLocaleString()}
+            </p>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { AlertFeed } from './alert-feed';
+import type { AlertEvent, AlertMetric, AlertOperator, AlertRule } from '@/lib/alert-store';
+
+interface AlertsPanelProps {
+  onSendMessage: (message: string) => void;
+}
+
+type AlertRuleWithDescription = AlertRule & { description: string };
+
+const METRIC_OPTIONS: Array<{ value: AlertMetric; label: string; hint: string }> = [
+  { value: 'score', label: 'Sentiment score', hint: '-1 to 1' },
+  { value: 'bearishShare', label: 'Bearish share', hint: '0 to 1, e.g. 0.4 = 40%' },
+  { value: 'bullishShare', label: 'Bullish share', hint: '0 to 1, e.g. 0.6 = 60%' },
+  { value: 'volumeChange', label: 'Volume change', hint: 'ratio, e.g. 2 = doubled' }
+];
+
+// Send a JSON request and surface the API's error message, if any
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed (${response.status})`);
+  }
+  return result.data;
+}
+
+export function AlertsPanel({ onSendMessage }: AlertsPanelProps) {
+  const [rules, setRules] = useState<AlertRuleWithDescription[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // New rule form
+  const [query, setQuery] = useState('');
+  const [targetType, setTargetType] = useState<'stock' | 'sector'>('stock');
+  const [metric, setMetric] = useState<AlertMetric>('score');
+  const [operator, setOperator] = useState<AlertOperator>('below');
+  const [threshold, setThreshold] = useState('-0.2');
+  const [windowDays, setWindowDays] = useState('1');
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const data = await request('/api/alerts');
+      setRules(data.rules);
+      setEvents(data.events);
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      await request('/api/alerts', {
+        method: 'POST',
+        body: JSON.stringify({
+          query,
+          targetType,
+          metric,
+          operator,
+          threshold: parseFloat(threshold),
+          windowDays: parseInt(windowDays, 10)
+        })
+      });
+      setQuery('');
+      await fetchAlerts();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create alert');
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    setRules(prev => prev.map(item => item.id === rule.id ? { ...item, enabled } : item));
+    try {
+      await request(`/api/alerts/${rule.id}`, { method: 'PATCH', body: JSON.stringify({ enabled }) });
+      await fetchAlerts();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update alert');
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      await request(`/api/alerts/${rule.id}`, { method: 'DELETE' });
+      await fetchAlerts();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete alert');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Alert Rules</CardTitle>
+          <CardDescription>
+            Rules are checked against the newest news data every time it loads
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            <Input
+              placeholder="Ticker or sector, e.g. TSLA"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <Select value={targetType} onValueChange={(value) => setTargetType(value as 'stock' | 'sector')}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="stock">Stock</SelectItem>
+                <SelectItem value="sector">Sector / topic</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={metric} onValueChange={(value) => setMetric(value as AlertMetric)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {METRIC_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={operator} onValueChange={(value) => setOperator(value as AlertOperator)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="above">Above</SelectItem>
+                <SelectItem value="below">Below</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.05"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              title={METRIC_OPTIONS.find(option => option.value === metric)?.hint}
+            />
+            <Input
+              type="number"
+              min={1}
+              max={30}
+              value={windowDays}
+              onChange={(e) => setWindowDays(e.target.value)}
+              title="Window in days"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              Threshold: {METRIC_OPTIONS.find(option => option.value === metric)?.hint}. Window: {windowDays || 1} day(s).
+            </p>
+            <Button size="sm" onClick={handleCreate} disabled={!query.trim() || threshold === ''}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add rule
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{rule.name || rule.description}</p>
+                  {rule.lastTriggeredAsOf && (
+                    <p className="text-xs text-muted-foreground">Last fired for {rule.lastTriggeredAsOf}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => handleToggle(rule, enabled)} />
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)} title="Delete rule">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No rules yet, e.g. &quot;TSLA sentiment score below -0.2&quot;.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Triggered Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AlertFeed
+            events={events}
+            onSelect={(event) => onSendMessage(`Explain this alert: ${event.message}`)}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
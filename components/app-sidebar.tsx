@@ -7,22 +7,26 @@ import {
   ChevronsUpDown,
   Code,
   FileText,
-  History,
   ImageIcon,
   LayoutDashboard,
   LogOut,
   MessageSquare,
+  MoreHorizontal,
   Music,
+  Pencil,
   Plus,
   Settings,
+  Trash2,
   UserCircle,
   Video,
 } from "lucide-react"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -31,6 +35,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Separator } from "@/components/ui/separator"
+import type { ConversationSummary } from "@/lib/conversation-store"
 
 const sidebarVariants = {
   open: {
@@ -76,24 +81,80 @@ const staggerVariants = {
   },
 }
 
-// Mock data for project and chat history
-const projectHistory = [
-  { id: 1, name: "Landing Page", date: "2 hours ago" },
-  { id: 2, name: "Dashboard UI", date: "Yesterday" },
-  { id: 3, name: "Authentication Flow", date: "3 days ago" },
-  { id: 4, name: "Settings Panel", date: "1 week ago" },
-]
-
-const chatHistory = [
-  { id: 1, name: "AI Chat Interface", date: "Just now" },
-  { id: 2, name: "Canvas Implementation", date: "1 hour ago" },
-  { id: 3, name: "Responsive Design", date: "Yesterday" },
-]
+interface AppSidebarProps {
+  activeConversationId?: string | null
+  // Bumped by the parent whenever a conversation is saved, to reload the list
+  refreshKey?: number
+  onSelectConversation?: (id: string) => void
+  onNewConversation?: () => void
+}
 
-export function AppSidebar() {
+export function AppSidebar({
+  activeConversationId,
+  refreshKey,
+  onSelectConversation,
+  onNewConversation,
+}: AppSidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(true)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
   const pathname = usePathname()
 
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conversations")
+      if (!response.ok) throw new Error(`Status ${response.status}`)
+      const { data } = await response.json()
+      setConversations(data)
+    } catch (error) {
+      console.error("Failed to load conversations:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadConversations()
+  }, [loadConversations, refreshKey])
+
+  const startRename = (conversation: ConversationSummary) => {
+    setRenamingId(conversation.id)
+    setRenameValue(conversation.title)
+  }
+
+  const submitRename = async () => {
+    const id = renamingId
+    const title = renameValue.trim()
+    setRenamingId(null)
+    if (!id || !title) return
+
+    setConversations(prev => prev.map(conversation => conversation.id === id ? { ...conversation, title } : conversation))
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      })
+      if (!response.ok) throw new Error(`Status ${response.status}`)
+    } catch (error) {
+      console.error("Failed to rename conversation:", error)
+    }
+    loadConversations()
+  }
+
+  const deleteConversation = async (id: string) => {
+    setConversations(prev => prev.filter(conversation => conversation.id !== id))
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: "DELETE" })
+      if (!response.ok) throw new Error(`Status ${response.status}`)
+    } catch (error) {
+      console.error("Failed to delete conversation:", error)
+      loadConversations()
+    }
+    if (id === activeConversationId) {
+      onNewConversation?.()
+    }
+  }
+
   return (
     <motion.div
       className={cn("sidebar fixed left-0 z-40 h-full shrink-0 border-r")}
@@ -102,7 +163,10 @@ export function AppSidebar() {
       variants={sidebarVariants}
       transition={transitionProps}
       onMouseEnter={() => setIsCollapsed(false)}
-      onMouseLeave={() => setIsCollapsed(true)}
+      onMouseLeave={() => {
+        setIsCollapsed(true)
+        setRenamingId(null)
+      }}
     >
       <motion.div
         className={`relative z-40 flex text-muted-foreground h-full shrink-0 flex-col bg-white dark:bg-black transition-all`}
@@ -148,36 +212,6 @@ export function AppSidebar() {
               <div className="flex grow flex-col gap-4">
                 <ScrollArea className="h-16 grow p-2">
                   <div className={cn("flex w-full flex-col gap-1")}>
-                    {/* Project History Section */}
-                    <div className="mt-2 mb-1 px-2">
-                      <motion.div variants={variants} className="flex items-center">
-                        {!isCollapsed && <p className="text-xs font-semibold text-muted-foreground">PROJECT HISTORY</p>}
-                      </motion.div>
-                    </div>
-
-                    {projectHistory.map((project) => (
-                      <Link
-                        key={project.id}
-                        href={`/project/${project.id}`}
-                        className={cn(
-                          "flex h-8 w-full flex-row items-center rounded-md px-2 py-1.5 transition hover:bg-muted hover:text-primary",
-                          pathname?.includes(`/project/${project.id}`) && "bg-muted text-blue-600",
-                        )}
-                      >
-                        <History className="h-4 w-4" />
-                        <motion.li variants={variants}>
-                          {!isCollapsed && (
-                            <div className="ml-2 flex flex-col">
-                              <p className="text-sm font-medium">{project.name}</p>
-                              <p className="text-xs text-muted-foreground">{project.date}</p>
-                            </div>
-                          )}
-                        </motion.li>
-                      </Link>
-                    ))}
-
-                    <Separator className="my-2" />
-
                     {/* Chat History Section */}
                     <div className="mt-2 mb-1 px-2">
                       <motion.div variants={variants} className="flex items-center">
@@ -185,27 +219,78 @@ export function AppSidebar() {
                       </motion.div>
                     </div>
 
-                    {chatHistory.map((chat) => (
-                      <Link
-                        key={chat.id}
-                        href={`/chat/${chat.id}`}
+                    <button
+                      type="button"
+                      onClick={() => onNewConversation?.()}
+                      className="flex h-8 w-full flex-row items-center rounded-md px-2 py-1.5 transition hover:bg-muted hover:text-primary"
+                    >
+                      <Plus className="h-4 w-4 shrink-0" />
+                      <motion.li variants={variants}>
+                        {!isCollapsed && <p className="ml-2 text-sm font-medium">New Chat</p>}
+                      </motion.li>
+                    </button>
+
+                    {conversations.map((conversation) => (
+                      <div
+                        key={conversation.id}
                         className={cn(
-                          "flex h-8 w-full flex-row items-center rounded-md px-2 py-1.5 transition hover:bg-muted hover:text-primary",
-                          pathname?.includes(`/chat/${chat.id}`) && "bg-muted text-blue-600",
+                          "group flex h-10 w-full flex-row items-center rounded-md px-2 py-1.5 transition hover:bg-muted hover:text-primary",
+                          conversation.id === activeConversationId && "bg-muted text-blue-600",
                         )}
                       >
-                        <MessageSquare className="h-4 w-4" />
-                        <motion.li variants={variants}>
-                          {!isCollapsed && (
-                            <div className="ml-2 flex flex-col">
-                              <p className="text-sm font-medium">{chat.name}</p>
-                              <p className="text-xs text-muted-foreground">{chat.date}</p>
-                            </div>
-                          )}
-                        </motion.li>
-                      </Link>
+                        <MessageSquare className="h-4 w-4 shrink-0" />
+                        {!isCollapsed && (renamingId === conversation.id ? (
+                          <Input
+                            autoFocus
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onBlur={submitRename}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") submitRename()
+                              if (e.key === "Escape") setRenamingId(null)
+                            }}
+                            className="ml-2 h-7 text-sm"
+                          />
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => onSelectConversation?.(conversation.id)}
+                              className="ml-2 flex min-w-0 flex-1 flex-col text-left"
+                              title={conversation.title}
+                            >
+                              <p className="truncate text-sm font-medium">{conversation.title}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatDistanceToNow(new Date(conversation.updatedAt), { addSuffix: true })}
+                              </p>
+                            </button>
+                            <DropdownMenu modal={false}>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem className="flex items-center gap-2" onClick={() => startRename(conversation)}>
+                                  <Pencil className="h-4 w-4" /> Rename
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  className="flex items-center gap-2 text-red-500"
+                                  onClick={() => deleteConversation(conversation.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" /> Delete
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </>
+                        ))}
+                      </div>
                     ))}
 
+                    {!isCollapsed && conversations.length === 0 && (
+                      <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved conversations yet</p>
+                    )}
+
                     <Separator className="my-2" />
 
                     {/* Canvas Tabs */}
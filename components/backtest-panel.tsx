@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Play } from 'lucide-react';
+import type { BacktestMode, BacktestResult } from '@/lib/backtest';
+
+const chartConfig = {
+  strategy: { label: 'Sentiment strategy', color: 'hsl(217 91% 60%)' },
+  buyAndHold: { label: 'Buy & hold', color: 'hsl(var(--muted-foreground))' }
+} satisfies ChartConfig;
+
+// Send a JSON request and surface the API's error message, if any
+async function request(url: string) {
+  const response = await fetch(url);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed (${response.status})`);
+  }
+  return result.data;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? 'n/a' : `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+export function BacktestPanel() {
+  const [tickers, setTickers] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<BacktestMode>('long-short');
+  const [threshold, setThreshold] = useState('0.15');
+  const [holdDays, setHoldDays] = useState('5');
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    request('/api/backtest')
+      .then(data => {
+        setTickers(data.tickers);
+        setQuery(current => current || data.tickers[0] || '');
+      })
+      .catch(error => console.error('Error fetching price tickers:', error));
+  }, []);
+
+  const runBacktest = async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ query, mode, threshold, holdDays });
+      setResult(await request(`/api/backtest?${params}`));
+    } catch (error) {
+      setResult(null);
+      setError(error instanceof Error ? error.message : 'Failed to run backtest');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sentiment Backtest</CardTitle>
+        <CardDescription>
+          Trade on daily ticker sentiment and compare against buy &amp; hold, using price CSVs in the data folder
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <Input
+            placeholder="Ticker, e.g. AAPL"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && query.trim() && runBacktest()}
+            list="backtest-tickers"
+          />
+          <datalist id="backtest-tickers">
+            {tickers.map(ticker => <option key={ticker} value={ticker} />)}
+          </datalist>
+          <Select value={mode} onValueChange={(value) => setMode(value as BacktestMode)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="long-short">Long &amp; short</SelectItem>
+              <SelectItem value="long">Long only</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.05"
+            min={0}
+            max={0.95}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            title="Minimum |sentiment score| for a signal"
+          />
+          <Input
+            type="number"
+            min={1}
+            max={30}
+            value={holdDays}
+            onChange={(e) => setHoldDays(e.target.value)}
+            title="Trading days to hold each position"
+          />
+          <Button onClick={runBacktest} disabled={!query.trim() || loading}>
+            <Play className="w-4 h-4 mr-1" />
+            {loading ? 'Running...' : 'Run'}
+          </Button>
+        </div>
+
+        {tickers.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            No price files found. Add OHLC CSVs such as data/AAPL.csv (Date, Open, High, Low, Close, Volume).
+          </p>
+        )}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {[
+                { label: 'Strategy return', value: formatPercent(result.totalReturn) },
+                { label: 'Buy & hold', value: formatPercent(result.buyAndHoldReturn) },
+                { label: 'Max drawdown', value: formatPercent(-result.maxDrawdown) },
+                { label: 'Time in market', value: `${(result.exposure * 100).toFixed(0)}%` }
+              ].map(stat => (
+                <div key={stat.label} className="p-3 rounded-lg border">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-lg font-semibold font-mono">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={result.equityCurve} margin={{ left: 4, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={(value) => value.slice(5)} />
+                <YAxis tickLine={false} axisLine={false} width={40} domain={['auto', 'auto']} tickFormatter={(value) => value.toFixed(2)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="strategy" type="monotone" stroke="var(--color-strategy)" strokeWidth={2} dot={false} />
+                <Line dataKey="buyAndHold" type="monotone" stroke="var(--color-buyAndHold)" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="grid grid-cols-3 gap-2">
+              {result.horizons.map(horizon => (
+                <div key={horizon.days} className="p-3 rounded-lg border space-y-1">
+                  <p className="text-xs text-muted-foreground">{horizon.days}-day forward</p>
+                  <p className="text-sm">
+                    Hit rate <span className="font-mono font-semibold">
+                      {horizon.hitRate === null ? 'n/a' : `${(horizon.hitRate * 100).toFixed(0)}%`}
+                    </span>
+                  </p>
+                  <p className="text-sm">
+                    Avg return <span className="font-mono">{formatPercent(horizon.averageReturn)}</span>
+                  </p>
+                  <Badge variant="secondary" className="text-xs">{horizon.signalCount} signals</Badge>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {result.ticker} ({result.priceFile}), {result.from} to {result.to}. Signals are entered at the
+              close of the trading day after the news; returns are in the signal&apos;s direction.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,7 @@ import ChatMessage from "./chat-message"
 import { AI_Prompt } from "@/components/ui/animated-ai-input"
 import { useState, useCallback, useRef, useEffect } from "react"
 import AgentTaskView from "./agent-task-view"
-import { UploadProgress } from "./upload-progress"
+import { UploadProgress, type UploadStatus } from "./upload-progress"
 import { AnimatePresence } from "framer-motion"
 import { generateVideoThumbnail, getVideoDuration } from "@/lib/video-utils"
 import { 
@@ -20,8 +20,17 @@ import {
 } from "@/lib/image-utils"
 import { ImageGenerationSettings } from "./image-generation-settings"
 import { Button } from "@/components/ui/button"
-import { Settings, TrendingUp } from "lucide-react"
+import { Bell, History, Settings, TrendingUp } from "lucide-react"
 import { SentimentDashboard } from './sentiment-dashboard'
+import { AlertFeed } from "./alert-feed"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { AlertEvent } from "@/lib/alert-store"
+import type { Conversation, StoredImageReference, StoredMessage } from "@/lib/conversation-store"
+import { findAnnotation } from "@/lib/chat-stream"
+import type { ChatModelInfo } from "@/lib/chat-models"
+import { transcribeMedia, uploadFileResumable } from "@/lib/upload-client"
+import type { TranscriptionProgress } from "@/lib/media-transcription"
+import { MAX_CHAT_ATTACHMENTS, PDF_MIME_TYPE, getFileMimeType, type TablePreview } from "@/lib/chat-attachments"
 
 interface FileUpload {
   file: File
@@ -30,6 +39,8 @@ interface FileUpload {
     uri: string
     mimeType: string
     name: string
+    documentId?: string // CSV and XLSX files, parsed on our server
+    tables?: TablePreview[]
   }
   transcription?: {
     text: string
@@ -39,23 +50,70 @@ interface FileUpload {
   }
   videoThumbnail?: string // Add this for video thumbnail
   videoDuration?: number // Add this for video duration
+  dataUrl?: string // image contents, for models that cannot read Gemini file URIs
+}
+
+// Where one file of a multi-file upload has got to
+interface UploadTask {
+  loaded: number
+  phase: 'uploading' | 'processing' | 'transcribing' | 'done'
+  transcribing?: TranscriptionProgress // set once the server reports how transcription is going
 }
 
 interface ChatInterfaceProps {
+  conversationId?: string | null
+  onConversationSaved?: (id: string) => void
   onGeneratedImagesChange?: (images: GeneratedImage[]) => void
   onImageGenerationStart?: () => void
 }
 
-export default function ChatInterface({ onGeneratedImagesChange, onImageGenerationStart }: ChatInterfaceProps) {
+// How often the header checks for newly triggered sentiment alerts
+const ALERT_POLL_INTERVAL_MS = 60000
+const ALERTS_SEEN_KEY = "alertsSeenAt"
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+// Object URLs only live as long as the page, so they are not worth saving
+function toStoredAttachment<T extends { url?: string }>(attachment: T): T {
+  return attachment.url?.startsWith("blob:") ? { ...attachment, url: undefined } : attachment
+}
+
+export default function ChatInterface({
+  conversationId,
+  onConversationSaved,
+  onGeneratedImagesChange,
+  onImageGenerationStart,
+}: ChatInterfaceProps) {
   const [selectedModel, setSelectedModel] = useState("gemini-2.5-flash-preview-05-20")
+  // Chat models from the server-side registry
+  const [chatModels, setChatModels] = useState<ChatModelInfo[]>([])
   const [showAgentTasks, setShowAgentTasks] = useState(false)
   const [showSentimentDashboard, setShowSentimentDashboard] = useState(false)
-  const [selectedFile, setSelectedFile] = useState<FileUpload | null>(null)
+  const [selectedFiles, setSelectedFiles] = useState<FileUpload[]>([])
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'transcribing' | 'complete' | 'error'>('idle')
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus>('idle')
+  // Files still uploading, before they join the selected files
+  const [uploadingFiles, setUploadingFiles] = useState<File[]>([])
+  const [uploadedBytes, setUploadedBytes] = useState(0)
+  const [transcribeProgress, setTranscribeProgress] = useState<TranscriptionProgress | undefined>()
+  // Progress of each uploading file, combined into one progress bar
+  const uploadTasksRef = useRef<Map<File, UploadTask>>(new Map())
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([])
   const [isGeneratingImage, setIsGeneratingImage] = useState(false)
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([])
+  const [alertsSeenAt, setAlertsSeenAt] = useState<string | null>(null)
+  // Replay mode: answer using only news published up to this date (YYYY-MM-DD)
+  const [asOfDate, setAsOfDate] = useState("")
+  // Messages the context manager must keep however long the chat gets
+  const [pinnedMessageIds, setPinnedMessageIds] = useState<string[]>([])
   
   // Image generation settings
   const [imageQuality, setImageQuality] = useState<'standard' | 'hd'>('standard')
@@ -66,6 +124,39 @@ export default function ChatInterface({ onGeneratedImagesChange, onImageGenerati
   // Store object URLs for cleanup
   const objectURLsRef = useRef<Set<string>>(new Set())
   
+  // Poll the triggered-alerts feed
+  useEffect(() => {
+    const fetchAlerts = async () => {
+      try {
+        const response = await fetch("/api/alerts")
+        const result = await response.json()
+        if (result.success) {
+          setAlertEvents(result.data.events)
+        }
+      } catch (error) {
+        console.error("Error fetching alerts:", error)
+      }
+    }
+
+    setAlertsSeenAt(localStorage.getItem(ALERTS_SEEN_KEY))
+    fetchAlerts()
+    const interval = setInterval(fetchAlerts, ALERT_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    fetch("/api/models")
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setChatModels(result.data.models)
+      })
+      .catch(error => console.error("Error fetching models:", error))
+  }, [])
+
+  const selectedModelInfo = chatModels.find(model => model.id === selectedModel)
+
+  const unseenAlertCount = alertEvents.filter(event => !alertsSeenAt || event.triggeredAt > alertsSeenAt).length
+
   // Load generated images on mount
   useEffect(() => {
     const savedImages = loadGeneratedImages()
@@ -88,10 +179,12 @@ export default function ChatInterface({ onGeneratedImagesChange, onImageGenerati
     }
     videoThumbnail?: string // Add this
     videoDuration?: number // Add this
+    documentId?: string
+    tables?: TablePreview[]
   }[]>>({})
   
-  // Track pending attachment for the next message
-  const pendingAttachmentRef = useRef<{
+  // Track pending attachments for the next message
+  const pendingAttachmentsRef = useRef<{
     name: string
     contentType: string
     url?: string
@@ -103,15 +196,34 @@ export default function ChatInterface({ onGeneratedImagesChange, onImageGenerati
     }
     videoThumbnail?: string // Add this
     videoDuration?: number // Add this
-  } | null>(null)
+    documentId?: string
+    tables?: TablePreview[]
+  }[]>([])
 
-  const { messages, input, handleInputChange, handleSubmit: originalHandleSubmit, isLoading, error, stop, append } = useChat({
+  // The newest attachments already sent, so follow-up questions keep their transcripts in context
+  const latestAttachments = Object.values(messageAttachments).pop() || []
+
+  const { messages, setMessages, input, handleInputChange, handleSubmit: originalHandleSubmit, isLoading, error, stop, append } = useChat({
     api: "/api/chat",
     body: {
       model: selectedModel,
-      fileUri: selectedFile?.geminiFile?.uri,
-      fileMimeType: selectedFile?.geminiFile?.mimeType,
-      transcription: selectedFile?.transcription, // Include transcription data
+      attachments: selectedFiles.map(upload => ({
+        name: upload.file.name,
+        mimeType: upload.geminiFile?.mimeType || upload.file.type,
+        uri: upload.geminiFile?.uri,
+        documentId: upload.geminiFile?.documentId,
+        // Gemini reads the uploaded file; other providers get images inline
+        imageDataUrl: selectedModelInfo && selectedModelInfo.provider !== "gemini" ? upload.dataUrl : undefined,
+        transcription: upload.transcription, // Include transcription data
+      })),
+      asOf: asOfDate || undefined,
+      pinnedMessageIds,
+      attachmentContext: latestAttachments.map(attachment => ({
+        name: attachment.name,
+        mimeType: attachment.contentType,
+        transcription: attachment.transcription?.text,
+        documentId: attachment.documentId,
+      })),
     },
     initialMessages: [
       {
@@ -125,23 +237,38 @@ export default function ChatInterface({ onGeneratedImagesChange, onImageGenerati
     },
   })
 
+  // Tokens used by the replies in this conversation, from their usage annotations
+  const conversationTokens = messages.reduce(
+    (total, message) => total + (findAnnotation(message.annotations, "usage")?.totalTokens || 0),
+    0
+  )
+  // Context budget reported with the latest reply
+  const contextBudget = messages
+    .map(message => findAnnotation(message.annotations, "context"))
+    .filter(budget => budget !== undefined)
+    .pop()
+
+  const togglePinned = useCallback((id: string) => {
+    setPinnedMessageIds(previous => previous.includes(id) ? previous.filter(item => item !== id) : [...previous, id])
+  }, [])
+
   // Watch for new messages and attach pending files
   useEffect(() => {
-    if (messages.length > 0 && pendingAttachmentRef.current) {
+    if (messages.length > 0 && pendingAttachmentsRef.current.length > 0) {
       const lastMessage = messages[messages.length - 1]
       
       // Check if this is a new user message without attachments
-      if (lastMessage.role === 'user' && !messageAttachments[lastMessage.id] && pendingAttachmentRef.current) {
-        console.log('Attaching file to message:', lastMessage.id, pendingAttachmentRef.current)
+      if (lastMessage.role === 'user' && !messageAttachments[lastMessage.id]) {
+        console.log('Attaching files to message:', lastMessage.id, pendingAttachmentsRef.current)
         
-        const attachment = pendingAttachmentRef.current
+        const attachments = pendingAttachmentsRef.current
         setMessageAttachments(prev => ({
           ...prev,
-          [lastMessage.id]: [attachment]
+          [lastMessage.id]: attachments
         }))
         
-        // Clear the pending attachment
-        pendingAttachmentRef.current = null
+        // Clear the pending attachments
+        pendingAttachmentsRef.current = []
       }
     }
   }, [messages, messageAttachments])
@@ -169,159 +296,199 @@ export default function ChatInterface({ onGeneratedImagesChange, onImageGenerati
     }
   }, [messages.length])
   
-  const handleFileSelect = useCallback(async (file: File) => {
-    setIsUploading(true)
-    setUploadProgress(0)
-    setUploadStatus('uploading')
+  // Record one file's progress and show the combined progress of the batch
+  const updateUploadTask = useCallback((file: File, update: Partial<UploadTask>) => {
+    const tasks = Array.from(uploadTasksRef.current.entries())
+    const task = uploadTasksRef.current.get(file)
+    if (!task) return
+    Object.assign(task, update)
     
-    try {
-      // Create preview for images, audio, and video files
-      let preview: string | undefined
-      let videoThumbnail: string | undefined
-      let videoDuration: number | undefined
+    const totalBytes = tasks.reduce((sum, [taskFile]) => sum + taskFile.size, 0)
+    const loadedBytes = tasks.reduce((sum, [, { loaded }]) => sum + loaded, 0)
+    setUploadedBytes(loadedBytes)
+    setUploadProgress(totalBytes > 0 ? (loadedBytes / totalBytes) * 100 : 100)
+    // The earliest phase any file is still in decides what the bar shows
+    const phases = tasks.map(([, { phase }]) => phase)
+    if (phases.includes('uploading')) setUploadStatus('uploading')
+    else if (phases.includes('processing')) setUploadStatus('processing')
+    else if (phases.includes('transcribing')) setUploadStatus('transcribing')
+    setTranscribeProgress(tasks.find(([, { phase }]) => phase === 'transcribing')?.[1].transcribing)
+  }, [])
+  
+  // Upload one file, then transcribe it if it is audio or video
+  const uploadFile = useCallback(async (file: File): Promise<FileUpload> => {
+    // Create preview for images, audio, and video files
+    let preview: string | undefined
+    let videoThumbnail: string | undefined
+    let videoDuration: number | undefined
+    
+    let dataUrl: string | undefined
+    
+    if (file.type.startsWith("image/")) {
+      preview = URL.createObjectURL(file)
+      objectURLsRef.current.add(preview)
+      dataUrl = await readAsDataUrl(file)
+    } else if (file.type.startsWith("audio/") || file.type === PDF_MIME_TYPE) {
+      preview = URL.createObjectURL(file)
+      objectURLsRef.current.add(preview)
+    } else if (file.type.startsWith("video/")) {
+      // For video files, create object URL and generate thumbnail
+      preview = URL.createObjectURL(file)
+      objectURLsRef.current.add(preview)
       
-      if (file.type.startsWith("image/")) {
-        preview = URL.createObjectURL(file)
-        objectURLsRef.current.add(preview)
-      } else if (file.type.startsWith("audio/")) {
-        preview = URL.createObjectURL(file)
-        objectURLsRef.current.add(preview)
-      } else if (file.type.startsWith("video/")) {
-        // For video files, create object URL and generate thumbnail
-        preview = URL.createObjectURL(file)
-        objectURLsRef.current.add(preview)
+      try {
+        // Generate thumbnail at 2 seconds (or 0 if video is shorter)
+        videoThumbnail = await generateVideoThumbnail(file, 2.0)
+        videoDuration = await getVideoDuration(file)
+        console.log('Video thumbnail generated, duration:', videoDuration)
+      } catch (thumbError) {
+        console.error('Failed to generate video thumbnail:', thumbError)
+        // Continue without thumbnail
+      }
+    }
+    
+    // Upload in resumable chunks, then wait for Gemini to process the file
+    const geminiFile = await uploadFileResumable(file, {
+      onProgress: (loaded) => updateUploadTask(file, { loaded }),
+      onStateChange: (state) => updateUploadTask(file, { phase: state === 'uploading' ? 'uploading' : 'processing' }),
+    })
+    
+    // Transcribe audio and video files with Whisper, from the copy the upload session kept
+    let transcription: FileUpload['transcription'] = undefined
+    if (geminiFile.uploadId) {
+      try {
+        updateUploadTask(file, { phase: 'transcribing' })
         
-        try {
-          // Generate thumbnail at 2 seconds (or 0 if video is shorter)
-          videoThumbnail = await generateVideoThumbnail(file, 2.0)
-          videoDuration = await getVideoDuration(file)
-          console.log('Video thumbnail generated, duration:', videoDuration)
-        } catch (thumbError) {
-          console.error('Failed to generate video thumbnail:', thumbError)
-          // Continue without thumbnail
+        // Media over 25MB is transcribed in pieces on the server, which reports each one
+        const transcribeData = await transcribeMedia(geminiFile.uploadId, (progress) => updateUploadTask(file, { transcribing: progress }))
+        transcription = {
+          text: transcribeData.text,
+          language: transcribeData.language,
+          duration: transcribeData.duration || videoDuration,
+          segments: transcribeData.segments,
         }
-      }
-      
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval)
-            return 90
-          }
-          return prev + 10
-        })
-      }, 200)
-      
-      // Upload to Gemini
-      const formData = new FormData()
-      formData.append("file", file)
-      
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      })
-      
-      clearInterval(progressInterval)
-      setUploadProgress(100)
-      
-      if (!response.ok) {
-        throw new Error("Failed to upload file")
-      }
-      
-      const data = await response.json()
-      
-      // Transcribe audio and video files with Whisper
-      let transcription: FileUpload['transcription'] = undefined
-      if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
-        try {
-          setUploadStatus('transcribing')
-          setUploadProgress(0)
-          
-          // Simulate transcription progress
-          const transcribeProgressInterval = setInterval(() => {
-            setUploadProgress(prev => {
-              if (prev >= 80) {
-                clearInterval(transcribeProgressInterval)
-                return 80
-              }
-              return prev + 20
-            })
-          }, 300)
-          
-          const transcribeFormData = new FormData()
-          transcribeFormData.append("file", file)
-          
-          const transcribeResponse = await fetch("/api/transcribe", {
-            method: "POST",
-            body: transcribeFormData,
-          })
-          
-          clearInterval(transcribeProgressInterval)
-          setUploadProgress(100)
-          
-          if (transcribeResponse.ok) {
-            const transcribeData = await transcribeResponse.json()
-            transcription = {
-              text: transcribeData.transcription.text,
-              language: transcribeData.transcription.language,
-              duration: transcribeData.transcription.duration || videoDuration,
-              segments: transcribeData.transcription.segments,
-            }
-            console.log('Transcription successful:', transcription)
-          } else {
-            const errorData = await transcribeResponse.json()
-            console.error('Transcription failed:', errorData)
-            // Show user-friendly error but continue
-            if (errorData.details?.includes("25MB")) {
-              console.warn('File too large for transcription')
-              // You might want to show a toast notification here
-            }
-          }
-        } catch (transcribeError) {
-          console.error("Transcription error:", transcribeError)
-          // Continue without transcription
+        console.log('Transcription successful:', transcription)
+      } catch (transcribeError) {
+        console.error("Transcription error:", transcribeError)
+        // Show user-friendly error but continue
+        if (transcribeError instanceof Error && transcribeError.message.includes("ffmpeg")) {
+          console.warn('Media over 25MB needs ffmpeg on the server to be transcribed')
+          // You might want to show a toast notification here
         }
+        // Continue without transcription
       }
-      
-      setSelectedFile({
-        file,
-        preview,
-        geminiFile: data.file,
-        transcription,
-        videoThumbnail,
-        videoDuration,
-      })
-      
-      setUploadStatus('complete')
-      // Hide success message after 2 seconds
-      setTimeout(() => {
-        setUploadStatus('idle')
-        setUploadProgress(0)
-      }, 2000)
-      
-    } catch (error) {
-      console.error("File upload error:", error)
-      setUploadStatus('error')
-      setTimeout(() => {
-        setUploadStatus('idle')
-        setUploadProgress(0)
-      }, 3000)
-    } finally {
-      setIsUploading(false)
     }
-  }, [])
+    updateUploadTask(file, { phase: 'done' })
+    
+    return {
+      file,
+      preview,
+      geminiFile,
+      transcription,
+      videoThumbnail,
+      videoDuration,
+      dataUrl,
+    }
+  }, [updateUploadTask])
   
-  const handleFileRemove = useCallback(() => {
+  // Upload the chosen files in parallel; each joins the attachments as soon as it is ready
+  const handleFilesSelect = useCallback(async (selected: File[]) => {
+    const tasks = uploadTasksRef.current
+    // Browsers often give CSV and XLSX files no type; fill it in from the extension
+    const files = selected.map(file => {
+      const type = getFileMimeType(file)
+      return type === file.type ? file : new File([file], file.name, { type, lastModified: file.lastModified })
+    })
+    // Stay within the per-message limit, counting files already attached or uploading
+    const batch = files.slice(0, Math.max(0, MAX_CHAT_ATTACHMENTS - selectedFiles.length - tasks.size))
+    if (batch.length === 0) return
+    
+    batch.forEach(file => tasks.set(file, { loaded: 0, phase: 'uploading' }))
+    setIsUploading(true)
+    setUploadingFiles(Array.from(tasks.keys()))
+    updateUploadTask(batch[0], {})
+    
+    const results = await Promise.allSettled(batch.map(async (file) => {
+      const upload = await uploadFile(file)
+      setSelectedFiles(prev => [...prev, upload])
+    }))
+    
+    batch.forEach(file => tasks.delete(file))
+    // A later batch is still running and owns the progress bar
+    if (tasks.size > 0) {
+      setUploadingFiles(Array.from(tasks.keys()))
+      return
+    }
+    setIsUploading(false)
+    setUploadingFiles([])
+    
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    failures.forEach(failure => console.error("File upload error:", failure.reason))
+    setUploadStatus(failures.length > 0 ? 'error' : 'complete')
+    // Hide the result after a moment
+    setTimeout(() => {
+      if (uploadTasksRef.current.size > 0) return
+      setUploadStatus('idle')
+      setUploadProgress(0)
+    }, failures.length > 0 ? 3000 : 2000)
+  }, [selectedFiles.length, uploadFile, updateUploadTask])
+  
+  const handleFileRemove = useCallback((index: number) => {
     // Don't revoke the URL immediately as it might still be needed
-    setSelectedFile(null)
-    pendingAttachmentRef.current = null
-    setUploadStatus('idle')
-    setUploadProgress(0)
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index))
+    if (uploadTasksRef.current.size === 0) {
+      setUploadStatus('idle')
+      setUploadProgress(0)
+    }
   }, [])
   
   // Local messages for image generation feedback
   const [localMessages, setLocalMessages] = useState<Array<{id: string, role: string, content: string}>>([])
+  // Images generated in this conversation, saved with it by reference
+  const [conversationImages, setConversationImages] = useState<StoredImageReference[]>([])
+
+  // Conversation persistence: the id is assigned by the server on first save
+  const conversationIdRef = useRef<string | null>(conversationId || null)
+  const [isConversationLoaded, setIsConversationLoaded] = useState(!conversationId)
+  const lastSavedRef = useRef<string>("")
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+
+  // Resume a saved conversation (ids assigned by our own first save need no reload)
+  useEffect(() => {
+    if (!conversationId || isConversationLoaded) return
+    let cancelled = false
+
+    fetch(`/api/conversations/${conversationId}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Status ${response.status}`)))
+      .then(({ data }: { data: Conversation }) => {
+        if (cancelled) return
+        setMessages(data.messages.map(message => ({
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          createdAt: message.createdAt ? new Date(message.createdAt) : undefined,
+          toolInvocations: message.toolInvocations,
+          annotations: message.annotations,
+        })))
+        setMessageAttachments(Object.fromEntries(
+          data.messages
+            .filter(message => message.attachments && message.attachments.length > 0)
+            .map(message => [message.id, message.attachments!])
+        ))
+        setPinnedMessageIds(data.messages.filter(message => message.pinned).map(message => message.id))
+        setLocalMessages(data.imageMessages)
+        setConversationImages(data.generatedImages)
+        if (data.model) setSelectedModel(data.model)
+      })
+      .catch(error => console.error("Failed to load conversation:", error))
+      .finally(() => {
+        if (!cancelled) setIsConversationLoaded(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [conversationId, isConversationLoaded, setMessages])
   
   const handleImageGeneration = useCallback(async (originalPrompt: string) => {
     setIsGeneratingImage(true)
@@ -399,6 +566,10 @@ export default function ChatInterface({ onGeneratedImagesChange, onImageGenerati
       setGeneratedImages(updatedImages)
       saveGeneratedImages(updatedImages)
       onGeneratedImagesChange?.(updatedImages)
+      setConversationImages(prev => [
+        ...prev,
+        ...newImages.map(image => ({ id: image.id, url: image.url, prompt: image.prompt, model: image.model })),
+      ])
       
       // Add success message to local messages
       const successMessage = {
@@ -466,7 +637,7 @@ You can view it in the **Images** tab on the right.`,
     }
     
     // Check if we have input or a file
-    if (!input.trim() && !selectedFile) {
+    if (!input.trim() && selectedFiles.length === 0) {
       return
     }
     
@@ -486,26 +657,76 @@ You can view it in the **Images** tab on the right.`,
     }
     
     // Store the attachment info before submission
-    if (selectedFile) {
-      pendingAttachmentRef.current = {
-        name: selectedFile.file.name,
-        contentType: selectedFile.file.type,
-        url: selectedFile.preview || '',
-        transcription: selectedFile.transcription,
-        videoThumbnail: selectedFile.videoThumbnail,
-        videoDuration: selectedFile.videoDuration,
-      }
-      console.log('Pending attachment set:', pendingAttachmentRef.current)
+    if (selectedFiles.length > 0) {
+      pendingAttachmentsRef.current = selectedFiles.map(upload => ({
+        name: upload.file.name,
+        contentType: upload.file.type,
+        url: upload.preview || '',
+        transcription: upload.transcription,
+        videoThumbnail: upload.videoThumbnail,
+        videoDuration: upload.videoDuration,
+        documentId: upload.geminiFile?.documentId,
+        tables: upload.geminiFile?.tables,
+      }))
+      console.log('Pending attachments set:', pendingAttachmentsRef.current)
     }
     
     // Only call originalHandleSubmit if we have a valid message
-    if (input.trim() || selectedFile) {
+    if (input.trim() || selectedFiles.length > 0) {
       originalHandleSubmit(e)
     }
     
-    // Clear file after submission
-    setSelectedFile(null)
-  }, [input, selectedFile, originalHandleSubmit, handleImageGeneration, handleInputChange])
+    // Clear files after submission
+    setSelectedFiles([])
+  }, [input, selectedFiles, originalHandleSubmit, handleImageGeneration, handleInputChange])
+
+  // Save the conversation once a reply has finished streaming
+  useEffect(() => {
+    if (isLoading || isGeneratingImage || !isConversationLoaded) return
+
+    const storedMessages: StoredMessage[] = messages
+      .filter(message => message.id !== "welcome-message")
+      .map(message => ({
+        id: message.id,
+        role: message.role as StoredMessage["role"],
+        content: message.content,
+        createdAt: message.createdAt ? new Date(message.createdAt).toISOString() : undefined,
+        attachments: messageAttachments[message.id]?.map(toStoredAttachment),
+        toolInvocations: message.toolInvocations,
+        annotations: message.annotations,
+        pinned: pinnedMessageIds.includes(message.id) || undefined,
+      }))
+    if (storedMessages.length === 0 && localMessages.length === 0) return
+
+    const body = JSON.stringify({
+      model: selectedModel,
+      messages: storedMessages,
+      imageMessages: localMessages,
+      generatedImages: conversationImages,
+    })
+    if (body === lastSavedRef.current) return
+    lastSavedRef.current = body
+
+    // Queue saves so the first one creates the conversation before later ones update it
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        const id = conversationIdRef.current
+        const response = await fetch(id ? `/api/conversations/${id}` : "/api/conversations", {
+          method: id ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        })
+        if (!response.ok) {
+          throw new Error(`Status ${response.status}`)
+        }
+        const { data } = await response.json()
+        conversationIdRef.current = data.id
+        onConversationSaved?.(data.id)
+      } catch (error) {
+        console.error("Failed to save conversation:", error)
+      }
+    })
+  }, [isLoading, isGeneratingImage, isConversationLoaded, messages, messageAttachments, localMessages, conversationImages, selectedModel, pinnedMessageIds, onConversationSaved])
 
   const handleSendMessage = useCallback((message: string) => {
     append({
@@ -521,6 +742,61 @@ You can view it in the **Images** tab on the right.`,
         <div className="flex items-center justify-between">
           <h1 className="text-xl font-semibold text-white">TradeBuddy</h1>
           <div className="flex items-center gap-2">
+            {contextBudget && (
+              <span
+                className={`text-xs ${contextBudget.trimmedMessages > 0 ? "text-amber-400" : "text-gray-500"}`}
+                title={`Last request used about ${contextBudget.usedTokens.toLocaleString()} of ${contextBudget.budgetTokens.toLocaleString()} context tokens. ${contextBudget.keptMessages} earlier messages sent in full, ${contextBudget.trimmedMessages} summarized, ${contextBudget.pinnedMessages} pinned.`}
+              >
+                Context {Math.min(100, Math.round((100 * contextBudget.usedTokens) / contextBudget.budgetTokens))}%
+              </span>
+            )}
+            {conversationTokens > 0 && (
+              <span className="text-xs text-gray-500" title="Tokens used by the replies in this conversation">
+                {conversationTokens.toLocaleString()} tokens
+              </span>
+            )}
+            <label className="flex items-center gap-1 text-xs text-gray-400" title="Replay answers using only news published up to this date">
+              <History className="w-4 h-4" />
+              <input
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value)}
+                className={`h-8 rounded-md border border-[#333333] bg-transparent px-2 text-xs [color-scheme:dark] ${asOfDate ? "text-orange-400" : "text-gray-400"}`}
+                aria-label="Replay as of date"
+              />
+            </label>
+            <Popover
+              onOpenChange={(open) => {
+                if (!open) return
+                const seenAt = new Date().toISOString()
+                localStorage.setItem(ALERTS_SEEN_KEY, seenAt)
+                setAlertsSeenAt(seenAt)
+              }}
+            >
+              <PopoverTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="relative text-gray-400 hover:text-white"
+                  title="Sentiment alerts"
+                >
+                  <Bell className="w-4 h-4" />
+                  {unseenAlertCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-orange-500 text-[10px] leading-4 text-white">
+                      {unseenAlertCount}
+                    </span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-96 max-h-96 overflow-y-auto">
+                <p className="mb-2 text-sm font-medium">Triggered alerts</p>
+                <AlertFeed
+                  events={alertEvents}
+                  onSelect={(event) => handleSendMessage(`Explain this alert: ${event.message}`)}
+                  emptyMessage="No alerts yet. Add rules in Market Sentiment → Alerts."
+                />
+              </PopoverContent>
+            </Popover>
             <Button
               variant="outline"
               size="sm"
@@ -567,8 +843,12 @@ You can view it in the **Images** tab on the right.`,
                       role: message.role,
                       content: message.content,
                       createdAt: message.createdAt,
-                      experimental_attachments: attachments
+                      experimental_attachments: attachments,
+                      toolInvocations: message.toolInvocations,
+                      annotations: message.annotations
                     }} 
+                    pinned={pinnedMessageIds.includes(message.id)}
+                    onTogglePin={message.id === "welcome-message" ? undefined : () => togglePinned(message.id)}
                   />
                 );
               })}
@@ -628,8 +908,10 @@ You can view it in the **Images** tab on the right.`,
               <UploadProgress 
                 progress={uploadProgress} 
                 status={uploadStatus} 
-                fileName={selectedFile?.file.name}
-                fileSize={selectedFile?.file.size}
+                fileName={uploadingFiles.length > 1 ? `${uploadingFiles.length} files` : uploadingFiles[0]?.name}
+                fileSize={uploadingFiles.reduce((sum, file) => sum + file.size, 0) || undefined}
+                uploadedBytes={uploadedBytes}
+                transcribeProgress={transcribeProgress}
               />
             </AnimatePresence>
             <div className="p-4">
@@ -641,9 +923,12 @@ You can view it in the **Images** tab on the right.`,
                 isLoading={isLoading}
                 selectedModel={selectedModel}
                 onModelChange={setSelectedModel}
-                onFileSelect={handleFileSelect}
-                selectedFile={selectedFile}
+                onFilesSelect={handleFilesSelect}
+                selectedFiles={selectedFiles}
                 onFileRemove={handleFileRemove}
+                maxFiles={MAX_CHAT_ATTACHMENTS}
+                pendingFileCount={uploadingFiles.length}
+                models={chatModels}
               />
             </div>
           </div>
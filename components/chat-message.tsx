@@ -1,7 +1,11 @@
 import { cn, formatDuration, getFileExtension, formatVideoDuration } from "@/lib/utils"
-import { FileAudio, Image as ImageIcon, Video } from "lucide-react"
+import { AlertTriangle, Briefcase, Database, FileAudio, FileText, History, Image as ImageIcon, Loader2, Paperclip, Pin, Table2, Video, Zap } from "lucide-react"
 import { useState } from "react"
 import { FilePreviewModal } from "./file-preview-modal"
+import { CitationPanel } from "./citation-panel"
+import type { ArticleCitation } from "@/lib/sentiment-utils"
+import { findAnnotation } from "@/lib/chat-stream"
+import { PDF_MIME_TYPE, isTabularMimeType, type TablePreview } from "@/lib/chat-attachments"
 
 interface MessageAttachment {
   name: string
@@ -15,6 +19,15 @@ interface MessageAttachment {
   }
   videoThumbnail?: string
   videoDuration?: number
+  tables?: TablePreview[]
+}
+
+interface ToolInvocation {
+  toolCallId: string
+  toolName: string
+  args?: Record<string, any>
+  state: "partial-call" | "call" | "result"
+  result?: any
 }
 
 interface ChatMessageProps {
@@ -24,11 +37,59 @@ interface ChatMessageProps {
     content: string
     createdAt?: Date
     experimental_attachments?: MessageAttachment[]
+    toolInvocations?: ToolInvocation[]
+    annotations?: any[]
   }
+  pinned?: boolean
+  onTogglePin?: () => void
+}
+
+// Article ids cited inline by the model, e.g. "[20250801_3, 20250802_7]"
+const CITATION_PATTERN = /(\[\d{8}_\d+(?:\s*,\s*\d{8}_\d+)*\])/g
+
+// Short label for a tool call, e.g. "getStockSentiment: MSFT"
+function formatToolInvocation(invocation: ToolInvocation) {
+  const argValues = Object.values(invocation.args || {}).filter(value => typeof value === "string")
+  return argValues.length > 0 ? `${invocation.toolName}: ${argValues.join(", ")}` : invocation.toolName
+}
+
+// Replace cited article ids with clickable footnote numbers
+function renderCitations(
+  line: string,
+  key: string,
+  citations: Map<string, ArticleCitation>,
+  onCite: (citation: ArticleCitation) => void
+) {
+  // split() keeps the captured citation groups at odd indexes
+  return line.split(CITATION_PATTERN).map((segment, index) => {
+    if (index % 2 === 0) return segment
+
+    return segment.slice(1, -1).split(",").map((id) => {
+      const citation = citations.get(id.trim())
+      // Unresolved ids (including while the reply is still streaming) are hidden
+      if (!citation) return null
+      return (
+        <sup key={`${key}-${index}-${citation.id}`}>
+          <button
+            type="button"
+            className="mx-0.5 text-blue-400 hover:text-blue-300 hover:underline"
+            onClick={() => onCite(citation)}
+            title={citation.title}
+          >
+            [{citation.number}]
+          </button>
+        </sup>
+      )
+    })
+  })
 }
 
-// Simple markdown parser for bold text and line breaks
-function parseSimpleMarkdown(text: string) {
+// Simple markdown parser for bold text, line breaks and citations
+function parseSimpleMarkdown(
+  text: string,
+  citations: Map<string, ArticleCitation> = new Map(),
+  onCite: (citation: ArticleCitation) => void = () => {}
+) {
   // Split by double asterisks to handle bold text
   const parts = text.split(/(\*\*[^*]+\*\*)/g)
   
@@ -43,33 +104,63 @@ function parseSimpleMarkdown(text: string) {
     const lines = part.split('\n')
     return lines.map((line, lineIndex) => (
       <span key={`${index}-${lineIndex}`}>
-        {line}
+        {renderCitations(line, `${index}-${lineIndex}`, citations, onCite)}
         {lineIndex < lines.length - 1 && <br />}
       </span>
     ))
   })
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
+// Pinned messages stay in the model's context however long the chat gets
+function PinButton({ pinned, onClick }: { pinned: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "mt-2 rounded p-1 transition-opacity hover:bg-white/10",
+        pinned ? "text-orange-400 opacity-100" : "text-gray-500 opacity-0 group-hover:opacity-100"
+      )}
+      title={pinned ? "Unpin from context" : "Pin to keep in context"}
+    >
+      <Pin className="w-3 h-3" />
+    </button>
+  )
+}
+
+export default function ChatMessage({ message, pinned = false, onTogglePin }: ChatMessageProps) {
   const isUser = message.role === "user"
   const attachments = message.experimental_attachments
   const [selectedFile, setSelectedFile] = useState<MessageAttachment | null>(null)
+  const [selectedCitation, setSelectedCitation] = useState<ArticleCitation | null>(null)
+  // Stream annotations sent by the chat route
+  const citations = findAnnotation(message.annotations, "citations")?.citations || []
+  const usage = findAnnotation(message.annotations, "usage")
+  const finish = findAnnotation(message.annotations, "finish")
+  const context = findAnnotation(message.annotations, "sentiment-context")
+  const referencedFiles = findAnnotation(message.annotations, "attachments")?.files || []
+  const citationsById = new Map(citations.map((citation) => [citation.id, citation]))
 
   return (
     <>
-      <div className={cn("flex", isUser ? "justify-end" : "justify-start")}>
+      <div className={cn("group flex items-start gap-1", isUser ? "justify-end" : "justify-start")}>
+        {isUser && onTogglePin && (
+          <PinButton pinned={pinned} onClick={onTogglePin} />
+        )}
         <div
           className={cn(
             "max-w-[85%] rounded-xl px-4 py-3",
+            pinned && "ring-1 ring-orange-400/60",
             isUser ? "bg-[#3C3C3C] text-white" : "bg-[#2B2B2B] text-white",
             "sm:max-w-[80%] md:max-w-[85%]"
           )}
         >
           {attachments && attachments.length > 0 && (
             <div className="mb-2 flex flex-wrap gap-2">
-              {attachments.map((attachment) => {
+              {attachments.map((attachment, index) => {
                 const fileType = attachment.contentType || ''
-                const key = `${message.id}-${attachment.name}`
+                // Names can repeat, e.g. two "image.png" screenshots
+                const key = `${message.id}-${index}-${attachment.name}`
                 const fileExtension = getFileExtension(attachment.name)
                 
                 return (
@@ -120,6 +211,14 @@ export default function ChatMessage({ message }: ChatMessageProps) {
                       <div className="w-10 h-10 rounded bg-black/30 flex items-center justify-center flex-shrink-0">
                         <FileAudio className="w-5 h-5 text-gray-400" />
                       </div>
+                    ) : fileType === PDF_MIME_TYPE ? (
+                      <div className="w-10 h-10 rounded bg-black/30 flex items-center justify-center flex-shrink-0">
+                        <FileText className="w-5 h-5 text-gray-400" />
+                      </div>
+                    ) : isTabularMimeType(fileType) ? (
+                      <div className="w-10 h-10 rounded bg-black/30 flex items-center justify-center flex-shrink-0">
+                        <Table2 className="w-5 h-5 text-gray-400" />
+                      </div>
                     ) : null}
                     <div className="flex-1 min-w-0 overflow-hidden">
                       <p className="text-xs font-medium truncate-filename">
@@ -133,6 +232,12 @@ export default function ChatMessage({ message }: ChatMessageProps) {
                             <span>{formatVideoDuration(attachment.videoDuration)}</span>
                           </>
                         )}
+                        {attachment.tables && attachment.tables.length > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>{attachment.tables.reduce((sum, table) => sum + table.rowCount, 0)} rows</span>
+                          </>
+                        )}
                         {!attachment.videoDuration && attachment.transcription?.duration && (
                           <>
                             <span>•</span>
@@ -146,8 +251,75 @@ export default function ChatMessage({ message }: ChatMessageProps) {
               })}
             </div>
           )}
-        <div className="text-sm whitespace-pre-wrap">{parseSimpleMarkdown(message.content)}</div>
+          {message.toolInvocations && message.toolInvocations.length > 0 && (
+            <div className="mb-2 flex flex-wrap gap-1">
+              {message.toolInvocations.map((invocation) => (
+                <span
+                  key={invocation.toolCallId}
+                  className="inline-flex items-center gap-1 rounded-md bg-black/30 px-2 py-0.5 text-xs text-gray-400"
+                  title={invocation.state === "result" ? JSON.stringify(invocation.result, null, 2) : undefined}
+                >
+                  {invocation.state === "result" ? (
+                    <Database className="w-3 h-3" />
+                  ) : (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  )}
+                  {formatToolInvocation(invocation)}
+                </span>
+              ))}
+            </div>
+          )}
+        <div className="text-sm whitespace-pre-wrap">{parseSimpleMarkdown(message.content, citationsById, setSelectedCitation)}</div>
+          {finish?.message && (
+            <div className="mt-2 flex items-center gap-1 text-xs text-amber-400">
+              <AlertTriangle className="w-3 h-3" />
+              {finish.message}
+            </div>
+          )}
+          {(usage || context?.asOf || context?.anomalies || context?.snapshot || context?.portfolio || referencedFiles.length > 0) && (
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+              {referencedFiles.map((file, index) => (
+                <span key={`${file.name}-${index}`} className="inline-flex items-center gap-1">
+                  <Paperclip className="w-3 h-3" />
+                  {file.name || file.mimeType}
+                  {file.transcribed && " (with transcript)"}
+                </span>
+              ))}
+              {context?.asOf && (
+                <span className="inline-flex items-center gap-1 text-orange-400" title="Answered using only news published up to this moment">
+                  <History className="w-3 h-3" />
+                  As of {context.asOf.substring(0, 10)}
+                </span>
+              )}
+              {context?.anomalies && (
+                <span className="inline-flex items-center gap-1" title="Included the anomaly detector's findings">
+                  <Zap className="w-3 h-3" />
+                  Anomaly scan
+                </span>
+              )}
+              {context?.snapshot && (
+                <span className="inline-flex items-center gap-1" title="This model cannot call the sentiment tools, so a market and stock snapshot was included">
+                  <Database className="w-3 h-3" />
+                  Sentiment snapshot
+                </span>
+              )}
+              {context?.portfolio && (
+                <span className="inline-flex items-center gap-1" title="Included your imported portfolio, weighted by position size">
+                  <Briefcase className="w-3 h-3" />
+                  Portfolio
+                </span>
+              )}
+              {usage && (
+                <span title={`${usage.promptTokens.toLocaleString()} prompt + ${usage.completionTokens.toLocaleString()} completion tokens`}>
+                  {usage.totalTokens.toLocaleString()} tokens
+                </span>
+              )}
+            </div>
+          )}
       </div>
+      {!isUser && onTogglePin && (
+        <PinButton pinned={pinned} onClick={onTogglePin} />
+      )}
     </div>
     
     {selectedFile && (
@@ -157,6 +329,8 @@ export default function ChatMessage({ message }: ChatMessageProps) {
         file={selectedFile}
       />
     )}
+
+    <CitationPanel citation={selectedCitation} onClose={() => setSelectedCitation(null)} />
   </>
   )
 }
\ No newline at end of file
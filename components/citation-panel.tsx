@@ -0,0 +1,75 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { ArticleCitation } from "@/lib/sentiment-utils"
+
+interface CitationPanelProps {
+  citation: ArticleCitation | null
+  onClose: () => void
+}
+
+function getScoreColor(score: number) {
+  if (score > 0.15) return "text-green-400"
+  if (score < -0.15) return "text-red-400"
+  return "text-gray-400"
+}
+
+export function CitationPanel({ citation, onClose }: CitationPanelProps) {
+  return (
+    <Sheet open={!!citation} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="bg-[#2B2B2B] border-[#3C3C3C] text-white overflow-y-auto">
+        {citation && (
+          <>
+            <SheetHeader>
+              <SheetDescription className="text-gray-400">
+                [{citation.number}] {new Date(citation.timestamp).toLocaleString()}
+              </SheetDescription>
+              <SheetTitle className="text-white text-left">{citation.title}</SheetTitle>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Overall sentiment</span>
+                <span className={cn("font-medium", getScoreColor(citation.sentiment.score))}>
+                  {citation.sentiment.score.toFixed(3)} ({citation.sentiment.label})
+                </span>
+              </div>
+
+              {citation.tickers.length > 0 && (
+                <div>
+                  <h4 className="mb-2 font-medium">Tickers</h4>
+                  <div className="space-y-1">
+                    {citation.tickers.map((ticker) => (
+                      <div key={ticker.ticker} className="flex items-center justify-between rounded-md bg-black/30 px-3 py-2">
+                        <div>
+                          <span className="font-medium">{ticker.ticker}</span>
+                          <span className="ml-2 text-xs text-gray-400">relevance {ticker.relevance.toFixed(2)}</span>
+                        </div>
+                        <span className={cn("text-xs", getScoreColor(ticker.score))} title={ticker.label}>
+                          {ticker.score.toFixed(3)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {citation.topics.length > 0 && (
+                <div>
+                  <h4 className="mb-2 font-medium">Topics</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {citation.topics.map((topic) => (
+                      <Badge key={topic} variant="secondary">{topic}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">Article ID: {citation.id}</p>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
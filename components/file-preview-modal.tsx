@@ -1,10 +1,12 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { FileAudio, Download, Music, Video, Play } from "lucide-react"
+import { FileAudio, Download, Music, Video, Play, FileText, Table2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { formatDuration, formatFileSize, formatVideoDuration } from "@/lib/utils"
 import { useState, useRef, useEffect } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { cn } from "@/lib/utils"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PDF_MIME_TYPE, isTabularMimeType, type TablePreview } from "@/lib/chat-attachments"
 
 interface FilePreviewModalProps {
   isOpen: boolean
@@ -25,13 +27,55 @@ interface FilePreviewModalProps {
     }
     videoThumbnail?: string
     videoDuration?: number
+    tables?: TablePreview[]
   }
 }
 
+// The first rows of one table; the full data stays on the server for the model to query
+function TablePreviewGrid({ table }: { table: TablePreview }) {
+  return (
+    <div className="bg-black/20 rounded-lg">
+      <div className="max-h-[500px] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-700 hover:bg-transparent">
+              {table.columns.map((column, index) => (
+                <TableHead key={index} className="text-gray-300 whitespace-nowrap">{column}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex} className="border-gray-800 hover:bg-black/30">
+                {table.columns.map((_, index) => (
+                  <TableCell
+                    key={index}
+                    className={cn("text-gray-200 whitespace-nowrap", typeof row[index] === "number" && "text-right font-mono")}
+                  >
+                    {row[index] ?? ""}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-700">
+        {table.rows.length < table.rowCount
+          ? `Showing the first ${table.rows.length} of ${table.rowCount} rows`
+          : `${table.rowCount} rows`}
+        {` • ${table.columns.length} columns`}
+      </p>
+    </div>
+  )
+}
+
 export function FilePreviewModal({ isOpen, onClose, file }: FilePreviewModalProps) {
   const isImage = file.contentType?.startsWith("image/")
   const isAudio = file.contentType?.startsWith("audio/")
   const isVideo = file.contentType?.startsWith("video/")
+  const isPdf = file.contentType === PDF_MIME_TYPE
+  const isTable = isTabularMimeType(file.contentType)
   
   const [currentTime, setCurrentTime] = useState(0)
   const [activeSegment, setActiveSegment] = useState<number | null>(null)
@@ -77,6 +121,8 @@ export function FilePreviewModal({ isOpen, onClose, file }: FilePreviewModalProp
           <DialogTitle className="text-white flex items-center gap-2">
             {isVideo && <Video className="h-5 w-5" />}
             {isAudio && <Music className="h-5 w-5" />}
+            {isPdf && <FileText className="h-5 w-5" />}
+            {isTable && <Table2 className="h-5 w-5" />}
             {file.name}
           </DialogTitle>
         </DialogHeader>
@@ -299,8 +345,47 @@ export function FilePreviewModal({ isOpen, onClose, file }: FilePreviewModalProp
             </div>
           )}
           
+          {isPdf && (
+            file.url ? (
+              <iframe src={file.url} title={file.name} className="w-full h-[70vh] rounded-lg bg-white" />
+            ) : (
+              <div className="bg-black/20 rounded-lg p-12 text-center">
+                <FileText className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-400">PDF preview not available</p>
+                <p className="text-sm text-gray-500 mt-1">The PDF is only kept for the current session</p>
+              </div>
+            )
+          )}
+          {isTable && (
+            file.tables && file.tables.length > 0 ? (
+              file.tables.length === 1 ? (
+                <TablePreviewGrid table={file.tables[0]} />
+              ) : (
+                <Tabs defaultValue="0" className="w-full">
+                  <TabsList className="bg-[#333333] w-full justify-start overflow-x-auto">
+                    {file.tables.map((table, index) => (
+                      <TabsTrigger key={index} value={String(index)} className="data-[state=active]:bg-[#4A4A4A]">
+                        {table.name}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {file.tables.map((table, index) => (
+                    <TabsContent key={index} value={String(index)} className="mt-4">
+                      <TablePreviewGrid table={table} />
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              )
+            ) : (
+              <div className="bg-black/20 rounded-lg p-12 text-center">
+                <Table2 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-400">Table preview not available</p>
+              </div>
+            )
+          )}
+          
           {/* Fallback for other file types */}
-          {!isImage && !isAudio && !isVideo && (
+          {!isImage && !isAudio && !isVideo && !isPdf && !isTable && (
             <div className="flex flex-col items-center py-8">
               <div className="w-20 h-20 rounded-lg bg-black/30 flex items-center justify-center mb-4">
                 <FileAudio className="w-10 h-10 text-gray-400" />
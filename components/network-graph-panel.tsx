@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ExternalLink, X } from 'lucide-react';
+import type { CoMentionNetwork, NetworkEdge, NetworkNode, NetworkType } from '@/lib/sentiment-utils';
+
+interface NetworkGraphPanelProps {
+  onSendMessage: (message: string) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 420;
+const PADDING = 40;
+
+// Deterministic force-directed layout (Fruchterman-Reingold), heavier edges pull harder
+function layoutNetwork(nodes: NetworkNode[], edges: NetworkEdge[]): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  if (nodes.length === 0) return positions;
+
+  const centerX = WIDTH / 2;
+  const centerY = HEIGHT / 2;
+  nodes.forEach((node, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    const radius = i === 0 ? 0 : Math.min(WIDTH, HEIGHT) / 3;
+    positions.set(node.id, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  });
+
+  const k = Math.sqrt(((WIDTH - 2 * PADDING) * (HEIGHT - 2 * PADDING)) / nodes.length);
+  const maxWeight = Math.max(1, ...edges.map(edge => edge.weight));
+  let temperature = WIDTH / 10;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const moves = new Map(nodes.map(node => [node.id, { x: 0, y: 0 }]));
+
+    nodes.forEach((a, i) => nodes.slice(i + 1).forEach(b => {
+      const pa = positions.get(a.id)!;
+      const pb = positions.get(b.id)!;
+      const dx = pa.x - pb.x || 0.01;
+      const dy = pa.y - pb.y || 0.01;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (k * k) / distance;
+      moves.get(a.id)!.x += (dx / distance) * force;
+      moves.get(a.id)!.y += (dy / distance) * force;
+      moves.get(b.id)!.x -= (dx / distance) * force;
+      moves.get(b.id)!.y -= (dy / distance) * force;
+    }));
+
+    edges.forEach(edge => {
+      const ps = positions.get(edge.source);
+      const pt = positions.get(edge.target);
+      if (!ps || !pt) return;
+      const dx = ps.x - pt.x;
+      const dy = ps.y - pt.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = ((distance * distance) / k) * (0.5 + edge.weight / maxWeight);
+      moves.get(edge.source)!.x -= (dx / distance) * force;
+      moves.get(edge.source)!.y -= (dy / distance) * force;
+      moves.get(edge.target)!.x += (dx / distance) * force;
+      moves.get(edge.target)!.y += (dy / distance) * force;
+    });
+
+    nodes.forEach(node => {
+      const position = positions.get(node.id)!;
+      const move = moves.get(node.id)!;
+      const length = Math.max(Math.hypot(move.x, move.y), 0.01);
+      position.x = Math.min(WIDTH - PADDING, Math.max(PADDING, position.x + (move.x / length) * Math.min(length, temperature)));
+      position.y = Math.min(HEIGHT - PADDING, Math.max(PADDING, position.y + (move.y / length) * Math.min(length, temperature)));
+    });
+    temperature *= 0.97;
+  }
+
+  return positions;
+}
+
+const getSentimentClass = (score: number, kind: 'fill' | 'stroke') => {
+  if (score > 0.1) return kind === 'fill' ? 'fill-green-500' : 'stroke-green-500';
+  if (score < -0.1) return kind === 'fill' ? 'fill-red-500' : 'stroke-red-500';
+  return kind === 'fill' ? 'fill-yellow-500' : 'stroke-gray-400';
+};
+
+export function NetworkGraphPanel({ onSendMessage }: NetworkGraphPanelProps) {
+  const [type, setType] = useState<NetworkType>('ticker');
+  const [focus, setFocus] = useState<string | null>(null);
+  const [minWeight, setMinWeight] = useState('3');
+  const [network, setNetwork] = useState<CoMentionNetwork | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<NetworkEdge | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ action: 'network', type, limit: '30', minWeight: minWeight || '1' });
+    if (focus) params.set('query', focus);
+
+    setLoading(true);
+    setSelectedEdge(null);
+    fetch(`/api/sentiment?${params}`)
+      .then(response => response.json())
+      .then(result => setNetwork(result.success ? result.data : null))
+      .catch(error => console.error('Error fetching network:', error))
+      .finally(() => setLoading(false));
+  }, [type, focus, minWeight]);
+
+  const positions = useMemo(
+    () => network ? layoutNetwork(network.nodes, network.edges) : new Map<string, { x: number; y: number }>(),
+    [network]
+  );
+
+  if (!network) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          {loading ? 'Building co-mention network...' : 'No network data available'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const maxCount = Math.max(1, ...network.nodes.map(node => node.articleCount));
+  const maxWeight = Math.max(1, ...network.edges.map(edge => edge.weight));
+  const isConnected = (edge: NetworkEdge) => !hovered || edge.source === hovered || edge.target === hovered;
+  const neighbours = new Set(network.edges.filter(isConnected).flatMap(edge => [edge.source, edge.target]));
+  const label = type === 'ticker' ? 'tickers' : 'topics';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Co-mention Network</CardTitle>
+        <CardDescription>
+          Which {label} are covered together. Edge width is the number of shared articles, color their sentiment.
+          Click a node to focus on it, or an edge for details.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant={type === 'ticker' ? 'default' : 'outline'} onClick={() => { setType('ticker'); setFocus(null); }}>
+            Tickers
+          </Button>
+          <Button size="sm" variant={type === 'topic' ? 'default' : 'outline'} onClick={() => { setType('topic'); setFocus(null); }}>
+            Topics
+          </Button>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Min shared articles
+            <Input
+              type="number"
+              min={1}
+              value={minWeight}
+              onChange={(e) => setMinWeight(e.target.value)}
+              className="h-8 w-20"
+            />
+          </label>
+          {focus && (
+            <Badge variant="secondary" className="gap-1">
+              Focus: {focus}
+              <button type="button" onClick={() => setFocus(null)} title="Show the whole network">
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          )}
+          <span className="ml-auto text-xs text-muted-foreground">
+            {network.nodes.length} {label}, {network.edges.length} links from {network.totalArticles} articles
+          </span>
+        </div>
+
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className={`w-full rounded-lg border bg-muted/20 ${loading ? 'opacity-50' : ''}`}>
+          {network.edges.map(edge => {
+            const from = positions.get(edge.source);
+            const to = positions.get(edge.target);
+            if (!from || !to) return null;
+            const isSelected = selectedEdge?.source === edge.source && selectedEdge?.target === edge.target;
+            return (
+              <line
+                key={`${edge.source}-${edge.target}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                strokeWidth={1 + (6 * edge.weight) / maxWeight + (isSelected ? 2 : 0)}
+                strokeOpacity={isConnected(edge) ? (isSelected ? 1 : 0.6) : 0.08}
+                className={`${getSentimentClass(edge.avgSentiment, 'stroke')} cursor-pointer`}
+                onClick={() => setSelectedEdge(edge)}
+              >
+                <title>{`${edge.source} + ${edge.target}: ${edge.weight} articles, sentiment ${edge.avgSentiment.toFixed(3)}`}</title>
+              </line>
+            );
+          })}
+          {network.nodes.map(node => {
+            const position = positions.get(node.id);
+            if (!position) return null;
+            const radius = 6 + 14 * Math.sqrt(node.articleCount / maxCount);
+            const dimmed = hovered !== null && !neighbours.has(node.id) && hovered !== node.id;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${position.x}, ${position.y})`}
+                opacity={dimmed ? 0.25 : 1}
+                className="cursor-pointer"
+                onMouseEnter={() => setHovered(node.id)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => setFocus(node.id === focus ? null : node.id)}
+              >
+                <circle
+                  r={radius}
+                  className={`${getSentimentClass(node.avgSentiment, 'fill')} stroke-background`}
+                  strokeWidth={node.id === focus ? 3 : 1.5}
+                  fillOpacity={0.85}
+                />
+                <text y={radius + 11} textAnchor="middle" className="fill-foreground text-[10px] font-medium pointer-events-none">
+                  {node.id}
+                </text>
+                <title>{`${node.id}: ${node.articleCount} articles, sentiment ${node.avgSentiment.toFixed(3)}`}</title>
+              </g>
+            );
+          })}
+        </svg>
+
+        {selectedEdge && (
+          <div className="flex items-center justify-between p-3 rounded-lg border">
+            <div className="text-sm">
+              <span className="font-medium">{selectedEdge.source} + {selectedEdge.target}</span>
+              <span className="text-muted-foreground">
+                {' '}· {selectedEdge.weight} shared articles · sentiment {selectedEdge.avgSentiment.toFixed(3)}
+                {' '}· {selectedEdge.bullishCount} bullish / {selectedEdge.bearishCount} bearish
+              </span>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onSendMessage(`How is news about ${selectedEdge.source} connected to ${selectedEdge.target}, and what is the sentiment when they are covered together?`)}
+            >
+              <ExternalLink className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
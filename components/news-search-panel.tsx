@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExternalLink, MessageSquare, Search } from 'lucide-react';
+import type { NewsSearchPage } from '@/lib/news-search';
+
+interface NewsSearchPanelProps {
+  onSendMessage: (message: string) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const getLabelColor = (label: string) => {
+  if (label === 'positive') return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+  if (label === 'negative') return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+  return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
+};
+
+export function NewsSearchPanel({ onSendMessage }: NewsSearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [ticker, setTicker] = useState('');
+  const [topic, setTopic] = useState('');
+  const [sentiment, setSentiment] = useState('any');
+  const [sort, setSort] = useState<'relevance' | 'date'>('relevance');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState<NewsSearchPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Parameters of the current results, so "Load more" ignores later edits to the filters
+  const lastParamsRef = useRef<URLSearchParams | null>(null);
+
+  const hasCriteria = !!(query.trim() || ticker.trim() || topic.trim() || sentiment !== 'any' || from || to);
+
+  // Run a new search, or fetch the next page when given a cursor
+  const search = async (cursor?: string) => {
+    let params: URLSearchParams;
+    if (cursor && lastParamsRef.current) {
+      params = new URLSearchParams(lastParamsRef.current);
+      params.set('cursor', cursor);
+    } else {
+      params = new URLSearchParams({ action: 'search', limit: String(PAGE_SIZE), sort });
+      if (query.trim()) params.set('query', query.trim());
+      if (ticker.trim()) params.set('ticker', ticker.trim());
+      if (topic.trim()) params.set('topic', topic.trim());
+      if (sentiment !== 'any') params.set('sentiment', sentiment);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      lastParamsRef.current = params;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sentiment?${params}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Search failed (${response.status})`);
+      }
+      const data: NewsSearchPage = result.data;
+      setPage(previous => cursor && previous ? { ...data, results: previous.results.concat(data.results) } : data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="w-5 h-5" />
+          News Search
+        </CardTitle>
+        <CardDescription>
+          Search the news corpus. Use &quot;quoted phrases&quot; and -word to exclude; results favour recent articles.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder='e.g., "interest rates" banks -crypto'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && hasCriteria && search()}
+            className="flex-1"
+          />
+          <Button onClick={() => search()} disabled={!hasCriteria || loading}>
+            <Search className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onSendMessage(query.trim())}
+            disabled={!query.trim()}
+            title="Ask the assistant instead"
+          >
+            <MessageSquare className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          <Input placeholder="Ticker" value={ticker} onChange={(e) => setTicker(e.target.value)} className="h-8" />
+          <Input placeholder="Topic" value={topic} onChange={(e) => setTopic(e.target.value)} className="h-8" />
+          <Select value={sentiment} onValueChange={setSentiment}>
+            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any sentiment</SelectItem>
+              <SelectItem value="positive">Positive</SelectItem>
+              <SelectItem value="negative">Negative</SelectItem>
+              <SelectItem value="neutral">Neutral</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as 'relevance' | 'date')}>
+            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="relevance">Best match</SelectItem>
+              <SelectItem value="date">Newest</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8" title="From" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8" title="To" />
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {page && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">{page.total} matching articles</p>
+            {page.results.map(({ article }) => (
+              <div key={article.id} className="p-3 rounded-lg border space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium">{article.title}</p>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 shrink-0"
+                    onClick={() => onSendMessage(`Tell me more about this article and what it means for the market: "${article.title}" [${article.id}]`)}
+                    title="Ask the assistant about this article"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>{new Date(article.timestamp).toLocaleString()}</span>
+                  <Badge className={getLabelColor(article.sentiment.label)}>
+                    {article.sentiment.score.toFixed(2)}
+                  </Badge>
+                  {article.entities.stocks.slice(0, 5).map(stock => (
+                    <Badge key={stock} variant="outline" className="font-mono text-xs">{stock}</Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {page.nextCursor && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => search(page.nextCursor!)}
+                disabled={loading}
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
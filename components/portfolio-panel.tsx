@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  Upload,
+  Trash2,
+  AlertTriangle,
+  MessageSquare,
+  ExternalLink
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { HoldingSentiment, PortfolioSentiment } from '@/lib/portfolio-sentiment';
+import type { SkippedRow } from '@/lib/portfolio-store';
+
+interface PortfolioPanelProps {
+  onSendMessage: (message: string) => void;
+}
+
+const currencyFormat = new Intl.NumberFormat(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+export function PortfolioPanel({ onSendMessage }: PortfolioPanelProps) {
+  const [portfolio, setPortfolio] = useState<PortfolioSentiment | null>(null);
+  const [skipped, setSkipped] = useState<SkippedRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchPortfolio = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/portfolio');
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Request failed (${response.status})`);
+      setPortfolio(result.data);
+    } catch (error) {
+      console.error('Error fetching portfolio:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPortfolio();
+  }, [fetchPortfolio]);
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/portfolio/import', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `Import failed (${response.status})`);
+      setSkipped(result.data.skipped);
+      await fetchPortfolio();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import portfolio');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/portfolio', { method: 'DELETE' });
+      if (!response.ok) throw new Error((await response.json()).error || 'Failed to delete portfolio');
+      setPortfolio(null);
+      setSkipped([]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete portfolio');
+    }
+  };
+
+  const getTrendIcon = (trend: HoldingSentiment['trend']) => {
+    if (trend === 'bullish') return <TrendingUp className="w-4 h-4 text-green-500" />;
+    if (trend === 'bearish') return <TrendingDown className="w-4 h-4 text-red-500" />;
+    return <Minus className="w-4 h-4 text-yellow-500" />;
+  };
+
+  const scoreColor = (score: number) =>
+    score > 0.1 ? 'text-green-600' : score < -0.1 ? 'text-red-600' : 'text-muted-foreground';
+
+  const mostNegative = portfolio?.mostNegative
+    .map(ticker => portfolio.holdings.find(holding => holding.ticker === ticker))
+    .filter((holding): holding is HoldingSentiment => !!holding) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Portfolio</CardTitle>
+        <CardDescription>
+          Import your holdings (ticker, quantity, cost basis) to see news sentiment weighted by position size
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            <Upload className="w-4 h-4 mr-2" />
+            {importing ? 'Importing...' : portfolio ? 'Re-import holdings' : 'Import holdings'}
+          </Button>
+          {portfolio && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => onSendMessage('How is my portfolio doing?')}>
+                <MessageSquare className="w-4 h-4 mr-2" />
+                Ask about my portfolio
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleDelete} title="Delete portfolio">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {skipped.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Skipped {skipped.length} row{skipped.length === 1 ? '' : 's'}:{' '}
+            {skipped.slice(0, 5).map(row => `row ${row.row} (${row.reason})`).join(', ')}
+            {skipped.length > 5 && ', ...'}
+          </p>
+        )}
+
+        {portfolio && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground">Weighted sentiment</p>
+                <div className="flex items-center gap-2">
+                  {getTrendIcon(portfolio.trend)}
+                  <span className={cn('text-lg font-mono', scoreColor(portfolio.weightedSentiment))}>
+                    {portfolio.weightedSentiment.toFixed(3)}
+                  </span>
+                </div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground">Holdings</p>
+                <p className="text-lg font-mono">{portfolio.holdings.length}</p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-xs text-muted-foreground">
+                  {portfolio.weighting === 'value' ? 'Value' : 'Weighting'}
+                </p>
+                <p className="text-lg font-mono">
+                  {portfolio.totalValue !== null ? currencyFormat.format(portfolio.totalValue) : 'Equal'}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border" title="Share of the portfolio with any news coverage">
+                <p className="text-xs text-muted-foreground">News coverage</p>
+                <p className="text-lg font-mono">{(portfolio.coveredWeight * 100).toFixed(0)}%</p>
+              </div>
+            </div>
+
+            {mostNegative.length > 0 && (
+              <div className="p-3 rounded-lg border border-red-500/40 bg-red-500/5 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-red-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  Most negatively covered holdings
+                </div>
+                {mostNegative.map(holding => (
+                  <div key={holding.ticker} className="space-y-0.5">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-mono font-medium">{holding.ticker}</span>
+                      <span className="font-mono text-xs">
+                        {(holding.weight * 100).toFixed(1)}% · {holding.avgSentiment.toFixed(3)} · {holding.negativeCount} negative of {holding.totalArticles}
+                      </span>
+                    </div>
+                    {holding.latestHeadline && (
+                      <p className="text-xs text-muted-foreground truncate" title={holding.latestHeadline.title}>
+                        {new Date(holding.latestHeadline.timestamp).toLocaleDateString()} · {holding.latestHeadline.title}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {portfolio.holdings.map(holding => (
+                <div key={holding.ticker} className="p-3 rounded-lg border space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-medium font-mono">{holding.ticker}</span>
+                      {getTrendIcon(holding.trend)}
+                      <Badge variant="secondary" className="text-xs">
+                        {holding.totalArticles} articles
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm font-mono">
+                      <span title={holding.valueSource === 'price' && holding.price
+                        ? `${holding.quantity} × ${holding.price.close} (close ${holding.price.date})`
+                        : holding.valueSource === 'cost' ? 'Cost basis (no price file)' : 'No price or cost basis'}
+                      >
+                        {holding.value !== null ? currencyFormat.format(holding.value) : `${holding.quantity} sh`}
+                      </span>
+                      <span className={scoreColor(holding.avgSentiment)} title="Average sentiment">
+                        {holding.totalArticles > 0 ? holding.avgSentiment.toFixed(3) : 'n/a'}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2"
+                        onClick={() => onSendMessage(`Analyze ${holding.ticker} stock sentiment`)}
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2" title={`${(holding.weight * 100).toFixed(2)}% of the portfolio`}>
+                    <div className="flex-1 h-1.5 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className={cn('h-full rounded-full', holding.avgSentiment < -0.1 ? 'bg-red-500' : holding.avgSentiment > 0.1 ? 'bg-green-500' : 'bg-blue-500')}
+                        style={{ width: `${Math.max(holding.weight * 100, 1)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-muted-foreground font-mono w-12 text-right">
+                      {(holding.weight * 100).toFixed(1)}%
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Imported from {portfolio.source || 'a file'} on {new Date(portfolio.importedAt).toLocaleDateString()}.
+              {portfolio.uncovered.length > 0 && ` No news coverage for ${portfolio.uncovered.join(', ')}.`}
+            </p>
+          </div>
+        )}
+
+        {!portfolio && !loading && (
+          <p className="text-sm text-muted-foreground">
+            No portfolio yet. Import a CSV or XLSX export with ticker and quantity columns; a cost basis column is optional.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,9 +3,14 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { WatchlistPanel } from './watchlist-panel';
+import { PortfolioPanel } from './portfolio-panel';
+import { AlertsPanel } from './alerts-panel';
+import { BacktestPanel } from './backtest-panel';
+import { NetworkGraphPanel } from './network-graph-panel';
+import { NewsSearchPanel } from './news-search-panel';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -23,7 +28,6 @@ interface SentimentDashboardProps {
 
 export function SentimentDashboard({ onSendMessage }: SentimentDashboardProps) {
   const [activeTab, setActiveTab] = useState('overview');
-  const [searchQuery, setSearchQuery] = useState('');
   const [marketData, setMarketData] = useState<any>(null);
   const [loading, setLoading] = useState(false);
 
@@ -68,7 +72,8 @@ export function SentimentDashboard({ onSendMessage }: SentimentDashboardProps) {
     "Analyze AAPL stock sentiment",
     "What's the sentiment on cryptocurrency?",
     "How is the healthcare sector performing?",
-    "Show me recent financial news"
+    "Show me recent financial news",
+    "Compare MSFT vs GOOG vs AMZN"
   ];
 
   return (
@@ -113,10 +118,15 @@ export function SentimentDashboard({ onSendMessage }: SentimentDashboardProps) {
       {/* Market Overview */}
       {marketData && (
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="sectors">Sectors</TabsTrigger>
             <TabsTrigger value="stocks">Top Stocks</TabsTrigger>
+            <TabsTrigger value="network">Network</TabsTrigger>
+            <TabsTrigger value="watchlists">Watchlists</TabsTrigger>
+            <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
+            <TabsTrigger value="alerts">Alerts</TabsTrigger>
+            <TabsTrigger value="backtest">Backtest</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-4">
@@ -260,6 +270,26 @@ export function SentimentDashboard({ onSendMessage }: SentimentDashboardProps) {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="network" className="space-y-4">
+            <NetworkGraphPanel onSendMessage={handleQuickAnalysis} />
+          </TabsContent>
+
+          <TabsContent value="watchlists" className="space-y-4">
+            <WatchlistPanel onSendMessage={handleQuickAnalysis} />
+          </TabsContent>
+
+          <TabsContent value="portfolio" className="space-y-4">
+            <PortfolioPanel onSendMessage={handleQuickAnalysis} />
+          </TabsContent>
+
+          <TabsContent value="alerts" className="space-y-4">
+            <AlertsPanel onSendMessage={handleQuickAnalysis} />
+          </TabsContent>
+
+          <TabsContent value="backtest" className="space-y-4">
+            <BacktestPanel />
+          </TabsContent>
         </Tabs>
       )}
 
@@ -275,45 +305,8 @@ export function SentimentDashboard({ onSendMessage }: SentimentDashboardProps) {
         </Card>
       )}
 
-      {/* Custom Search */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Search className="w-5 h-5" />
-            Custom Analysis
-          </CardTitle>
-          <CardDescription>
-            Ask specific questions about stocks, sectors, or market conditions
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex gap-2">
-            <Input
-              placeholder="e.g., How is AAPL performing? or Analyze tech sector..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              onKeyPress={(e) => {
-                if (e.key === 'Enter' && searchQuery.trim()) {
-                  handleQuickAnalysis(searchQuery);
-                  setSearchQuery('');
-                }
-              }}
-              className="flex-1"
-            />
-            <Button 
-              onClick={() => {
-                if (searchQuery.trim()) {
-                  handleQuickAnalysis(searchQuery);
-                  setSearchQuery('');
-                }
-              }}
-              disabled={!searchQuery.trim()}
-            >
-              <Search className="w-4 h-4" />
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+      {/* News Search */}
+      <NewsSearchPanel onSendMessage={handleQuickAnalysis} />
 
       {/* Help Section */}
       <Card>
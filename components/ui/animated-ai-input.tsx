@@ -2,13 +2,15 @@
 
 import type React from "react"
 
-import { ArrowRight, Bot, Check, ChevronDown, Paperclip, Square, X, FileAudio, Image as ImageIcon, Video, Sparkles } from "lucide-react"
+import { ArrowRight, Bot, Check, ChevronDown, Paperclip, Square, X, FileAudio, Image as ImageIcon, Video, Sparkles, Wrench, FileText, Table2 } from "lucide-react"
 import { useRef, useCallback, useEffect } from "react"
 import { Textarea } from "@/components/ui/textarea"
 import { cn, formatFileSize, formatDuration, formatVideoDuration } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { AnimatePresence, motion } from "framer-motion"
+import type { ChatModelInfo, ChatProviderId } from "@/lib/chat-models"
+import { PDF_MIME_TYPE, isTabularMimeType } from "@/lib/chat-attachments"
 
 interface UseAutoResizeTextareaProps {
   minHeight: number
@@ -72,6 +74,45 @@ const OPENAI_ICON = (
   </>
 )
 
+function GeminiIcon({ gradientId }: { gradientId: string }) {
+  return (
+    <svg height="1em" className="w-4 h-4" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <title>Gemini</title>
+      <defs>
+        <linearGradient id={gradientId} x1="0%" x2="68.73%" y1="100%" y2="30.395%">
+          <stop offset="0%" stopColor="#1C7DFF" />
+          <stop offset="52.021%" stopColor="#1C69FF" />
+          <stop offset="100%" stopColor="#F0DCD6" />
+        </linearGradient>
+      </defs>
+      <path
+        d="M12 24A14.304 14.304 0 000 12 14.304 14.304 0 0012 0a14.305 14.305 0 0012 12 14.305 14.305 0 00-12 12"
+        fill={`url(#${gradientId})`}
+        fillRule="nonzero"
+      />
+    </svg>
+  )
+}
+
+// Icon for a model's provider; gradient ids must be unique on the page
+function getModelIcon(provider: ChatProviderId | undefined, key: string) {
+  if (provider === "gemini") return <GeminiIcon gradientId={`gemini-fill-${key.replace(/[^a-zA-Z0-9-]/g, "-")}`} />
+  if (provider === "openai") return OPENAI_ICON
+  return <Bot className="w-4 h-4 opacity-50" />
+}
+
+// e.g. 1048576 -> "1M", 128000 -> "128K"
+function formatContextWindow(tokens: number) {
+  return tokens >= 1000000 ? `${Math.round(tokens / 1048576)}M` : `${Math.round(tokens / 1000)}K`
+}
+
+const IMAGE_TYPES = "image/jpeg,image/png,image/webp,image/heic,image/heif"
+const AUDIO_TYPES = "audio/mpeg,audio/mp3,audio/wav,audio/webm,audio/mp4,audio/m4a"
+const VIDEO_TYPES = "video/mp4,video/mpeg,video/mov,video/avi,video/webm,video/quicktime"
+const PDF_TYPES = "application/pdf,.pdf"
+// Extensions too, since browsers do not always know these types
+const TABLE_TYPES = "text/csv,.csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,.xlsx"
+
 interface AIPromptProps {
   value: string
   onChange: (value: string) => void
@@ -80,8 +121,8 @@ interface AIPromptProps {
   isLoading?: boolean
   selectedModel?: string
   onModelChange?: (model: string) => void
-  onFileSelect?: (file: File) => void
-  selectedFile?: { 
+  onFilesSelect?: (files: File[]) => void
+  selectedFiles?: { 
     file: File
     preview?: string
     transcription?: {
@@ -91,9 +132,12 @@ interface AIPromptProps {
     }
     videoThumbnail?: string // Add this
     videoDuration?: number // Add this
-  } | null
-  onFileRemove?: () => void
+  }[]
+  onFileRemove?: (index: number) => void
+  maxFiles?: number
+  pendingFileCount?: number // files still uploading, counted against maxFiles
   onGenerateImage?: () => void // Add this for quick image generation
+  models?: ChatModelInfo[] // from /api/models
 }
 
 export function AI_Prompt({
@@ -104,102 +148,39 @@ export function AI_Prompt({
   isLoading = false,
   selectedModel = "gemini-2.5-flash-preview-05-20",
   onModelChange,
-  onFileSelect,
-  selectedFile,
+  onFilesSelect,
+  selectedFiles = [],
   onFileRemove,
+  maxFiles = 1,
+  pendingFileCount = 0,
+  models = [],
 }: AIPromptProps) {
   const { textareaRef, adjustHeight } = useAutoResizeTextarea({
     minHeight: 80,
     maxHeight: 300,
   })
 
-  const AI_MODELS = ["gemini-2.5-pro-preview-05-06", "gemini-2.5-flash-preview-05-20", "gemini-2.0-flash-exp"]
-
-  const MODEL_ICONS: Record<string, React.ReactNode> = {
-    "Claude Opus 4": (
-      <>
-        <svg
-          fill="#FFFFFF"
-          fillRule="evenodd"
-          className="w-4 h-4"
-          viewBox="0 0 24 24"
-          width="1em"
-          xmlns="http://www.w3.org/2000/svg"
-        >
-          <title>Anthropic Icon</title>
-          <path d="M13.827 3.52h3.603L24 20h-3.603l-6.57-16.48zm-7.258 0h3.767L16.906 20h-3.674l-1.343-3.461H5.017l-1.344 3.46H0L6.57 3.522zm4.132 9.959L8.453 7.687 6.205 13.48H10.7z" />
-        </svg>
-      </>
-    ),
-    "Claude Sonnet 4": (
-      <>
-        <svg
-          fill="#FFFFFF"
-          fillRule="evenodd"
-          className="w-4 h-4"
-          viewBox="0 0 24 24"
-          width="1em"
-          xmlns="http://www.w3.org/2000/svg"
-        >
-          <title>Anthropic Icon</title>
-          <path d="M13.827 3.52h3.603L24 20h-3.603l-6.57-16.48zm-7.258 0h3.767L16.906 20h-3.674l-1.343-3.461H5.017l-1.344 3.46H0L6.57 3.522zm4.132 9.959L8.453 7.687 6.205 13.48H10.7z" />
-        </svg>
-      </>
-    ),
-    "gemini-2.5-flash-preview-05-20": (
-      <svg height="1em" className="w-4 h-4" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <title>Gemini</title>
-        <defs>
-          <linearGradient id="lobe-icons-gemini-fill" x1="0%" x2="68.73%" y1="100%" y2="30.395%">
-            <stop offset="0%" stopColor="#1C7DFF" />
-            <stop offset="52.021%" stopColor="#1C69FF" />
-            <stop offset="100%" stopColor="#F0DCD6" />
-          </linearGradient>
-        </defs>
-        <path
-          d="M12 24A14.304 14.304 0 000 12 14.304 14.304 0 0012 0a14.305 14.305 0 0012 12 14.305 14.305 0 00-12 12"
-          fill="url(#lobe-icons-gemini-fill)"
-          fillRule="nonzero"
-        />
-      </svg>
-    ),
-    "gemini-2.5-pro-preview-05-06": (
-      <svg height="1em" className="w-4 h-4" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <title>Gemini</title>
-        <defs>
-          <linearGradient id="lobe-icons-gemini-fill-pro" x1="0%" x2="68.73%" y1="100%" y2="30.395%">
-            <stop offset="0%" stopColor="#1C7DFF" />
-            <stop offset="52.021%" stopColor="#1C69FF" />
-            <stop offset="100%" stopColor="#F0DCD6" />
-          </linearGradient>
-        </defs>
-        <path
-          d="M12 24A14.304 14.304 0 000 12 14.304 14.304 0 0012 0a14.305 14.305 0 0012 12 14.305 14.305 0 00-12 12"
-          fill="url(#lobe-icons-gemini-fill-pro)"
-          fillRule="nonzero"
-        />
-      </svg>
-    ),
-    "gemini-2.0-flash-exp": (
-      <svg height="1em" className="w-4 h-4" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-        <title>Gemini</title>
-        <defs>
-          <linearGradient id="lobe-icons-gemini-fill-flash" x1="0%" x2="68.73%" y1="100%" y2="30.395%">
-            <stop offset="0%" stopColor="#1C7DFF" />
-            <stop offset="52.021%" stopColor="#1C69FF" />
-            <stop offset="100%" stopColor="#F0DCD6" />
-          </linearGradient>
-        </defs>
-        <path
-          d="M12 24A14.304 14.304 0 000 12 14.304 14.304 0 0012 0a14.305 14.305 0 0012 12 14.305 14.305 0 00-12 12"
-          fill="url(#lobe-icons-gemini-fill-flash)"
-          fillRule="nonzero"
-        />
-      </svg>
-    ),
-    "GPT-4o": OPENAI_ICON,
-    "GPT-4o Mini": OPENAI_ICON,
-  }
+  // Until the registry loads, show just the selected model
+  const modelOptions: ChatModelInfo[] = models.length > 0 ? models : [{
+    id: selectedModel,
+    label: selectedModel,
+    provider: "gemini",
+    capabilities: { vision: true, audio: true, video: true, documents: true, tools: true },
+    contextWindow: 0,
+    maxOutputTokens: 0,
+    available: true,
+  }]
+  const currentModel = modelOptions.find((model) => model.id === selectedModel)
+  // Images need a vision model and PDFs a document model; audio and video can fall
+  // back to their transcript, and tables are parsed for every model
+  const acceptedFiles = [
+    ...(currentModel?.capabilities.vision === false ? [] : [IMAGE_TYPES]),
+    AUDIO_TYPES,
+    VIDEO_TYPES,
+    ...(currentModel?.capabilities.documents === false ? [] : [PDF_TYPES]),
+    TABLE_TYPES,
+  ].join(",")
+  const canAttachMore = selectedFiles.length + pendingFileCount < maxFiles
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey && value.trim()) {
@@ -221,81 +202,91 @@ export function AI_Prompt({
   return (
     <div className="w-full py-4">
       <div className="bg-[#2B2B2B] rounded-2xl p-1.5 border border-[#4A4A4A] focus-within:ring-2 focus-within:ring-[#4A4A4A] focus-within:ring-offset-2 focus-within:ring-offset-[#1E1E1E] transition-all duration-200">
-        {selectedFile && (
-          <div className="mx-4 mt-2 mb-2 bg-[#333333] rounded-lg max-w-[350px]">
-            <div className="flex items-center gap-2 p-2">
-              <div className="flex items-center gap-2 flex-1 min-w-0">
-                {selectedFile.file.type.startsWith("image/") ? (
-                  <>
-                    {selectedFile.preview && (
-                      <img 
-                        src={selectedFile.preview} 
-                        alt="Preview" 
-                        className="w-10 h-10 rounded object-cover flex-shrink-0"
-                      />
-                    )}
-                    <ImageIcon className="w-4 h-4 text-[#B0B0B0] flex-shrink-0" />
-                  </>
-                ) : selectedFile.file.type.startsWith("video/") ? (
-                  <>
-                    {selectedFile.videoThumbnail ? (
-                      <div className="relative w-10 h-10 rounded overflow-hidden flex-shrink-0">
-                        <img 
-                          src={selectedFile.videoThumbnail} 
-                          alt="Video thumbnail" 
-                          className="w-full h-full object-cover"
-                        />
-                        <div className="absolute inset-0 flex items-center justify-center bg-black/40">
-                          <Video className="w-5 h-5 text-white" />
-                        </div>
-                      </div>
+        {selectedFiles.length > 0 && (
+          <div className="mx-4 mt-2 mb-2 flex flex-wrap gap-2">
+            {selectedFiles.map((selectedFile, index) => (
+              <div key={`${selectedFile.file.name}-${index}`} className="bg-[#333333] rounded-lg w-[260px] max-w-full">
+                <div className="flex items-center gap-2 p-2">
+                  <div className="flex items-center gap-2 flex-1 min-w-0">
+                    {selectedFile.file.type.startsWith("image/") ? (
+                      <>
+                        {selectedFile.preview && (
+                          <img 
+                            src={selectedFile.preview} 
+                            alt="Preview" 
+                            className="w-10 h-10 rounded object-cover flex-shrink-0"
+                          />
+                        )}
+                        <ImageIcon className="w-4 h-4 text-[#B0B0B0] flex-shrink-0" />
+                      </>
+                    ) : selectedFile.file.type.startsWith("video/") ? (
+                      <>
+                        {selectedFile.videoThumbnail ? (
+                          <div className="relative w-10 h-10 rounded overflow-hidden flex-shrink-0">
+                            <img 
+                              src={selectedFile.videoThumbnail} 
+                              alt="Video thumbnail" 
+                              className="w-full h-full object-cover"
+                            />
+                            <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                              <Video className="w-5 h-5 text-white" />
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="w-10 h-10 rounded bg-black/30 flex items-center justify-center flex-shrink-0">
+                            <Video className="w-5 h-5 text-[#B0B0B0]" />
+                          </div>
+                        )}
+                      </>
                     ) : (
                       <div className="w-10 h-10 rounded bg-black/30 flex items-center justify-center flex-shrink-0">
-                        <Video className="w-5 h-5 text-[#B0B0B0]" />
+                        {selectedFile.file.type === PDF_MIME_TYPE ? (
+                          <FileText className="w-5 h-5 text-[#B0B0B0]" />
+                        ) : isTabularMimeType(selectedFile.file.type) ? (
+                          <Table2 className="w-5 h-5 text-[#B0B0B0]" />
+                        ) : (
+                          <FileAudio className="w-5 h-5 text-[#B0B0B0]" />
+                        )}
                       </div>
                     )}
-                  </>
-                ) : (
-                  <div className="w-10 h-10 rounded bg-black/30 flex items-center justify-center flex-shrink-0">
-                    <FileAudio className="w-5 h-5 text-[#B0B0B0]" />
+                    <div className="flex-1 min-w-0 overflow-hidden">
+                      <p className="text-sm text-[#B0B0B0] truncate" title={selectedFile.file.name}>
+                        {selectedFile.file.name}
+                      </p>
+                      <p className="text-xs text-[#808080]">
+                        {formatFileSize(selectedFile.file.size)}
+                        {selectedFile.file.type.startsWith("audio/") && selectedFile.preview && " • Ready to play"}
+                        {selectedFile.file.type.startsWith("video/") && selectedFile.videoDuration && 
+                          ` • ${formatVideoDuration(selectedFile.videoDuration)}`}
+                      </p>
+                    </div>
                   </div>
-                )}
-                <div className="flex-1 min-w-0 overflow-hidden">
-                  <p className="text-sm text-[#B0B0B0] truncate" title={selectedFile.file.name}>
-                    {selectedFile.file.name}
-                  </p>
-                  <p className="text-xs text-[#808080]">
-                    {formatFileSize(selectedFile.file.size)}
-                    {selectedFile.file.type.startsWith("audio/") && selectedFile.preview && " • Ready to play"}
-                    {selectedFile.file.type.startsWith("video/") && selectedFile.videoDuration && 
-                      ` • ${formatVideoDuration(selectedFile.videoDuration)}`}
-                  </p>
-                </div>
-              </div>
-              <button
-                type="button"
-                onClick={onFileRemove}
-                className="p-1 hover:bg-[#4A4A4A] rounded flex-shrink-0"
-                aria-label="Remove file"
-              >
-                <X className="w-4 h-4 text-[#B0B0B0]" />
-              </button>
-            </div>
-            {/* Show transcription preview for audio and video files */}
-            {(selectedFile.file.type.startsWith("audio/") || selectedFile.file.type.startsWith("video/")) && 
-             selectedFile.transcription && (
-              <div className="px-2 pb-2">
-                <div className="p-2 bg-black/20 rounded">
-                  <p className="text-xs text-gray-400 mb-1">
-                    Transcription {selectedFile.transcription.language ? `(${selectedFile.transcription.language})` : ''}
-                    {selectedFile.transcription.duration ? ` • ${formatDuration(selectedFile.transcription.duration)}` : ''}
-                  </p>
-                  <p className="text-xs text-gray-300 italic line-clamp-2">
-                    "{selectedFile.transcription.text}"
-                  </p>
+                  <button
+                    type="button"
+                    onClick={() => onFileRemove?.(index)}
+                    className="p-1 hover:bg-[#4A4A4A] rounded flex-shrink-0"
+                    aria-label={`Remove ${selectedFile.file.name}`}
+                  >
+                    <X className="w-4 h-4 text-[#B0B0B0]" />
+                  </button>
                 </div>
+                {/* Show transcription preview for audio and video files */}
+                {(selectedFile.file.type.startsWith("audio/") || selectedFile.file.type.startsWith("video/")) && 
+                 selectedFile.transcription && (
+                  <div className="px-2 pb-2">
+                    <div className="p-2 bg-black/20 rounded">
+                      <p className="text-xs text-gray-400 mb-1">
+                        Transcription {selectedFile.transcription.language ? `(${selectedFile.transcription.language})` : ''}
+                        {selectedFile.transcription.duration ? ` • ${formatDuration(selectedFile.transcription.duration)}` : ''}
+                      </p>
+                      <p className="text-xs text-gray-300 italic line-clamp-2">
+                        "{selectedFile.transcription.text}"
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
+            ))}
           </div>
         )}
         <div className="relative">
@@ -348,25 +339,37 @@ export function AI_Prompt({
                             }}
                             className="flex items-center gap-1"
                           >
-                            {MODEL_ICONS[selectedModel]}
-                            {selectedModel}
+                            {getModelIcon(currentModel?.provider, `trigger-${selectedModel}`)}
+                            {currentModel?.label || selectedModel}
                             <ChevronDown className="w-3 h-3 opacity-50" />
                           </motion.div>
                         </AnimatePresence>
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent className={cn("min-w-[10rem]", "border-[#333333]", "bg-[#2B2B2B]")}>
-                      {AI_MODELS.map((model) => (
+                      {modelOptions.map((model) => (
                         <DropdownMenuItem
-                          key={model}
-                          onSelect={() => onModelChange?.(model)}
+                          key={model.id}
+                          disabled={!model.available}
+                          onSelect={() => onModelChange?.(model.id)}
                           className="flex items-center justify-between gap-2 hover:bg-[#3C3C3C]"
+                          title={model.available ? model.id : `${model.label} is not configured on the server`}
                         >
                           <div className="flex items-center gap-2">
-                            {MODEL_ICONS[model] || <Bot className="w-4 h-4 opacity-50" />}
-                            <span className="text-white">{model}</span>
+                            {getModelIcon(model.provider, model.id)}
+                            <span className="text-white">{model.label}</span>
+                            <span className="flex items-center gap-0.5 text-[#808080]">
+                              {model.capabilities.vision && <ImageIcon className="w-3 h-3" />}
+                              {model.capabilities.audio && <FileAudio className="w-3 h-3" />}
+                              {model.capabilities.video && <Video className="w-3 h-3" />}
+                              {model.capabilities.documents && <FileText className="w-3 h-3" />}
+                              {model.capabilities.tools && <Wrench className="w-3 h-3" />}
+                            </span>
+                            {model.contextWindow > 0 && (
+                              <span className="text-xs text-[#808080]">{formatContextWindow(model.contextWindow)}</span>
+                            )}
                           </div>
-                          {selectedModel === model && <Check className="w-4 h-4 text-white" />}
+                          {selectedModel === model.id && <Check className="w-4 h-4 text-white" />}
                         </DropdownMenuItem>
                       ))}
                     </DropdownMenuContent>
@@ -377,19 +380,25 @@ export function AI_Prompt({
                       "rounded-lg p-2 cursor-pointer",
                       "hover:bg-[#4A4A4A] focus-visible:ring-1 focus-visible:ring-offset-0 focus-visible:ring-[#4A4A4A]",
                       "text-[#B0B0B0] hover:text-white",
-                      selectedFile && "text-white bg-[#4A4A4A]"
+                      selectedFiles.length > 0 && "text-white bg-[#4A4A4A]",
+                      !canAttachMore && "opacity-50 cursor-not-allowed"
                     )}
-                    aria-label="Attach file"
+                    aria-label="Attach files"
+                    title={canAttachMore ? `Attach up to ${maxFiles} files` : `At most ${maxFiles} files per message`}
                   >
                     <input 
                       type="file" 
                       className="hidden" 
-                      accept="image/jpeg,image/png,image/webp,image/heic,image/heif,audio/mpeg,audio/mp3,audio/wav,audio/webm,audio/mp4,audio/m4a,video/mp4,video/mpeg,video/mov,video/avi,video/webm,video/quicktime"
+                      accept={acceptedFiles}
+                      multiple={maxFiles > 1}
+                      disabled={!canAttachMore}
                       onChange={(e) => {
-                        const file = e.target.files?.[0]
-                        if (file && onFileSelect) {
-                          onFileSelect(file)
+                        const files = Array.from(e.target.files || [])
+                        if (files.length > 0 && onFilesSelect) {
+                          onFilesSelect(files)
                         }
+                        // Allow picking the same file again after removing it
+                        e.target.value = ""
                       }}
                     />
                     <Paperclip className="w-4 h-4 transition-colors" />
@@ -1,19 +1,30 @@
 import { motion } from "framer-motion"
-import { Loader2, Upload, Check, AlertCircle } from "lucide-react"
+import { Loader2, Upload, Check, AlertCircle, Cloud } from "lucide-react"
 import { cn, formatFileSize } from "@/lib/utils"
+import type { TranscriptionProgress } from "@/lib/media-transcription"
+
+// uploading: bytes to our server; processing: Gemini preparing the file
+export type UploadStatus = 'idle' | 'uploading' | 'processing' | 'transcribing' | 'complete' | 'error'
 
 interface UploadProgressProps {
   progress: number
-  status: 'idle' | 'uploading' | 'transcribing' | 'complete' | 'error'
+  status: UploadStatus
   fileName?: string
   fileSize?: number
+  uploadedBytes?: number
+  transcribeProgress?: TranscriptionProgress // only reported for media transcribed in pieces
 }
 
-export function UploadProgress({ progress, status, fileName, fileSize }: UploadProgressProps) {
+export function UploadProgress({ progress, status, fileName, fileSize, uploadedBytes, transcribeProgress }: UploadProgressProps) {
+  // Long media reports each transcribed piece, so its bar can show real progress
+  const transcribedPieces = status === 'transcribing' && transcribeProgress?.stage === 'transcribing' ? transcribeProgress : undefined
+
   const getStatusIcon = () => {
     switch (status) {
       case 'uploading':
         return <Upload className="w-4 h-4" />
+      case 'processing':
+        return <Cloud className="w-4 h-4 animate-pulse" />
       case 'transcribing':
         return <Loader2 className="w-4 h-4 animate-spin" />
       case 'complete':
@@ -31,7 +42,13 @@ export function UploadProgress({ progress, status, fileName, fileSize }: UploadP
         const name = fileName || 'file'
         const size = fileSize ? ` (${formatFileSize(fileSize)})` : ''
         return `Uploading ${name}${size}...`
+      case 'processing':
+        return `Processing ${fileName || 'file'} with Gemini...`
       case 'transcribing':
+        if (transcribeProgress?.stage === 'extracting') return 'Extracting audio...'
+        if (transcribedPieces && transcribedPieces.total > 1) {
+          return `Transcribing media (part ${Math.min(transcribedPieces.completed + 1, transcribedPieces.total)} of ${transcribedPieces.total})...`
+        }
         return 'Transcribing media...'
       case 'complete':
         return 'Upload complete!'
@@ -71,14 +88,29 @@ export function UploadProgress({ progress, status, fileName, fileSize }: UploadP
               <span className="text-sm font-medium">{getStatusText()}</span>
             </div>
             {status === 'uploading' && (
-              <span className="text-xs text-gray-400">{Math.round(progress)}%</span>
+              <span className="text-xs text-gray-400">
+                {uploadedBytes !== undefined && fileSize ? `${formatFileSize(uploadedBytes)} / ` : ''}
+                {Math.round(progress)}%
+              </span>
+            )}
+            {transcribedPieces && (
+              <span className="text-xs text-gray-400">
+                {Math.round((transcribedPieces.completed / transcribedPieces.total) * 100)}%
+              </span>
             )}
           </div>
           
-          {(status === 'uploading' || status === 'transcribing') && (
+          {(status === 'uploading' || status === 'processing' || status === 'transcribing') && (
             <div className="mt-2">
               <div className="w-full bg-black/30 rounded-full h-1.5 overflow-hidden">
-                {status === 'transcribing' ? (
+                {transcribedPieces ? (
+                  <motion.div
+                    className="h-full rounded-full bg-blue-500"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(transcribedPieces.completed / transcribedPieces.total) * 100}%` }}
+                    transition={{ duration: 0.3, ease: "easeOut" }}
+                  />
+                ) : status !== 'uploading' ? (
                   <div className="h-full bg-blue-500 rounded-full animate-pulse" />
                 ) : (
                   <motion.div
@@ -91,7 +123,12 @@ export function UploadProgress({ progress, status, fileName, fileSize }: UploadP
               </div>
               {status === 'transcribing' && (
                 <p className="text-xs text-gray-400 mt-1">
-                  This may take a few moments...
+                  {transcribeProgress ? 'Long recordings are transcribed in 10-minute parts...' : 'This may take a few moments...'}
+                </p>
+              )}
+              {status === 'processing' && (
+                <p className="text-xs text-gray-400 mt-1">
+                  Large videos can take a few minutes...
                 </p>
               )}
             </div>
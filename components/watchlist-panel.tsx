@@ -0,0 +1,284 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  Plus,
+  Pencil,
+  Trash2,
+  X,
+  ExternalLink
+} from 'lucide-react';
+import type { Watchlist } from '@/lib/watchlist-store';
+import type { TickerSnapshot } from '@/lib/sentiment-utils';
+
+interface WatchlistPanelProps {
+  onSendMessage: (message: string) => void;
+}
+
+type WatchlistDetails = Watchlist & { snapshots: TickerSnapshot[] };
+
+// Send a JSON request and surface the API's error message, if any
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed (${response.status})`);
+  }
+  return result.data;
+}
+
+export function WatchlistPanel({ onSendMessage }: WatchlistPanelProps) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<WatchlistDetails | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newTicker, setNewTicker] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchWatchlists = useCallback(async () => {
+    try {
+      const data: Watchlist[] = await request('/api/watchlists');
+      setWatchlists(data);
+      setSelectedId(current => current && data.some(item => item.id === current) ? current : data[0]?.id || null);
+    } catch (error) {
+      console.error('Error fetching watchlists:', error);
+    }
+  }, []);
+
+  const fetchDetails = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      setDetails(await request(`/api/watchlists/${id}`));
+    } catch (error) {
+      console.error('Error fetching watchlist:', error);
+      setDetails(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWatchlists();
+  }, [fetchWatchlists]);
+
+  useEffect(() => {
+    if (selectedId) fetchDetails(selectedId);
+    else setDetails(null);
+  }, [selectedId, fetchDetails]);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setError(null);
+    try {
+      const watchlist: Watchlist = await request('/api/watchlists', {
+        method: 'POST',
+        body: JSON.stringify({ name: newName })
+      });
+      setNewName('');
+      await fetchWatchlists();
+      setSelectedId(watchlist.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create watchlist');
+    }
+  };
+
+  const handleUpdate = async (changes: { name?: string; add?: string[]; remove?: string[] }) => {
+    if (!selectedId) return;
+    setError(null);
+    try {
+      await request(`/api/watchlists/${selectedId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes)
+      });
+      await fetchWatchlists();
+      await fetchDetails(selectedId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update watchlist');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    setError(null);
+    try {
+      await request(`/api/watchlists/${selectedId}`, { method: 'DELETE' });
+      setSelectedId(null);
+      await fetchWatchlists();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete watchlist');
+    }
+  };
+
+  const handleAddTicker = async () => {
+    if (!newTicker.trim()) return;
+    await handleUpdate({ add: [newTicker.trim()] });
+    setNewTicker('');
+  };
+
+  const getTrendIcon = (trend: TickerSnapshot['trend']) => {
+    if (trend === 'bullish') return <TrendingUp className="w-4 h-4 text-green-500" />;
+    if (trend === 'bearish') return <TrendingDown className="w-4 h-4 text-red-500" />;
+    return <Minus className="w-4 h-4 text-yellow-500" />;
+  };
+
+  const formatChange = (change: number | null) => {
+    if (change === null) return <span className="text-muted-foreground">n/a</span>;
+    const color = change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-muted-foreground';
+    return <span className={color}>{change > 0 ? '+' : ''}{change.toFixed(3)}</span>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Watchlists</CardTitle>
+        <CardDescription>
+          Track the tickers you care about: trend, 7-day score change, coverage and latest headline
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {watchlists.map(watchlist => (
+            <Button
+              key={watchlist.id}
+              size="sm"
+              variant={watchlist.id === selectedId ? 'default' : 'outline'}
+              onClick={() => setSelectedId(watchlist.id)}
+            >
+              {watchlist.name}
+              <Badge variant="secondary" className="ml-2 text-xs">{watchlist.tickers.length}</Badge>
+            </Button>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              placeholder="New watchlist"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              className="h-8 w-40"
+            />
+            <Button size="sm" variant="outline" onClick={handleCreate} disabled={!newName.trim()}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {details && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              {renaming ? (
+                <Input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => setRenaming(false)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && renameValue.trim()) {
+                      handleUpdate({ name: renameValue.trim() });
+                      setRenaming(false);
+                    }
+                    if (e.key === 'Escape') setRenaming(false);
+                  }}
+                  className="h-8 max-w-xs"
+                />
+              ) : (
+                <h3 className="font-medium">{details.name}</h3>
+              )}
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setRenameValue(details.name);
+                    setRenaming(true);
+                  }}
+                  title="Rename watchlist"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={handleDelete} title="Delete watchlist">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Add ticker or company, e.g. NVDA or Apple"
+                value={newTicker}
+                onChange={(e) => setNewTicker(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTicker()}
+                className="flex-1"
+              />
+              <Button onClick={handleAddTicker} disabled={!newTicker.trim()}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {details.snapshots.length === 0 && !loading && (
+              <p className="text-sm text-muted-foreground">No tickers in this watchlist yet.</p>
+            )}
+
+            {details.snapshots.map(snapshot => (
+              <div key={snapshot.query} className="p-3 rounded-lg border space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium font-mono">{snapshot.ticker || snapshot.query}</span>
+                    {getTrendIcon(snapshot.trend)}
+                    <Badge variant="secondary" className="text-xs">
+                      {snapshot.totalArticles} articles
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm font-mono">
+                    <span title="Average sentiment">{snapshot.avgSentiment.toFixed(3)}</span>
+                    <span title="Change over the last 7 days">{formatChange(snapshot.scoreChange7d)}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      onClick={() => onSendMessage(`Analyze ${snapshot.ticker || snapshot.query} stock sentiment`)}
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      onClick={() => handleUpdate({ remove: [snapshot.query] })}
+                      title="Remove from watchlist"
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+                {snapshot.latestHeadline && (
+                  <p className="text-xs text-muted-foreground truncate" title={snapshot.latestHeadline.title}>
+                    {new Date(snapshot.latestHeadline.timestamp).toLocaleDateString()} · {snapshot.latestHeadline.title}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!details && watchlists.length === 0 && (
+          <p className="text-sm text-muted-foreground">Create a watchlist to start tracking tickers.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
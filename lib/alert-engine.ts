@@ -0,0 +1,122 @@
+// lib/alert-engine.ts
+import { randomUUID } from 'crypto';
+import { getAlertStore, type AlertEvent, type AlertRule, type AlertStore } from './alert-store';
+import { getSentimentAnalyzer, type SentimentAnalyzer } from './sentiment-utils';
+
+export interface AlertEvaluation {
+  value: number | null; // null when the window has no data to judge
+  triggered: boolean;
+  asOf: string | null;
+  from: string | null;
+}
+
+const METRIC_LABELS: Record<AlertRule['metric'], string> = {
+  score: 'sentiment score',
+  bearishShare: 'bearish article share',
+  bullishShare: 'bullish article share',
+  volumeChange: 'article volume change'
+};
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+function formatValue(metric: AlertRule['metric'], value: number): string {
+  if (metric === 'bearishShare' || metric === 'bullishShare') return `${(value * 100).toFixed(0)}%`;
+  if (metric === 'volumeChange') return `${value.toFixed(2)}x`;
+  return value.toFixed(3);
+}
+
+export function describeAlertRule(rule: AlertRule): string {
+  const window = rule.windowDays === 1 ? 'the last day' : `the last ${rule.windowDays} days`;
+  return `${rule.query} ${METRIC_LABELS[rule.metric]} ${rule.operator} ${formatValue(rule.metric, rule.threshold)} over ${window}`;
+}
+
+/**
+ * Evaluate one rule over the newest days of the corpus. Windows end on the
+ * latest day with any news, so historical data replays the same way live data would.
+ */
+export function evaluateAlertRule(rule: AlertRule, analyzer: SentimentAnalyzer): AlertEvaluation {
+  const asOf = analyzer.getLatestDate();
+  if (!asOf) return { value: null, triggered: false, asOf: null, from: null };
+
+  const from = addDays(asOf, -(rule.windowDays - 1));
+  const current = analyzer.getSentimentWindow(rule.query, { type: rule.targetType, from, to: asOf });
+
+  let value: number | null = null;
+  if (rule.metric === 'volumeChange') {
+    const previous = analyzer.getSentimentWindow(rule.query, {
+      type: rule.targetType,
+      from: addDays(from, -rule.windowDays),
+      to: addDays(from, -1)
+    });
+    value = previous.articleCount > 0 ? current.articleCount / previous.articleCount : null;
+  } else if (current.articleCount > 0) {
+    if (rule.metric === 'score') value = current.weightedScore;
+    else if (rule.metric === 'bearishShare') value = current.bearishCount / current.articleCount;
+    else value = current.bullishCount / current.articleCount;
+  }
+
+  const triggered = value !== null && (rule.operator === 'above' ? value > rule.threshold : value < rule.threshold);
+  return { value, triggered, asOf, from };
+}
+
+// Re-evaluates every enabled rule whenever the analyzer loads new data
+export class AlertEngine {
+  private evaluating: Promise<AlertEvent[]> = Promise.resolve([]);
+
+  constructor(private analyzer: SentimentAnalyzer, private store: AlertStore) {
+    analyzer.onDataLoaded(() => {
+      this.evaluate().catch(error => console.error('Error evaluating alerts:', error));
+    });
+  }
+
+  // Runs one evaluation at a time; returns the events that fired in this run
+  public evaluate(): Promise<AlertEvent[]> {
+    this.evaluating = this.evaluating
+      .catch(() => [])
+      .then(() => this.runEvaluation());
+    return this.evaluating;
+  }
+
+  private async runEvaluation(): Promise<AlertEvent[]> {
+    await this.analyzer.ready();
+    const rules = (await this.store.listRules()).filter(rule => rule.enabled);
+    const triggeredAt = new Date().toISOString();
+
+    const events = rules.flatMap(rule => {
+      const result = evaluateAlertRule(rule, this.analyzer);
+      if (!result.triggered || result.value === null || !result.asOf) return [];
+      if (rule.lastTriggeredAsOf === result.asOf) return [];
+
+      const event: AlertEvent = {
+        id: randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name || describeAlertRule(rule),
+        message: `${rule.query} ${METRIC_LABELS[rule.metric]} is ${formatValue(rule.metric, result.value)}, ${rule.operator} ${formatValue(rule.metric, rule.threshold)} (${result.from} to ${result.asOf})`,
+        value: result.value,
+        threshold: rule.threshold,
+        asOf: result.asOf,
+        triggeredAt
+      };
+      return [event];
+    });
+
+    if (events.length > 0) {
+      await this.store.recordEvents(events);
+    }
+    return events;
+  }
+}
+
+let sharedEngine: AlertEngine | null = null;
+
+// Created along with the shared analyzer (see getSentimentAnalyzer)
+export function getAlertEngine(): AlertEngine {
+  if (!sharedEngine) {
+    sharedEngine = new AlertEngine(getSentimentAnalyzer(), getAlertStore());
+  }
+  return sharedEngine;
+}
@@ -0,0 +1,189 @@
+// lib/alert-store.ts
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from './json-file-store';
+
+// score: weighted sentiment; bearishShare/bullishShare: fraction of articles (0-1);
+// volumeChange: article count relative to the preceding window of the same length
+export type AlertMetric = 'score' | 'bearishShare' | 'bullishShare' | 'volumeChange';
+export type AlertOperator = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  targetType: 'stock' | 'sector';
+  query: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  windowDays: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastTriggeredAsOf: string | null; // data date of the last event, so each day fires once
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  value: number;
+  threshold: number;
+  asOf: string; // YYYY-MM-DD, newest day of the evaluated window
+  triggeredAt: string;
+}
+
+export type AlertRuleInput = Partial<Pick<AlertRule,
+  'name' | 'targetType' | 'query' | 'metric' | 'operator' | 'threshold' | 'windowDays' | 'enabled'>>;
+
+interface AlertData {
+  rules: AlertRule[];
+  events: AlertEvent[];
+}
+
+const ALERT_METRICS: AlertMetric[] = ['score', 'bearishShare', 'bullishShare', 'volumeChange'];
+const MAX_WINDOW_DAYS = 30;
+const MAX_EVENTS = 200;
+
+// Validate a create (all fields) or update (any subset) request body
+export function parseAlertRuleInput(body: any, partial: boolean): { input: AlertRuleInput } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const input: AlertRuleInput = {};
+  const has = (key: string) => body[key] !== undefined;
+
+  if (has('query') || !partial) {
+    if (typeof body.query !== 'string' || !body.query.trim()) return { error: 'query must be a ticker or sector' };
+    input.query = body.query.trim();
+  }
+  if (has('targetType')) {
+    if (body.targetType !== 'stock' && body.targetType !== 'sector') return { error: 'targetType must be stock or sector' };
+    input.targetType = body.targetType;
+  }
+  if (has('metric') || !partial) {
+    if (!ALERT_METRICS.includes(body.metric)) return { error: `metric must be one of: ${ALERT_METRICS.join(', ')}` };
+    input.metric = body.metric;
+  }
+  if (has('operator') || !partial) {
+    if (body.operator !== 'above' && body.operator !== 'below') return { error: 'operator must be above or below' };
+    input.operator = body.operator;
+  }
+  if (has('threshold') || !partial) {
+    if (typeof body.threshold !== 'number' || !Number.isFinite(body.threshold)) return { error: 'threshold must be a number' };
+    input.threshold = body.threshold;
+  }
+  if (has('windowDays')) {
+    if (!Number.isInteger(body.windowDays) || body.windowDays < 1 || body.windowDays > MAX_WINDOW_DAYS) {
+      return { error: `windowDays must be an integer from 1 to ${MAX_WINDOW_DAYS}` };
+    }
+    input.windowDays = body.windowDays;
+  }
+  if (has('name')) {
+    if (typeof body.name !== 'string') return { error: 'name must be a string' };
+    input.name = body.name.trim();
+  }
+  if (has('enabled')) {
+    if (typeof body.enabled !== 'boolean') return { error: 'enabled must be a boolean' };
+    input.enabled = body.enabled;
+  }
+
+  return { input };
+}
+
+// Rules and their triggered events in a single JSON file, with writes serialized
+export class AlertStore {
+  private readonly file: JsonFileStore<AlertData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(
+      filePath,
+      () => ({ rules: [], events: [] }),
+      (parsed): parsed is AlertData => Array.isArray(parsed?.rules) && Array.isArray(parsed?.events)
+    );
+  }
+
+  public async listRules(): Promise<AlertRule[]> {
+    return (await this.file.read()).rules;
+  }
+
+  // Newest first, optionally only those triggered after a timestamp
+  public async listEvents(since?: string): Promise<AlertEvent[]> {
+    const { events } = await this.file.read();
+    return events
+      .filter(event => !since || event.triggeredAt > since)
+      .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt));
+  }
+
+  public createRule(input: Required<Pick<AlertRuleInput, 'query' | 'metric' | 'operator' | 'threshold'>> & AlertRuleInput): Promise<AlertRule> {
+    return this.file.mutate(data => {
+      const now = new Date().toISOString();
+      const rule: AlertRule = {
+        id: randomUUID(),
+        name: input.name || '',
+        targetType: input.targetType || 'stock',
+        query: input.query,
+        metric: input.metric,
+        operator: input.operator,
+        threshold: input.threshold,
+        windowDays: input.windowDays || 1,
+        enabled: input.enabled ?? true,
+        createdAt: now,
+        updatedAt: now,
+        lastTriggeredAsOf: null
+      };
+      data.rules.push(rule);
+      return rule;
+    });
+  }
+
+  public updateRule(id: string, input: AlertRuleInput): Promise<AlertRule | null> {
+    return this.file.mutate(data => {
+      const rule = data.rules.find(item => item.id === id);
+      if (!rule) return null;
+
+      Object.assign(rule, Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)));
+      // A changed condition should be able to fire again for the same data
+      rule.lastTriggeredAsOf = null;
+      rule.updatedAt = new Date().toISOString();
+      return rule;
+    });
+  }
+
+  public deleteRule(id: string): Promise<boolean> {
+    return this.file.mutate(data => {
+      const index = data.rules.findIndex(item => item.id === id);
+      if (index === -1) return false;
+      data.rules.splice(index, 1);
+      return true;
+    });
+  }
+
+  // Append triggered events and remember which data date each rule fired for
+  public recordEvents(events: AlertEvent[]): Promise<void> {
+    return this.file.mutate(data => {
+      events.forEach(event => {
+        const rule = data.rules.find(item => item.id === event.ruleId);
+        if (rule) rule.lastTriggeredAsOf = event.asOf;
+      });
+      data.events = data.events.concat(events).slice(-MAX_EVENTS);
+    });
+  }
+}
+
+export function getAlertsFile(): string {
+  return process.env.ALERTS_FILE
+    ? path.resolve(process.env.ALERTS_FILE)
+    : path.join(process.cwd(), 'data', 'alerts.json');
+}
+
+let sharedStore: AlertStore | null = null;
+
+export function getAlertStore(): AlertStore {
+  if (!sharedStore) {
+    sharedStore = new AlertStore(getAlertsFile());
+  }
+  return sharedStore;
+}
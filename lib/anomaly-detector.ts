@@ -0,0 +1,213 @@
+// lib/anomaly-detector.ts
+import type { SentimentAnalyzer, SentimentTimeSeriesPoint } from './sentiment-utils';
+
+export type AnomalyKind = 'volume-spike' | 'sentiment-reversal';
+
+export interface AnomalyOptions {
+  type: 'stock' | 'sector';
+  query?: string; // only this ticker or sector
+  date?: string; // YYYY-MM-DD, last day to check; defaults to the latest day with news
+  days: number; // how many days up to date to check
+  windowDays: number; // rolling baseline length before each checked day
+  zThreshold: number;
+  minArticles: number; // fewer articles on a day are never flagged
+  limit: number;
+}
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  type: 'stock' | 'sector';
+  entity: string;
+  date: string;
+  value: number; // article count or sentiment score on the day
+  baselineMean: number;
+  baselineStd: number;
+  zScore: number;
+  articleCount: number;
+  message: string;
+  headlines: Array<{ id: string; title: string; score: number }>;
+}
+
+export interface AnomalyReport {
+  type: 'stock' | 'sector';
+  from: string | null; // checked days
+  to: string | null;
+  windowDays: number;
+  zThreshold: number;
+  anomalies: Anomaly[];
+}
+
+const DATE_PATTERN = /^(\d{4})-?(\d{2})-?(\d{2})$/;
+// Entities with less coverage than this have no meaningful baseline
+const MIN_ENTITY_ARTICLES = 10;
+// Days with coverage needed in the window before a sentiment move counts
+const MIN_BASELINE_DAYS = 5;
+// Floor on the score spread so a very stable baseline does not flag tiny moves
+const MIN_SCORE_STD = 0.05;
+// Smallest score move reported as a reversal, whatever its z-score
+const MIN_SCORE_SHIFT = 0.15;
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+function meanAndStd(values: number[]): { mean: number; std: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+// Validate detector parameters from a query string or tool call
+export function parseAnomalyOptions(params: Record<string, any>): { options: AnomalyOptions } | { error: string } {
+  const type = params.type ?? 'stock';
+  if (type !== 'stock' && type !== 'sector') return { error: 'type must be stock or sector' };
+
+  const numbers: Array<[Exclude<keyof AnomalyOptions, 'type' | 'query' | 'date'>, number, number, number, boolean]> = [
+    // key, default, min, max, integer
+    ['days', 1, 1, 31, true],
+    ['windowDays', 14, 3, 60, true],
+    ['zThreshold', 2.5, 1, 10, false],
+    ['minArticles', 3, 1, 1000, true],
+    ['limit', 20, 1, 100, true]
+  ];
+
+  const options: AnomalyOptions = { type, days: 1, windowDays: 14, zThreshold: 2.5, minArticles: 3, limit: 20 };
+  for (const [key, fallback, min, max, integer] of numbers) {
+    const value = params[key] === undefined || params[key] === '' ? fallback : Number(params[key]);
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      return { error: `${key} must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}` };
+    }
+    options[key] = value;
+  }
+
+  if (typeof params.query === 'string' && params.query.trim()) {
+    options.query = params.query.trim();
+  }
+  if (params.date !== undefined && params.date !== '') {
+    const match = typeof params.date === 'string' ? DATE_PATTERN.exec(params.date.trim()) : null;
+    if (!match) return { error: 'date must be YYYY-MM-DD' };
+    options.date = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  return { options };
+}
+
+/**
+ * Flag days where an entity's article volume or sentiment is far from its own
+ * rolling baseline. Volume is compared against every day of the window (days
+ * without news count as zero); sentiment only against days that had news.
+ */
+export function detectAnomalies(analyzer: SentimentAnalyzer, options: AnomalyOptions): AnomalyReport {
+  const to = options.date || analyzer.getLatestDate();
+  if (!to) {
+    return { type: options.type, from: null, to: null, windowDays: options.windowDays, zThreshold: options.zThreshold, anomalies: [] };
+  }
+  const from = addDays(to, -(options.days - 1));
+  const baselineStart = addDays(from, -options.windowDays);
+
+  // Share classes of one company resolve to the same primary ticker
+  const entities = options.query
+    ? [options.query]
+    : Array.from(new Set(analyzer.listEntities(options.type, MIN_ENTITY_ARTICLES).map(({ name }) =>
+      options.type === 'stock' ? analyzer.resolveTicker(name).primary || name : name)));
+
+  const anomalies: Anomaly[] = [];
+  entities.forEach(entity => {
+    const points = new Map<string, SentimentTimeSeriesPoint>(
+      analyzer
+        .getSentimentTimeSeries(entity, { type: options.type, from: baselineStart, to })
+        .map(point => [point.date, point])
+    );
+
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      const current = points.get(day);
+      if (!current || current.articleCount < options.minArticles) continue;
+
+      const window: Array<SentimentTimeSeriesPoint | undefined> = [];
+      for (let offset = options.windowDays; offset >= 1; offset--) {
+        window.push(points.get(addDays(day, -offset)));
+      }
+
+      const volume = meanAndStd(window.map(point => point?.articleCount || 0));
+      // Counts behave roughly like a Poisson process, so never trust a spread below sqrt(mean)
+      const volumeStd = Math.max(volume.std, Math.sqrt(volume.mean), 1);
+      const volumeZ = (current.articleCount - volume.mean) / volumeStd;
+      if (volumeZ >= options.zThreshold) {
+        const ratio = volume.mean > 0 ? `${(current.articleCount / volume.mean).toFixed(1)}x` : 'far above';
+        anomalies.push({
+          kind: 'volume-spike',
+          type: options.type,
+          entity,
+          date: day,
+          value: current.articleCount,
+          baselineMean: volume.mean,
+          baselineStd: volumeStd,
+          zScore: volumeZ,
+          articleCount: current.articleCount,
+          message: `${entity} had ${current.articleCount} articles on ${day}, ${ratio} its ${options.windowDays}-day average of ${volume.mean.toFixed(1)} (z = ${volumeZ.toFixed(1)})`,
+          headlines: []
+        });
+      }
+
+      const covered = window.filter((point): point is SentimentTimeSeriesPoint => !!point && point.articleCount > 0);
+      if (covered.length < MIN_BASELINE_DAYS) continue;
+
+      const scores = meanAndStd(covered.map(point => point.weightedScore));
+      const scoreStd = Math.max(scores.std, MIN_SCORE_STD);
+      const shift = current.weightedScore - scores.mean;
+      const scoreZ = shift / scoreStd;
+      if (Math.abs(scoreZ) >= options.zThreshold && Math.abs(shift) >= MIN_SCORE_SHIFT) {
+        anomalies.push({
+          kind: 'sentiment-reversal',
+          type: options.type,
+          entity,
+          date: day,
+          value: current.weightedScore,
+          baselineMean: scores.mean,
+          baselineStd: scoreStd,
+          zScore: scoreZ,
+          articleCount: current.articleCount,
+          message: `${entity} sentiment ${shift < 0 ? 'fell' : 'jumped'} to ${current.weightedScore.toFixed(3)} on ${day} from a ${options.windowDays}-day baseline of ${scores.mean.toFixed(3)} (z = ${scoreZ.toFixed(1)}, ${current.articleCount} articles)`,
+          headlines: []
+        });
+      }
+    }
+  });
+
+  const strongest = anomalies
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore) || b.date.localeCompare(a.date))
+    .slice(0, options.limit);
+
+  // Headlines behind each flagged day, most relevant to the entity first
+  strongest.forEach(anomaly => {
+    const tickers = options.type === 'stock' ? new Set(analyzer.resolveTicker(anomaly.entity).tickers) : null;
+    const topic = anomaly.entity.toLowerCase();
+    anomaly.headlines = analyzer.getDataByDate(anomaly.date.replace(/-/g, ''))
+      .map(article => {
+        const entries = tickers
+          ? article.tickerSentiment.filter(entry => tickers.has(entry.ticker.toUpperCase()))
+          : [];
+        const matches = tickers
+          ? entries.length > 0
+          : article.entities.sectors.some(sector => sector.toLowerCase().includes(topic));
+        const relevance = entries.reduce((max, entry) => Math.max(max, entry.relevance), 0);
+        const score = entries.length > 0 ? entries[0].score : article.sentiment.score;
+        return { article, matches, relevance, score };
+      })
+      .filter(({ matches }) => matches)
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, 3)
+      .map(({ article, score }) => ({ id: article.id, title: article.title, score: Number(score.toFixed(3)) }));
+  });
+
+  return {
+    type: options.type,
+    from,
+    to,
+    windowDays: options.windowDays,
+    zThreshold: options.zThreshold,
+    anomalies: strongest
+  };
+}
@@ -0,0 +1,225 @@
+// lib/backtest.ts
+import type { SentimentAnalyzer } from './sentiment-utils';
+import type { PriceBar, PriceSeries } from './price-data';
+
+export type BacktestMode = 'long' | 'long-short';
+
+export interface BacktestOptions {
+  query: string;
+  mode: BacktestMode;
+  threshold: number; // |score| needed for a signal
+  holdDays: number; // trading days a position is held in the equity curve
+  minArticles: number; // fewer articles than this on a day produce no signal
+  from?: string; // YYYY-MM-DD
+  to?: string;
+}
+
+export const FORWARD_HORIZONS = [1, 5, 10];
+
+// A sentiment signal and what the price did after it was entered
+export interface BacktestSignal {
+  date: string; // trading day the position is entered, at its close
+  newsDates: string[]; // news days that fed the signal
+  direction: 'long' | 'short';
+  score: number;
+  articleCount: number;
+  entryPrice: number;
+  forwardReturns: Record<number, number | null>; // raw price return per horizon, null past the data
+}
+
+export interface BacktestHorizonStats {
+  days: number;
+  signalCount: number; // signals with enough price data for this horizon
+  hitRate: number | null; // share moving in the signal's direction
+  averageReturn: number | null; // mean return in the signal's direction
+}
+
+export interface EquityPoint {
+  date: string;
+  strategy: number; // growth of 1 invested in the strategy
+  buyAndHold: number;
+  position: -1 | 0 | 1;
+}
+
+export interface BacktestResult {
+  query: string;
+  ticker: string;
+  priceFile: string;
+  options: BacktestOptions;
+  from: string | null; // first and last price day used
+  to: string | null;
+  signals: BacktestSignal[];
+  horizons: BacktestHorizonStats[];
+  equityCurve: EquityPoint[];
+  totalReturn: number;
+  buyAndHoldReturn: number;
+  maxDrawdown: number;
+  exposure: number; // share of days with an open position
+}
+
+const DATE_PATTERN = /^(\d{4})-?(\d{2})-?(\d{2})$/;
+const MAX_HOLD_DAYS = 30;
+
+function normalizeDay(value: string): string | null {
+  const match = DATE_PATTERN.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// Validate backtest parameters from a query string or JSON body
+export function parseBacktestOptions(params: Record<string, any>): { options: BacktestOptions } | { error: string } {
+  const query = typeof params.query === 'string' ? params.query.trim() : '';
+  if (!query) return { error: 'query must be a ticker or company name' };
+
+  const mode = params.mode ?? 'long-short';
+  if (mode !== 'long' && mode !== 'long-short') return { error: 'mode must be long or long-short' };
+
+  const threshold = params.threshold === undefined ? 0.15 : Number(params.threshold);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold >= 1) {
+    return { error: 'threshold must be a number from 0 to 1' };
+  }
+
+  const holdDays = params.holdDays === undefined ? 5 : Number(params.holdDays);
+  if (!Number.isInteger(holdDays) || holdDays < 1 || holdDays > MAX_HOLD_DAYS) {
+    return { error: `holdDays must be an integer from 1 to ${MAX_HOLD_DAYS}` };
+  }
+
+  const minArticles = params.minArticles === undefined ? 1 : Number(params.minArticles);
+  if (!Number.isInteger(minArticles) || minArticles < 1) {
+    return { error: 'minArticles must be a positive integer' };
+  }
+
+  const options: BacktestOptions = { query, mode, threshold, holdDays, minArticles };
+  for (const key of ['from', 'to'] as const) {
+    if (params[key] === undefined || params[key] === '') continue;
+    const day = typeof params[key] === 'string' ? normalizeDay(params[key]) : null;
+    if (!day) return { error: `${key} must be a date (YYYY-MM-DD)` };
+    options[key] = day;
+  }
+
+  return { options };
+}
+
+// Index of the first bar strictly after a day, or -1
+function findEntryIndex(bars: PriceBar[], day: string): number {
+  let low = 0;
+  let high = bars.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (bars[middle].date <= day) low = middle + 1;
+    else high = middle;
+  }
+  return low < bars.length ? low : -1;
+}
+
+/**
+ * Backtest daily ticker sentiment against prices. News from a day is only
+ * acted on at the close of the next trading day, so no price the market had
+ * already set before the news was known is used. Forward returns and the
+ * equity curve are close to close.
+ */
+export function runBacktest(
+  analyzer: SentimentAnalyzer,
+  prices: PriceSeries,
+  options: BacktestOptions
+): BacktestResult {
+  const bars = prices.bars.filter(bar =>
+    (!options.from || bar.date >= options.from) && (!options.to || bar.date <= options.to));
+
+  // Combine the news days that map to the same entry bar (e.g. a weekend)
+  const entries = new Map<number, { scoreSum: number; articleCount: number; newsDates: string[] }>();
+  analyzer
+    .getSentimentTimeSeries(options.query, { type: 'stock', interval: 'day', from: options.from, to: options.to })
+    .forEach(point => {
+      const index = findEntryIndex(bars, point.date);
+      if (index === -1 || point.articleCount === 0) return;
+      const entry = entries.get(index) || { scoreSum: 0, articleCount: 0, newsDates: [] };
+      entry.scoreSum += point.weightedScore * point.articleCount;
+      entry.articleCount += point.articleCount;
+      entry.newsDates.push(point.date);
+      entries.set(index, entry);
+    });
+
+  const signalsByIndex = new Map<number, BacktestSignal>();
+  Array.from(entries.entries())
+    .sort(([a], [b]) => a - b)
+    .forEach(([index, entry]) => {
+      if (entry.articleCount < options.minArticles) return;
+      const score = entry.scoreSum / entry.articleCount;
+      const direction = score >= options.threshold ? 'long'
+        : score <= -options.threshold && options.mode === 'long-short' ? 'short'
+        : null;
+      if (!direction) return;
+
+      const entryPrice = bars[index].close;
+      const forwardReturns: Record<number, number | null> = {};
+      FORWARD_HORIZONS.forEach(days => {
+        const exit = bars[index + days];
+        forwardReturns[days] = exit ? exit.close / entryPrice - 1 : null;
+      });
+
+      signalsByIndex.set(index, {
+        date: bars[index].date,
+        newsDates: entry.newsDates,
+        direction,
+        score,
+        articleCount: entry.articleCount,
+        entryPrice,
+        forwardReturns
+      });
+    });
+  const signals = Array.from(signalsByIndex.values());
+
+  const horizons = FORWARD_HORIZONS.map(days => {
+    const returns = signals
+      .filter(signal => signal.forwardReturns[days] !== null)
+      .map(signal => (signal.direction === 'long' ? 1 : -1) * (signal.forwardReturns[days] as number));
+    return {
+      days,
+      signalCount: returns.length,
+      hitRate: returns.length > 0 ? returns.filter(value => value > 0).length / returns.length : null,
+      averageReturn: returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null
+    };
+  });
+
+  // Each signal opens a position at its entry close and holds it for holdDays
+  // trading days; a newer signal replaces the open one
+  const equityCurve: EquityPoint[] = [];
+  let strategy = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  let exposedDays = 0;
+  let active: { index: number; position: -1 | 1 } | null = null;
+
+  bars.forEach((bar, i) => {
+    let position: -1 | 0 | 1 = 0;
+    if (i > 0) {
+      const signal = signalsByIndex.get(i - 1);
+      if (signal) active = { index: i - 1, position: signal.direction === 'long' ? 1 : -1 };
+      if (active && i - 1 - active.index >= options.holdDays) active = null;
+
+      position = active ? active.position : 0;
+      strategy *= 1 + position * (bar.close / bars[i - 1].close - 1);
+      if (position !== 0) exposedDays += 1;
+    }
+
+    peak = Math.max(peak, strategy);
+    maxDrawdown = Math.max(maxDrawdown, 1 - strategy / peak);
+    equityCurve.push({ date: bar.date, strategy, buyAndHold: bar.close / bars[0].close, position });
+  });
+
+  return {
+    query: options.query,
+    ticker: prices.ticker,
+    priceFile: prices.file,
+    options,
+    from: bars[0]?.date || null,
+    to: bars[bars.length - 1]?.date || null,
+    signals,
+    horizons,
+    equityCurve,
+    totalReturn: strategy - 1,
+    buyAndHoldReturn: bars.length > 0 ? bars[bars.length - 1].close / bars[0].close - 1 : 0,
+    maxDrawdown,
+    exposure: bars.length > 1 ? exposedDays / (bars.length - 1) : 0
+  };
+}
@@ -0,0 +1,97 @@
+// lib/chat-attachments.ts
+
+// Files one chat message may carry
+export const MAX_CHAT_ATTACHMENTS = 5;
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const CSV_MIME_TYPE = 'text/csv';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Browsers often leave File.type empty for CSV and XLSX; fall back to the extension
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: PDF_MIME_TYPE,
+  csv: CSV_MIME_TYPE,
+  xlsx: XLSX_MIME_TYPE
+};
+
+export function getFileMimeType(file: { name: string; type: string }): string {
+  if (file.type && file.type !== 'application/octet-stream') return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_MIME_TYPES[extension] || file.type;
+}
+
+// CSV and XLSX files are parsed on our server instead of being sent to Gemini
+export function isTabularMimeType(mimeType: string): boolean {
+  return mimeType === CSV_MIME_TYPE || mimeType === XLSX_MIME_TYPE;
+}
+
+// First rows of each table, for previews
+export interface TablePreview {
+  name: string;
+  columns: string[];
+  rows: Array<Array<string | number | null>>;
+  rowCount: number;
+}
+
+export interface AttachmentTranscription {
+  text: string;
+  language?: string;
+  duration?: number;
+}
+
+// One attached file as the client sends it with a chat message
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  uri?: string; // Gemini file URI
+  documentId?: string; // parsed CSV or XLSX in the document store
+  imageDataUrl?: string; // inline image for providers that cannot read Gemini URIs
+  transcription?: AttachmentTranscription;
+}
+
+// image, audio, video, pdf or table
+export function getAttachmentKind(mimeType: string): string {
+  if (mimeType === PDF_MIME_TYPE) return 'pdf';
+  if (isTabularMimeType(mimeType)) return 'table';
+  return mimeType.split('/')[0];
+}
+
+function parseAttachment(value: any): ChatAttachment | null {
+  if (!value || typeof value !== 'object' || typeof value.mimeType !== 'string' || !value.mimeType) return null;
+  return {
+    name: typeof value.name === 'string' ? value.name : '',
+    mimeType: value.mimeType,
+    uri: typeof value.uri === 'string' && value.uri ? value.uri : undefined,
+    documentId: typeof value.documentId === 'string' && value.documentId ? value.documentId : undefined,
+    imageDataUrl: typeof value.imageDataUrl === 'string' && value.imageDataUrl ? value.imageDataUrl : undefined,
+    transcription: typeof value.transcription?.text === 'string' ? value.transcription : undefined
+  };
+}
+
+/**
+ * Attachments from a chat request body: the `attachments` array, or the
+ * single-file fields (fileUri, fileMimeType, ...) older clients send.
+ */
+export function parseChatAttachments(body: any): { attachments: ChatAttachment[] } | { error: string } {
+  if (body.attachments === undefined) {
+    if (!body.fileMimeType) return { attachments: [] };
+    const legacy = parseAttachment({
+      name: body.fileName,
+      mimeType: body.fileMimeType,
+      uri: body.fileUri,
+      imageDataUrl: body.imageDataUrl,
+      transcription: body.transcription
+    });
+    return { attachments: legacy ? [legacy] : [] };
+  }
+
+  if (!Array.isArray(body.attachments)) return { error: 'attachments must be an array' };
+  if (body.attachments.length > MAX_CHAT_ATTACHMENTS) {
+    return { error: `A message can carry at most ${MAX_CHAT_ATTACHMENTS} attachments` };
+  }
+  const attachments = body.attachments.map(parseAttachment);
+  if (attachments.some((attachment: ChatAttachment | null) => !attachment)) {
+    return { error: 'Every attachment needs a mimeType' };
+  }
+  return { attachments };
+}
@@ -0,0 +1,138 @@
+// lib/chat-models.ts
+import { isMockMode } from './mock-ai';
+
+export type ChatProviderId = 'gemini' | 'openai' | 'openai-compatible';
+
+// Input the model understands natively; tools means function calling
+export interface ChatModelCapabilities {
+  vision: boolean;
+  audio: boolean;
+  video: boolean;
+  documents: boolean; // PDFs; CSV and XLSX are parsed for every model
+  tools: boolean;
+}
+
+export interface ChatModelInfo {
+  id: string;
+  label: string;
+  provider: ChatProviderId;
+  capabilities: ChatModelCapabilities;
+  contextWindow: number; // input tokens
+  maxOutputTokens: number;
+  videoOutputTokens?: number; // longer replies for video analysis
+  available: boolean; // false when the provider has no credentials configured
+}
+
+type ModelDefinition = Omit<ChatModelInfo, 'available'>;
+
+export const DEFAULT_CHAT_MODEL = 'gemini-2.5-flash-preview-05-20';
+
+const GEMINI_CAPABILITIES: ChatModelCapabilities = { vision: true, audio: true, video: true, documents: true, tools: true };
+const OPENAI_CAPABILITIES: ChatModelCapabilities = { vision: true, audio: false, video: false, documents: false, tools: true };
+
+const BUILT_IN_MODELS: ModelDefinition[] = [
+  {
+    id: 'gemini-2.5-pro-preview-05-06',
+    label: 'Gemini 2.5 Pro',
+    provider: 'gemini',
+    capabilities: GEMINI_CAPABILITIES,
+    contextWindow: 1048576,
+    maxOutputTokens: 4096,
+    videoOutputTokens: 8192
+  },
+  {
+    id: 'gemini-2.5-flash-preview-05-20',
+    label: 'Gemini 2.5 Flash',
+    provider: 'gemini',
+    capabilities: GEMINI_CAPABILITIES,
+    contextWindow: 1048576,
+    maxOutputTokens: 4096,
+    videoOutputTokens: 8192
+  },
+  {
+    id: 'gemini-2.0-flash-exp',
+    label: 'Gemini 2.0 Flash',
+    provider: 'gemini',
+    capabilities: GEMINI_CAPABILITIES,
+    contextWindow: 1048576,
+    maxOutputTokens: 4096,
+    videoOutputTokens: 8192
+  },
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    provider: 'openai',
+    capabilities: OPENAI_CAPABILITIES,
+    contextWindow: 128000,
+    maxOutputTokens: 4096
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o Mini',
+    provider: 'openai',
+    capabilities: OPENAI_CAPABILITIES,
+    contextWindow: 128000,
+    maxOutputTokens: 4096
+  }
+];
+
+// Defaults for local models, which vary too much to describe individually
+const DEFAULT_COMPATIBLE_CONTEXT = 8192;
+const DEFAULT_COMPATIBLE_OUTPUT_TOKENS = 2048;
+
+function parsePositiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Base URL of an OpenAI-compatible server such as Ollama, e.g. http://localhost:11434/v1
+export function getCompatibleBaseUrl(): string | null {
+  return process.env.OPENAI_COMPATIBLE_BASE_URL?.trim() || null;
+}
+
+// Models served by the OpenAI-compatible endpoint, from OPENAI_COMPATIBLE_MODELS
+function getCompatibleModels(): ModelDefinition[] {
+  const contextWindow = parsePositiveInteger(process.env.OPENAI_COMPATIBLE_CONTEXT, DEFAULT_COMPATIBLE_CONTEXT);
+  // Many small local models do not support function calling reliably
+  const tools = process.env.OPENAI_COMPATIBLE_TOOLS !== 'false';
+
+  return (process.env.OPENAI_COMPATIBLE_MODELS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .map(id => ({
+      id,
+      label: id,
+      provider: 'openai-compatible' as const,
+      capabilities: { vision: false, audio: false, video: false, documents: false, tools },
+      contextWindow,
+      maxOutputTokens: Math.min(DEFAULT_COMPATIBLE_OUTPUT_TOKENS, Math.floor(contextWindow / 2))
+    }));
+}
+
+function isProviderConfigured(provider: ChatProviderId): boolean {
+  // The mock provider answers for every model
+  if (isMockMode()) return true;
+  if (provider === 'gemini') return !!process.env.GEMINI_API_KEY;
+  if (provider === 'openai') return !!process.env.OPENAI_API_KEY;
+  return !!getCompatibleBaseUrl();
+}
+
+// Every known chat model, with whether its provider is configured here
+export function listChatModels(): ChatModelInfo[] {
+  return [...BUILT_IN_MODELS, ...getCompatibleModels()].map(model => ({
+    ...model,
+    available: isProviderConfigured(model.provider)
+  }));
+}
+
+export function getChatModel(id: string): ChatModelInfo | undefined {
+  return listChatModels().find(model => model.id === id);
+}
+
+// Environment variable that enables a provider, for error messages
+export function getProviderRequirement(provider: ChatProviderId): string {
+  if (provider === 'gemini') return 'GEMINI_API_KEY';
+  if (provider === 'openai') return 'OPENAI_API_KEY';
+  return 'OPENAI_COMPATIBLE_BASE_URL';
+}
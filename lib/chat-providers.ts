@@ -0,0 +1,331 @@
+// lib/chat-providers.ts
+import {
+  GoogleGenerativeAI,
+  type ChatSession as GeminiChat,
+  type EnhancedGenerateContentResponse,
+  type FunctionDeclaration,
+  type Part,
+  type UsageMetadata
+} from '@google/generative-ai';
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import { getCompatibleBaseUrl, type ChatModelInfo } from './chat-models';
+import type { ChatFinishReason, ChatUsage } from './chat-stream';
+import { estimateTokens } from './context-window';
+import { getAttachmentKind } from './chat-attachments';
+import {
+  composeMockReply,
+  composeMockToolReply,
+  getMockStreamDelay,
+  isMockMode,
+  planMockToolCall,
+  splitIntoChunks
+} from './mock-ai';
+
+// A prior message, already fitted into the context window
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// The message being sent. Gemini reads uploaded files by URI; other
+// providers only get images, inlined as data URLs.
+export interface ChatUserInput {
+  text: string;
+  files?: Array<{ uri: string; mimeType: string }>;
+  imageDataUrls?: string[];
+}
+
+export interface ChatToolCall {
+  id: string | null; // provider id, echoed back with the result
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ChatToolResult {
+  id: string | null;
+  name: string;
+  result: object;
+}
+
+// What one streamed chunk contributed to the reply
+export interface ChatStreamChunk {
+  text: string;
+  toolCalls: ChatToolCall[];
+  finishReason: ChatFinishReason | null;
+  providerReason: string | null; // the provider's own finish or block reason
+  usage: ChatUsage | null; // totals for the call so far
+}
+
+export interface ChatSessionOptions {
+  model: ChatModelInfo;
+  systemInstruction: string;
+  history: ChatHistoryMessage[];
+  tools: FunctionDeclaration[];
+  maxOutputTokens: number;
+}
+
+// A conversation with one provider: send the user message, then tool results
+export interface ChatSession {
+  send(input: ChatUserInput | ChatToolResult[]): AsyncIterable<ChatStreamChunk>;
+}
+
+const TEMPERATURE = 0.7;
+
+// Gemini finish and block reasons, mapped onto the AI SDK's
+const GEMINI_FINISH_REASONS: Record<string, ChatFinishReason> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content-filter',
+  RECITATION: 'content-filter',
+  BLOCKLIST: 'content-filter',
+  PROHIBITED_CONTENT: 'content-filter',
+  SPII: 'content-filter',
+  LANGUAGE: 'other',
+  MALFORMED_FUNCTION_CALL: 'error',
+  OTHER: 'other'
+};
+
+const OPENAI_FINISH_REASONS: Record<string, ChatFinishReason> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'content-filter',
+  tool_calls: 'tool-calls',
+  function_call: 'tool-calls'
+};
+
+function toGeminiUsage(metadata: UsageMetadata): ChatUsage {
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    completionTokens: metadata.candidatesTokenCount || 0
+  };
+}
+
+// Unlike chunk.text() this never throws on blocked responses; the block shows
+// up as the finish reason instead
+function readGeminiChunk(chunk: EnhancedGenerateContentResponse): ChatStreamChunk {
+  const candidate = chunk.candidates?.[0];
+  const parts = candidate?.content?.parts || [];
+  // A blocked prompt has no candidates, only the block reason
+  const providerReason = chunk.promptFeedback?.blockReason || candidate?.finishReason || null;
+  return {
+    text: parts.map(part => part.text || '').join(''),
+    toolCalls: parts.flatMap(part => part.functionCall
+      ? [{ id: null, name: part.functionCall.name, args: (part.functionCall.args || {}) as Record<string, any> }]
+      : []),
+    finishReason: providerReason ? GEMINI_FINISH_REASONS[providerReason] || 'unknown' : null,
+    providerReason,
+    usage: chunk.usageMetadata ? toGeminiUsage(chunk.usageMetadata) : null
+  };
+}
+
+class GeminiChatSession implements ChatSession {
+  private chat: GeminiChat;
+
+  constructor(options: ChatSessionOptions) {
+    const model = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '').getGenerativeModel({
+      model: options.model.id,
+      systemInstruction: options.systemInstruction,
+      ...(options.tools.length > 0 && { tools: [{ functionDeclarations: options.tools }] })
+    });
+    this.chat = model.startChat({
+      history: options.history.map(message => ({
+        role: message.role === 'user' ? 'user' : 'model',
+        parts: [{ text: message.content }]
+      })),
+      generationConfig: {
+        temperature: TEMPERATURE,
+        topK: 1,
+        topP: 1,
+        maxOutputTokens: options.maxOutputTokens
+      }
+    });
+  }
+
+  async *send(input: ChatUserInput | ChatToolResult[]): AsyncIterable<ChatStreamChunk> {
+    const parts: Part[] = Array.isArray(input)
+      ? input.map(({ name, result }) => ({ functionResponse: { name, response: result } }))
+      : [
+          ...(input.files || []).map(file => ({ fileData: { mimeType: file.mimeType, fileUri: file.uri } })),
+          { text: input.text }
+        ];
+
+    const result = await this.chat.sendMessageStream(parts);
+    for await (const chunk of result.stream) {
+      yield readGeminiChunk(chunk);
+    }
+  }
+}
+
+// OpenAI and OpenAI-compatible servers; the transcript is kept here since the API is stateless
+class OpenAIChatSession implements ChatSession {
+  private client: OpenAI;
+  private messages: ChatCompletionMessageParam[];
+  private tools: ChatCompletionTool[];
+
+  constructor(private readonly options: ChatSessionOptions) {
+    this.client = options.model.provider === 'openai'
+      ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY || '' })
+      : new OpenAI({
+          baseURL: getCompatibleBaseUrl() || undefined,
+          // Ollama ignores the key, but the client requires one
+          apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'ollama'
+        });
+    this.messages = [
+      { role: 'system', content: options.systemInstruction },
+      ...options.history.map(message => ({ role: message.role, content: message.content }))
+    ];
+    // Gemini declarations use lower-case JSON Schema types, so they pass through as is
+    this.tools = options.tools.map(declaration => ({
+      type: 'function',
+      function: {
+        name: declaration.name,
+        description: declaration.description,
+        parameters: (declaration.parameters || { type: 'object', properties: {} }) as Record<string, unknown>
+      }
+    }));
+  }
+
+  async *send(input: ChatUserInput | ChatToolResult[]): AsyncIterable<ChatStreamChunk> {
+    if (Array.isArray(input)) {
+      input.forEach(({ id, result }) => {
+        this.messages.push({ role: 'tool', tool_call_id: id || '', content: JSON.stringify(result) });
+      });
+    } else {
+      this.messages.push({
+        role: 'user',
+        content: input.imageDataUrls?.length
+          ? [
+              { type: 'text', text: input.text },
+              ...input.imageDataUrls.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+            ]
+          : input.text
+      });
+    }
+
+    const stream = await this.client.chat.completions.create({
+      model: this.options.model.id,
+      messages: this.messages,
+      ...(this.tools.length > 0 && { tools: this.tools }),
+      max_tokens: this.options.maxOutputTokens,
+      temperature: TEMPERATURE,
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    // Tool call names and arguments arrive in fragments, keyed by index
+    const pending: Array<{ id: string; name: string; arguments: string }> = [];
+    let text = '';
+    let providerReason: string | null = null;
+    let usage: ChatUsage | null = null;
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content || '';
+      (choice?.delta?.tool_calls || []).forEach(fragment => {
+        const call = pending[fragment.index] || (pending[fragment.index] = { id: '', name: '', arguments: '' });
+        call.id = fragment.id || call.id;
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+      });
+      providerReason = choice?.finish_reason || providerReason;
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+
+      if (delta) {
+        text += delta;
+        yield { text: delta, toolCalls: [], finishReason: null, providerReason: null, usage: null };
+      }
+    }
+
+    const toolCalls = pending.filter(Boolean).map(call => ({
+      id: call.id,
+      name: call.name,
+      args: parseToolArguments(call.arguments)
+    }));
+    this.messages.push({
+      role: 'assistant',
+      content: text || null,
+      ...(toolCalls.length > 0 && {
+        tool_calls: pending.filter(Boolean).map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      })
+    });
+
+    yield {
+      text: '',
+      toolCalls,
+      finishReason: providerReason ? OPENAI_FINISH_REASONS[providerReason] || 'unknown' : null,
+      providerReason,
+      usage
+    };
+  }
+}
+
+// Malformed arguments reach the tool as no arguments, which it reports back to the model
+function parseToolArguments(value: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Canned replies for AI_PROVIDER=mock: one tool round for ticker or market questions, then text
+class MockChatSession implements ChatSession {
+  private promptTokens: number;
+
+  constructor(private readonly options: ChatSessionOptions) {
+    this.promptTokens = estimateTokens(options.systemInstruction + options.history.map(message => message.content).join('\n'));
+  }
+
+  async *send(input: ChatUserInput | ChatToolResult[]): AsyncIterable<ChatStreamChunk> {
+    let reply: string;
+    if (Array.isArray(input)) {
+      reply = composeMockToolReply(input);
+      this.promptTokens += estimateTokens(JSON.stringify(input));
+    } else {
+      this.promptTokens += estimateTokens(input.text);
+      const toolCall = planMockToolCall(input.text, this.options.tools.map(tool => tool.name));
+      if (toolCall) {
+        yield {
+          text: '',
+          toolCalls: [{ id: null, ...toolCall }],
+          finishReason: 'stop',
+          providerReason: 'MOCK',
+          usage: { promptTokens: this.promptTokens, completionTokens: 0 }
+        };
+        return;
+      }
+      reply = composeMockReply(input.text, [
+        ...(input.files || []).map(file => getAttachmentKind(file.mimeType)),
+        ...(input.imageDataUrls || []).map(() => 'image')
+      ]);
+    }
+
+    const delay = getMockStreamDelay();
+    for (const chunk of splitIntoChunks(reply)) {
+      if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+      yield { text: chunk, toolCalls: [], finishReason: null, providerReason: null, usage: null };
+    }
+    yield {
+      text: '',
+      toolCalls: [],
+      finishReason: 'stop',
+      providerReason: 'MOCK',
+      usage: { promptTokens: this.promptTokens, completionTokens: estimateTokens(reply) }
+    };
+  }
+}
+
+export function createChatSession(options: ChatSessionOptions): ChatSession {
+  if (isMockMode()) return new MockChatSession(options);
+  return options.model.provider === 'gemini'
+    ? new GeminiChatSession(options)
+    : new OpenAIChatSession(options);
+}
@@ -0,0 +1,86 @@
+// lib/chat-stream.ts
+import { formatDataStreamPart, type DataStreamWriter, type JSONValue } from 'ai';
+import type { ArticleCitation } from './sentiment-utils';
+import type { ContextBudget } from './context-window';
+
+// Finish reasons as the AI SDK reports them to useChat
+export type ChatFinishReason = 'stop' | 'length' | 'content-filter' | 'tool-calls' | 'error' | 'other' | 'unknown';
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Message annotations sent by /api/chat and rendered by ChatMessage
+export type ChatAnnotation =
+  | { type: 'citations'; citations: ArticleCitation[] }
+  | ({ type: 'context' } & ContextBudget)
+  | { type: 'usage'; promptTokens: number; completionTokens: number; totalTokens: number }
+  | { type: 'finish'; finishReason: ChatFinishReason; providerReason: string | null; message: string | null }
+  | {
+      type: 'sentiment-context';
+      asOf: string | null; // replay cutoff, if any
+      tools: Array<{ name: string; args: Record<string, any> }>;
+      anomalies: boolean; // whether detector findings were added to the prompt
+      snapshot?: boolean; // whether a sentiment snapshot was added for a model without tools
+      portfolio?: boolean; // whether the imported portfolio was added to the prompt
+    }
+  | {
+      type: 'attachments';
+      files: Array<{ name: string | null; mimeType: string; transcribed: boolean }>;
+    };
+
+// The annotation of the given type on a message, if the route sent one
+export function findAnnotation<T extends ChatAnnotation['type']>(
+  annotations: unknown[] | undefined,
+  type: T
+): Extract<ChatAnnotation, { type: T }> | undefined {
+  return annotations?.find((item: any) => item && item.type === type) as Extract<ChatAnnotation, { type: T }> | undefined;
+}
+
+const FINISH_MESSAGES: Partial<Record<ChatFinishReason, string>> = {
+  length: 'The response was cut off because it reached the maximum length.',
+  'content-filter': 'The response was stopped by the model\'s safety filters.',
+  error: 'The model returned a malformed response.',
+  'tool-calls': 'The response is incomplete: the assistant reached its limit of tool calls for one message. Try a narrower question.'
+};
+
+export function getFinishMessage(reason: ChatFinishReason): string | null {
+  return FINISH_MESSAGES[reason] || null;
+}
+
+export function writeText(dataStream: DataStreamWriter, text: string) {
+  dataStream.write(formatDataStreamPart('text', text));
+}
+
+export function writeAnnotation(dataStream: DataStreamWriter, annotation: ChatAnnotation) {
+  // Annotations are plain JSON; the interfaces inside just are not typed as JSONValue
+  dataStream.writeMessageAnnotation(annotation as unknown as JSONValue);
+}
+
+export function writeToolCall(dataStream: DataStreamWriter, toolCallId: string, toolName: string, args: object) {
+  dataStream.write(formatDataStreamPart('tool_call', { toolCallId, toolName, args }));
+}
+
+export function writeToolResult(dataStream: DataStreamWriter, toolCallId: string, result: object) {
+  dataStream.write(formatDataStreamPart('tool_result', { toolCallId, result }));
+}
+
+export function writeFinishStep(dataStream: DataStreamWriter, finishReason: ChatFinishReason, usage: ChatUsage) {
+  dataStream.write(formatDataStreamPart('finish_step', { finishReason, usage, isContinued: false }));
+}
+
+export function writeFinishMessage(dataStream: DataStreamWriter, finishReason: ChatFinishReason, usage: ChatUsage) {
+  dataStream.write(formatDataStreamPart('finish_message', { finishReason, usage }));
+}
+
+// A complete stream holding only an error part, for failures before streaming starts
+export function createErrorStreamResponse(message: string): Response {
+  return new Response(formatDataStreamPart('error', message), {
+    status: 200, // Keep 200 so useChat reads the error part
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'X-Vercel-AI-Data-Stream': 'v1'
+    }
+  });
+}
@@ -0,0 +1,223 @@
+// lib/context-window.ts
+import type { ChatHistoryMessage } from './chat-providers';
+
+// A prior chat message as the client sends it
+export interface HistoryMessage {
+  id?: string;
+  role: string;
+  content: string;
+}
+
+// An earlier attachment, kept in context after the file itself is gone
+export interface AttachmentContext {
+  name: string;
+  mimeType: string;
+  transcription?: string;
+  documentId?: string; // CSV or XLSX the model can still query
+}
+
+// Earlier attachments as the client sends them: a list, or one object from older clients
+export function parseAttachmentContext(value: any): AttachmentContext[] {
+  const items: any[] = Array.isArray(value) ? value : value ? [value] : [];
+  return items.filter(item => typeof item?.name === 'string' && item.name && typeof item.mimeType === 'string');
+}
+
+export interface ContextWindowOptions {
+  contextLimit: number; // the model's input window
+  history: HistoryMessage[]; // oldest first, without the message being sent
+  pinnedIds?: string[];
+  attachments?: AttachmentContext[]; // files on the newest earlier message that had any
+  fixedTokens: number; // system instruction, tools and the current message
+  maxOutputTokens: number; // requested reply length, reduced if the window is short
+}
+
+// Budget report sent to the client with every reply
+export interface ContextBudget {
+  contextLimit: number; // the model's input window
+  budgetTokens: number; // what this app allows per request
+  usedTokens: number; // estimated input tokens actually sent
+  fixedTokens: number;
+  historyTokens: number; // kept turns, summary and attachment context
+  maxOutputTokens: number;
+  keptMessages: number;
+  trimmedMessages: number;
+  pinnedMessages: number;
+  summarized: boolean;
+}
+
+export interface ContextWindow {
+  history: ChatHistoryMessage[];
+  // Summary and attachment notes for the model; when no history is kept the
+  // route sends it ahead of the current message instead
+  preamble: string | null;
+  budget: ContextBudget;
+}
+
+// A user message with the replies that follow it; trimmed and pinned as a unit
+interface Turn {
+  messages: HistoryMessage[];
+  tokens: number;
+  pinned: boolean;
+}
+
+// Per-request input budget; long sessions get slow well before the model limit
+const DEFAULT_TOKEN_BUDGET = 32000;
+// Role and framing overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Share of the budget the summary of trimmed turns and the attachment context may use
+const SUMMARY_SHARE = 0.1;
+const ATTACHMENT_SHARE = 0.25;
+// Characters kept from each trimmed message in the summary
+const SUMMARY_LINE_CHARS = 160;
+// Never shrink the reply below this, even when the window is nearly full
+const MIN_OUTPUT_TOKENS = 256;
+
+/**
+ * Rough token count. Gemini's tokenizer averages about four characters per
+ * token on English text; counting exactly would cost an API call per message,
+ * and the usage annotation reports the real numbers afterwards.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Cut text to roughly maxTokens, marking that it was shortened
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const cut = text.slice(0, Math.max(0, maxTokens * 4 - 20));
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)} […truncated]`;
+}
+
+export function getContextTokenBudget(): number {
+  const budget = Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET);
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_TOKEN_BUDGET;
+}
+
+// The configured budget, cut down to leave room for a reply in the model's window
+export function getModelTokenBudget(contextLimit: number): number {
+  return Math.min(getContextTokenBudget(), contextLimit - MIN_OUTPUT_TOKENS);
+}
+
+function getMessageTokens(message: HistoryMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function toTurns(history: HistoryMessage[], pinned: Set<string>): Turn[] {
+  const turns: Turn[] = [];
+  history.forEach(message => {
+    // Replies before the first user message (the greeting) are never sent
+    if (message.role !== 'user' && turns.length === 0) return;
+    if (message.role === 'user') turns.push({ messages: [], tokens: 0, pinned: false });
+    const turn = turns[turns.length - 1];
+    turn.messages.push(message);
+    turn.tokens += getMessageTokens(message);
+    turn.pinned = turn.pinned || (!!message.id && pinned.has(message.id));
+  });
+  return turns;
+}
+
+// One line per trimmed message, newest kept when the summary is over budget
+function summarizeTurns(turns: Turn[], maxTokens: number): string | null {
+  const lines = turns.flatMap(turn => turn.messages.map(message => {
+    const text = message.content.trim().replace(/\s+/g, ' ');
+    const short = text.length > SUMMARY_LINE_CHARS ? `${text.slice(0, SUMMARY_LINE_CHARS)}…` : text;
+    return `- ${message.role === 'user' ? 'User' : 'Assistant'}: ${short}`;
+  }));
+  if (lines.length === 0) return null;
+
+  const kept: string[] = [];
+  let tokens = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    tokens += estimateTokens(lines[i]) + 1;
+    if (tokens > maxTokens) break;
+    kept.unshift(lines[i]);
+  }
+  const omitted = lines.length - kept.length;
+  return [
+    'Summary of earlier messages in this conversation, which are no longer shown in full:',
+    ...(omitted > 0 ? [`- (${omitted} older messages omitted)`] : []),
+    ...kept
+  ].join('\n');
+}
+
+function describeAttachment(attachment: AttachmentContext, maxTokens: number): string {
+  const header = `Earlier in this conversation the user attached "${attachment.name}" (${attachment.mimeType}).`;
+  if (attachment.documentId) return `${header} Its tables can still be queried with queryDocument, documentId "${attachment.documentId}".`;
+  if (!attachment.transcription?.trim()) return header;
+  return `${header} Its transcription:\n"${truncateToTokens(attachment.transcription.trim(), maxTokens)}"`;
+}
+
+/**
+ * Fit the chat history into the token budget. Pinned turns and the newest
+ * turns are kept whole; older turns are replaced by a short summary, and the
+ * latest earlier attachments are described so follow-up questions still work.
+ */
+export function buildContextWindow(options: ContextWindowOptions): ContextWindow {
+  const { contextLimit } = options;
+  const budgetTokens = getModelTokenBudget(contextLimit);
+  const turns = toTurns(options.history, new Set(options.pinnedIds || []));
+
+  let remaining = budgetTokens - options.fixedTokens;
+
+  // The attachments split one share of the budget between them
+  const attachments = options.attachments || [];
+  const attachmentNote = attachments.length > 0 && remaining > 0
+    ? attachments
+        .map(attachment => describeAttachment(attachment, Math.floor(remaining * ATTACHMENT_SHARE / attachments.length)))
+        .join('\n')
+    : null;
+  if (attachmentNote) remaining -= estimateTokens(attachmentNote);
+
+  // Room for the summary is held back only if something ends up trimmed
+  const summaryTokens = Math.floor(Math.max(0, remaining) * SUMMARY_SHARE);
+  const fitsAll = turns.reduce((sum, turn) => sum + turn.tokens, 0) <= remaining;
+  if (!fitsAll) remaining -= summaryTokens;
+
+  const kept = new Set<Turn>();
+  turns.filter(turn => turn.pinned).forEach(turn => {
+    kept.add(turn);
+    remaining -= turn.tokens;
+  });
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    if (kept.has(turn)) continue;
+    if (turn.tokens > remaining) break;
+    kept.add(turn);
+    remaining -= turn.tokens;
+  }
+
+  const trimmed = turns.filter(turn => !kept.has(turn));
+  const summary = trimmed.length > 0 ? summarizeTurns(trimmed, summaryTokens) : null;
+  const preamble = [summary, attachmentNote].filter(Boolean).join('\n\n') || null;
+
+  const history: ChatHistoryMessage[] = turns
+    .filter(turn => kept.has(turn))
+    .flatMap(turn => turn.messages.map(message => ({
+      role: message.role === 'user' ? 'user' as const : 'assistant' as const,
+      content: message.content
+    })));
+  if (preamble && history.length > 0) {
+    history[0] = { ...history[0], content: `${preamble}\n\n${history[0].content}` };
+  }
+
+  const historyTokens = Array.from(kept).reduce((sum, turn) => sum + turn.tokens, 0)
+    + (preamble ? estimateTokens(preamble) : 0);
+  const usedTokens = options.fixedTokens + historyTokens;
+
+  return {
+    history,
+    preamble: history.length > 0 ? null : preamble,
+    budget: {
+      contextLimit,
+      budgetTokens,
+      usedTokens,
+      fixedTokens: options.fixedTokens,
+      historyTokens,
+      maxOutputTokens: Math.max(MIN_OUTPUT_TOKENS, Math.min(options.maxOutputTokens, contextLimit - usedTokens)),
+      keptMessages: Array.from(kept).reduce((sum, turn) => sum + turn.messages.length, 0),
+      trimmedMessages: trimmed.reduce((sum, turn) => sum + turn.messages.length, 0),
+      pinnedMessages: turns.filter(turn => turn.pinned).reduce((sum, turn) => sum + turn.messages.length, 0),
+      summarized: !!summary
+    }
+  };
+}
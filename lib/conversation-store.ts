@@ -0,0 +1,242 @@
+// lib/conversation-store.ts
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { TablePreview } from './chat-attachments';
+import { readJsonFile, WriteQueue, writeJsonFile } from './json-file-store';
+
+export interface StoredAttachment {
+  name: string;
+  contentType: string;
+  url?: string; // only persisted for non-blob URLs
+  transcription?: {
+    text: string;
+    language?: string;
+    duration?: number;
+    segments?: any[];
+  };
+  videoThumbnail?: string;
+  videoDuration?: number;
+  documentId?: string; // parsed CSV or XLSX in the document store
+  tables?: TablePreview[];
+}
+
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system' | 'data';
+  content: string;
+  createdAt?: string;
+  attachments?: StoredAttachment[];
+  toolInvocations?: any[];
+  annotations?: any[];
+  pinned?: boolean; // always kept in the model's context window
+}
+
+// A generated image shown in the conversation, by reference to its hosted URL
+export interface StoredImageReference {
+  id: string;
+  url: string;
+  prompt: string;
+  model?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+  imageMessages: StoredMessage[]; // image generation requests and results
+  generatedImages: StoredImageReference[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export type ConversationInput = Partial<Pick<Conversation,
+  'title' | 'model' | 'messages' | 'imageMessages' | 'generatedImages'>>;
+
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 80;
+const ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export function isValidConversationId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+// Title from the first user message, cut at a word boundary
+function deriveTitle(messages: StoredMessage[]): string {
+  const first = messages.find(message => message.role === 'user' && message.content.trim());
+  if (!first) return DEFAULT_TITLE;
+
+  const text = first.content.trim().replace(/\s+/g, ' ');
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 20 ? cut.lastIndexOf(' ') : MAX_TITLE_LENGTH)}…`;
+}
+
+// Pick the writable fields out of a request body, rejecting wrongly typed ones
+export function parseConversationInput(body: any): { input: ConversationInput } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const input: ConversationInput = {};
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string') return { error: 'title must be a string' };
+    input.title = body.title.slice(0, MAX_TITLE_LENGTH * 2);
+  }
+  if (body.model !== undefined) {
+    if (typeof body.model !== 'string') return { error: 'model must be a string' };
+    input.model = body.model;
+  }
+  for (const key of ['messages', 'imageMessages', 'generatedImages'] as const) {
+    if (body[key] === undefined) continue;
+    if (!Array.isArray(body[key])) return { error: `${key} must be an array` };
+    input[key] = body[key];
+  }
+  if (input.messages?.some(message => typeof message?.id !== 'string' || typeof message?.content !== 'string')) {
+    return { error: 'Every message needs a string id and content' };
+  }
+
+  return { input };
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    model: conversation.model,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length + conversation.imageMessages.length
+  };
+}
+
+// One JSON file per conversation in a local directory; writes are serialized so
+// overlapping saves (a rename and an auto-save) cannot lose each other's changes
+export class ConversationStore {
+  private readonly writeQueue = new WriteQueue();
+
+  constructor(private readonly dir: string) {}
+
+  private getPath(id: string): string {
+    if (!isValidConversationId(id)) {
+      throw new Error(`Invalid conversation id: ${id}`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private write(conversation: Conversation): Promise<void> {
+    return writeJsonFile(this.getPath(conversation.id), conversation);
+  }
+
+  public async list(): Promise<ConversationSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const conversations = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(path.basename(file, '.json')))
+    );
+
+    return conversations
+      .filter((conversation): conversation is Conversation => conversation !== null)
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  public async get(id: string): Promise<Conversation | null> {
+    if (!isValidConversationId(id)) return null;
+    try {
+      return await readJsonFile<Conversation>(this.getPath(id));
+    } catch (error) {
+      console.warn(`Could not read conversation ${id}:`, error);
+      return null;
+    }
+  }
+
+  public async create(input: ConversationInput): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const messages = input.messages || [];
+    const imageMessages = input.imageMessages || [];
+
+    const conversation: Conversation = {
+      id: randomUUID(),
+      title: input.title?.trim() || deriveTitle([...messages, ...imageMessages]),
+      model: input.model || '',
+      createdAt: now,
+      updatedAt: now,
+      messages,
+      imageMessages,
+      generatedImages: input.generatedImages || []
+    };
+
+    await this.writeQueue.run(() => this.write(conversation));
+    return conversation;
+  }
+
+  public update(id: string, input: ConversationInput): Promise<Conversation | null> {
+    return this.writeQueue.run(() => this.applyUpdate(id, input));
+  }
+
+  private async applyUpdate(id: string, input: ConversationInput): Promise<Conversation | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+
+    const conversation: Conversation = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+    if (input.title !== undefined) {
+      conversation.title = input.title.trim() || DEFAULT_TITLE;
+    } else if (existing.title === DEFAULT_TITLE) {
+      conversation.title = deriveTitle([...conversation.messages, ...conversation.imageMessages]);
+    }
+
+    await this.write(conversation);
+    return conversation;
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!isValidConversationId(id)) return false;
+    return this.writeQueue.run(async () => {
+      try {
+        await fs.promises.unlink(this.getPath(id));
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  }
+}
+
+export function getConversationsDir(): string {
+  return process.env.CONVERSATIONS_DIR
+    ? path.resolve(process.env.CONVERSATIONS_DIR)
+    : path.join(process.cwd(), 'data', 'conversations');
+}
+
+let sharedStore: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (!sharedStore) {
+    sharedStore = new ConversationStore(getConversationsDir());
+  }
+  return sharedStore;
+}
@@ -0,0 +1,349 @@
+// lib/document-parser.ts
+import zlib from 'zlib';
+
+export type TableCell = string | number | null;
+
+// One sheet of a spreadsheet, or a whole CSV file
+export interface DocumentTable {
+  name: string;
+  columns: string[];
+  rows: TableCell[][];
+  rowCount: number; // rows in the file, before truncation
+  truncated: boolean;
+}
+
+export interface ColumnSummary {
+  name: string;
+  type: 'number' | 'text' | 'empty';
+  filled: number; // non-empty cells
+  min?: number;
+  max?: number;
+  sum?: number;
+  mean?: number;
+  distinct?: number;
+  topValues?: Array<{ value: string; count: number }>;
+}
+
+// Rows kept per table; larger exports are cut, and the summary says so
+const MAX_TABLE_ROWS = 50000;
+const MAX_SHEETS = 10;
+// Inflated size allowed per zip entry and per workbook, whatever the entry declares
+const MAX_ZIP_ENTRY_BYTES = 64 * 1024 * 1024;
+const MAX_ZIP_TOTAL_BYTES = 256 * 1024 * 1024;
+const TOP_VALUE_COUNT = 5;
+
+// ---------------------------------------------------------------------------
+// Cells
+
+// "$1,234.50", "(120)", "-3.5%" and plain numbers become numbers; anything else stays text
+const NUMBER_PATTERN = /^(\()?([-+])?\s*[$€£¥]?\s*(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d*\.?\d+(?:[eE][-+]?\d+)?)\s*%?(\))?$/;
+
+export function parseCellValue(raw: string): TableCell {
+  const value = raw.trim();
+  if (!value) return null;
+  const match = NUMBER_PATTERN.exec(value);
+  // Parentheses mark negatives in accounting exports, but only in pairs
+  if (!match || !!match[1] !== !!match[4]) return value;
+  const number = Number(match[3].replace(/,/g, ''));
+  if (!Number.isFinite(number)) return value;
+  return match[1] || match[2] === '-' ? -number : number;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+}
+
+// RFC 4180: quoted fields may hold delimiters, newlines and "" escapes
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// XLSX: a zip of XML parts. Only what tables need is read: sheet names,
+// shared strings, cell values and which number formats are dates.
+
+// Unzip every entry into memory (no ZIP64; spreadsheets that large are rejected upstream).
+// Entries may not inflate past their declared size, so a zip bomb fails instead of filling memory.
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid XLSX file');
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  let totalSize = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt XLSX directory');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const declaredSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (localOffset + 30 > buffer.length) throw new Error('Corrupt XLSX directory');
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) throw new Error(`Corrupt XLSX entry: ${name}`);
+    totalSize += declaredSize;
+    if (declaredSize > MAX_ZIP_ENTRY_BYTES || totalSize > MAX_ZIP_TOTAL_BYTES) throw new Error(`XLSX entry too large: ${name}`);
+
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, inflateEntry(name, data, declaredSize));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function inflateEntry(name: string, data: Buffer, declaredSize: number): Buffer {
+  try {
+    return zlib.inflateRawSync(data, { maxOutputLength: Math.max(declaredSize, 1) });
+  } catch (error: any) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') throw new Error(`XLSX entry too large: ${name}`);
+    throw new Error(`Corrupt XLSX entry: ${name}`);
+  }
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_match, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+    }
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[entity] as string;
+  });
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+// All <t> runs of an element, skipping phonetic hints
+function readText(xml: string): string {
+  return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map(match => decodeXml(match[1]))
+    .join('');
+}
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Style indexes (the "s" attribute of a cell) whose format is a date
+function readDateStyles(stylesXml: string | undefined): Set<number> {
+  if (!stylesXml) return new Set();
+  const customDates = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const { numFmtId, formatCode = '' } = readAttributes(match[0]);
+    // Day, month or year codes outside quoted text and [colour] sections
+    if (/[dmy]/i.test(formatCode.replace(/"[^"]*"|\[[^\]]*\]/g, ''))) customDates.add(Number(numFmtId));
+  }
+  const cellXfs = /<cellXfs\b[\s\S]*?<\/cellXfs>/.exec(stylesXml)?.[0] || '';
+  const dateStyles = new Set<number>();
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach((match, index) => {
+    const id = Number(readAttributes(match[0]).numFmtId);
+    if (DATE_FORMAT_IDS.has(id) || customDates.has(id)) dateStyles.add(index);
+  });
+  return dateStyles;
+}
+
+// Excel serial day numbers count from 1899-12-30
+function serialToDate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  const iso = date.toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ');
+}
+
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] || 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function readSheet(xml: string, sharedStrings: string[], dateStyles: Set<number>): string[][] {
+  const grid: string[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(readAttributes(rowMatch[1]).r) || grid.length + 1;
+    const row: string[] = [];
+    let nextColumn = 0;
+    for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const { r, t, s } = readAttributes(cellMatch[1]);
+      const column = r ? columnIndex(r) : nextColumn;
+      nextColumn = column + 1;
+      const body = cellMatch[2] || '';
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = '';
+      if (t === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (t === 'inlineStr') value = readText(body);
+      else if (t === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) {
+        value = decodeXml(raw);
+        if (t !== 'str' && t !== 'e' && s !== undefined && dateStyles.has(Number(s)) && value !== '') {
+          value = serialToDate(Number(value));
+        }
+      }
+      // Styled but empty cells (<c r="Z1" s="1"/>) would otherwise widen the table
+      if (value !== '') row[column] = value;
+    }
+    grid[rowNumber - 1] = Array.from(row, cell => cell ?? '');
+  }
+  return Array.from(grid, row => row ?? []);
+}
+
+// Sheets in workbook order, each as a grid of display strings
+export function readXlsx(buffer: Buffer): Array<{ name: string; grid: string[][] }> {
+  const entries = readZipEntries(buffer);
+  const readPart = (name: string) => entries.get(name)?.toString('utf-8');
+
+  const workbook = readPart('xl/workbook.xml');
+  if (!workbook) throw new Error('Not a valid XLSX file');
+  const targets = new Map<string, string>();
+  for (const match of (readPart('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target } = readAttributes(match[0]);
+    targets.set(Id, Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`);
+  }
+  const sharedStrings = Array.from((readPart('xl/sharedStrings.xml') || '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g))
+    .map(match => readText(match[1]));
+  const dateStyles = readDateStyles(readPart('xl/styles.xml'));
+
+  return Array.from(workbook.matchAll(/<sheet\b[^>]*>/g))
+    .slice(0, MAX_SHEETS)
+    .map(match => {
+      const attributes = readAttributes(match[0]);
+      const xml = readPart(targets.get(attributes['r:id']) || '') || '';
+      return { name: attributes.name || 'Sheet', grid: readSheet(xml, sharedStrings, dateStyles) };
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Tables
+
+// The first non-empty row is the header; blank or repeated names get a suffix
+export function toTable(name: string, grid: string[][]): DocumentTable | null {
+  const rows = grid.filter(row => row.some(cell => cell.trim()));
+  if (rows.length === 0) return null;
+
+  // Header plus the rows that are kept; a loop, since spreading 100k+ rows overflows the stack
+  const kept = rows.slice(0, MAX_TABLE_ROWS + 1);
+  const width = kept.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const seen = new Map<string, number>();
+  const columns = Array.from({ length: width }, (_, index) => {
+    const base = rows[0][index]?.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const body = rows.slice(1);
+  return {
+    name,
+    columns,
+    rows: kept.slice(1).map(row => columns.map((_, index) => parseCellValue(row[index] || ''))),
+    rowCount: body.length,
+    truncated: body.length > MAX_TABLE_ROWS
+  };
+}
+
+export function summarizeColumns(table: DocumentTable): ColumnSummary[] {
+  return table.columns.map((name, index) => {
+    const values = table.rows.map(row => row[index]).filter((value): value is string | number => value !== null);
+    if (values.length === 0) return { name, type: 'empty', filled: 0 };
+
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    if (numbers.length === values.length) {
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return {
+        name,
+        type: 'number',
+        filled: values.length,
+        min: numbers.reduce((lowest, value) => Math.min(lowest, value)),
+        max: numbers.reduce((highest, value) => Math.max(highest, value)),
+        sum: roundValue(sum),
+        mean: roundValue(sum / numbers.length)
+      };
+    }
+
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(String(value), (counts.get(String(value)) || 0) + 1));
+    return {
+      name,
+      type: 'text',
+      filled: values.length,
+      distinct: counts.size,
+      topValues: Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_VALUE_COUNT)
+        .map(([value, count]) => ({ value, count }))
+    };
+  });
+}
+
+export function roundValue(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+/**
+ * Parse a CSV or XLSX file into tables. Empty sheets are dropped; a file
+ * with no data at all is an error.
+ */
+export function parseTabularDocument(fileName: string, kind: 'csv' | 'xlsx', content: Buffer): DocumentTable[] {
+  const tables = kind === 'csv'
+    ? [toTable(fileName, parseCsv(content.toString('utf-8')))]
+    : readXlsx(content).map(sheet => toTable(sheet.name, sheet.grid));
+  const found = tables.filter((table): table is DocumentTable => table !== null);
+  if (found.length === 0) throw new Error(`${fileName} has no data rows`);
+  return found;
+}
@@ -0,0 +1,121 @@
+// lib/document-store.ts
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { CSV_MIME_TYPE, type TablePreview } from './chat-attachments';
+import { parseTabularDocument, summarizeColumns, type DocumentTable } from './document-parser';
+import { readJsonFile, writeJsonFile } from './json-file-store';
+
+// A CSV or XLSX upload, parsed once and kept for the tools to query
+export interface StoredDocument {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  createdAt: string;
+  tables: DocumentTable[];
+}
+
+// Uploads larger than this are refused; they are held in memory while parsed
+export const MAX_TABULAR_BYTES = 20 * 1024 * 1024;
+const PREVIEW_ROWS = 20;
+const ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export function getDocumentUri(id: string): string {
+  return `document://${id}`;
+}
+
+// First rows of every table, small enough to send to the browser
+export function getTablePreviews(document: StoredDocument): TablePreview[] {
+  return document.tables.map(table => ({
+    name: table.name,
+    columns: table.columns,
+    rows: table.rows.slice(0, PREVIEW_ROWS),
+    rowCount: table.rowCount
+  }));
+}
+
+/**
+ * Plain-text description of a document for the model's prompt: every table's
+ * columns with their type and range, plus a few sample rows. The rows
+ * themselves stay on the server behind the queryDocument tool.
+ */
+export function describeDocument(document: StoredDocument): string {
+  const sections = document.tables.map(table => {
+    const columns = summarizeColumns(table).map(column => {
+      if (column.type === 'number') {
+        return `- ${column.name} (number): min ${column.min}, max ${column.max}, sum ${column.sum}, mean ${column.mean}`;
+      }
+      if (column.type === 'text') {
+        const top = column.topValues!.map(entry => `${entry.value} (${entry.count})`).join(', ');
+        return `- ${column.name} (text, ${column.distinct} distinct): ${top}`;
+      }
+      return `- ${column.name} (empty)`;
+    });
+    const sample = table.rows.slice(0, 3).map(row => JSON.stringify(row)).join('\n');
+    const cut = table.truncated ? ` (only the first ${table.rows.length} are queryable)` : '';
+    return `Table "${table.name}": ${table.rowCount} rows${cut}\nColumns:\n${columns.join('\n')}\nSample rows:\n${sample}`;
+  });
+  return `Document ${document.id} (${document.fileName})\n\n${sections.join('\n\n')}`;
+}
+
+// One JSON file per parsed document in a local directory
+export class DocumentStore {
+  constructor(private readonly dir: string) {}
+
+  private getPath(id: string): string {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid document id: ${id}`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  // Parse a CSV or XLSX file and store its tables; throws if it holds no data
+  public async ingest(fileName: string, mimeType: string, content: Buffer): Promise<StoredDocument> {
+    const tables = parseTabularDocument(fileName, mimeType === CSV_MIME_TYPE ? 'csv' : 'xlsx', content);
+    const document: StoredDocument = {
+      id: randomUUID(),
+      fileName,
+      mimeType,
+      createdAt: new Date().toISOString(),
+      tables
+    };
+
+    await writeJsonFile(this.getPath(document.id), document);
+    return document;
+  }
+
+  public async get(id: string): Promise<StoredDocument | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return await readJsonFile<StoredDocument>(this.getPath(id));
+    } catch (error) {
+      console.warn(`Could not read document ${id}:`, error);
+      return null;
+    }
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!ID_PATTERN.test(id)) return false;
+    try {
+      await fs.promises.unlink(this.getPath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function getDocumentsDir(): string {
+  return process.env.DOCUMENTS_DIR
+    ? path.resolve(process.env.DOCUMENTS_DIR)
+    : path.join(process.cwd(), 'data', 'documents');
+}
+
+let sharedStore: DocumentStore | null = null;
+
+export function getDocumentStore(): DocumentStore {
+  if (!sharedStore) {
+    sharedStore = new DocumentStore(getDocumentsDir());
+  }
+  return sharedStore;
+}
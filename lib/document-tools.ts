@@ -0,0 +1,222 @@
+// lib/document-tools.ts
+import { SchemaType, type FunctionDeclaration } from '@google/generative-ai';
+import { roundValue, type DocumentTable, type TableCell } from './document-parser';
+import type { StoredDocument } from './document-store';
+
+// A function the chat model can call on the CSV and XLSX files attached to the chat
+interface DocumentTool {
+  declaration: FunctionDeclaration;
+  execute(args: Record<string, any>, documents: StoredDocument[]): object;
+}
+
+const FILTER_OPERATORS = ['=', '!=', '>', '>=', '<', '<=', 'contains'];
+const AGGREGATES = ['sum', 'avg', 'min', 'max', 'count'];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+interface RowFilter {
+  column: string;
+  operator: string;
+  value: string | number;
+}
+
+function findTable(documents: StoredDocument[], args: Record<string, any>): DocumentTable {
+  const document = documents.find(candidate => candidate.id === args.documentId) ||
+    (documents.length === 1 && !args.documentId ? documents[0] : undefined);
+  if (!document) {
+    throw new Error(`Unknown document: ${args.documentId}. Attached documents: ${documents.map(doc => doc.id).join(', ') || 'none'}`);
+  }
+  if (!args.table) return document.tables[0];
+  const table = document.tables.find(candidate => candidate.name.toLowerCase() === String(args.table).toLowerCase());
+  if (!table) {
+    throw new Error(`Unknown table: ${args.table}. Tables: ${document.tables.map(candidate => candidate.name).join(', ')}`);
+  }
+  return table;
+}
+
+// Column names are matched case-insensitively, since the model often recases them
+function columnIndexOf(table: DocumentTable, name: unknown): number {
+  const index = table.columns.findIndex(column => column.toLowerCase() === String(name).toLowerCase());
+  if (index < 0) throw new Error(`Unknown column: ${name}. Columns: ${table.columns.join(', ')}`);
+  return index;
+}
+
+function matchesFilter(cell: TableCell, filter: RowFilter): boolean {
+  if (filter.operator === 'contains') {
+    return cell !== null && String(cell).toLowerCase().includes(String(filter.value).toLowerCase());
+  }
+  const target = typeof cell === 'number' ? Number(filter.value) : String(filter.value).toLowerCase();
+  const value = typeof cell === 'number' ? cell : String(cell ?? '').toLowerCase();
+  switch (filter.operator) {
+    case '=': return value === target;
+    case '!=': return value !== target;
+    case '>': return cell !== null && value > target;
+    case '>=': return cell !== null && value >= target;
+    case '<': return cell !== null && value < target;
+    case '<=': return cell !== null && value <= target;
+    default: throw new Error(`Unknown operator: ${filter.operator}`);
+  }
+}
+
+// Nulls sort last in either direction
+function compareCells(a: TableCell, b: TableCell): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function aggregate(values: TableCell[], operation: string): number | null {
+  if (operation === 'count') return values.filter(value => value !== null).length;
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  if (numbers.length === 0) return null;
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  switch (operation) {
+    case 'sum': return roundValue(sum);
+    case 'avg': return roundValue(sum / numbers.length);
+    case 'min': return numbers.reduce((lowest, value) => Math.min(lowest, value));
+    case 'max': return numbers.reduce((highest, value) => Math.max(highest, value));
+    default: throw new Error(`Unknown aggregate: ${operation}`);
+  }
+}
+
+/**
+ * Filter, sort and optionally group one table. Grouped queries return one row
+ * per group with the aggregated column; others return the matching rows.
+ */
+export function queryTable(table: DocumentTable, args: Record<string, any>) {
+  const filters: RowFilter[] = Array.isArray(args.filters) ? args.filters : [];
+  const filterIndexes = filters.map(filter => columnIndexOf(table, filter.column));
+  let rows = table.rows.filter(row => filters.every((filter, index) => matchesFilter(row[filterIndexes[index]], filter)));
+  const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let columns = table.columns;
+  if (args.groupBy) {
+    const groupIndex = columnIndexOf(table, args.groupBy);
+    const operation = args.aggregate || 'count';
+    if (!AGGREGATES.includes(operation)) throw new Error(`aggregate must be one of: ${AGGREGATES.join(', ')}`);
+    const valueIndex = operation === 'count' && !args.valueColumn ? groupIndex : columnIndexOf(table, args.valueColumn);
+
+    const groups = new Map<string, TableCell[][]>();
+    rows.forEach(row => {
+      const key = String(row[groupIndex] ?? '');
+      (groups.get(key) ?? groups.set(key, []).get(key)!).push(row);
+    });
+    columns = [table.columns[groupIndex], `${operation}(${table.columns[valueIndex]})`];
+    rows = Array.from(groups.entries()).map(([key, members]) => [key, aggregate(members.map(row => row[valueIndex]), operation)]);
+  } else if (Array.isArray(args.columns) && args.columns.length > 0) {
+    const indexes = args.columns.map((column: string) => columnIndexOf(table, column));
+    columns = indexes.map((index: number) => table.columns[index]);
+    rows = rows.map(row => indexes.map((index: number) => row[index]));
+  }
+
+  if (args.sortBy) {
+    const sortIndex = columns.findIndex(column => column.toLowerCase() === String(args.sortBy).toLowerCase());
+    if (sortIndex < 0) throw new Error(`Unknown column: ${args.sortBy}. Columns: ${columns.join(', ')}`);
+    const direction = args.descending ? -1 : 1;
+    rows = [...rows].sort((a, b) => {
+      if (a[sortIndex] === null || b[sortIndex] === null) return compareCells(a[sortIndex], b[sortIndex]);
+      return direction * compareCells(a[sortIndex], b[sortIndex]);
+    });
+  }
+
+  return {
+    table: table.name,
+    columns,
+    matchedRows: rows.length,
+    rows: rows.slice(0, limit),
+    ...(rows.length > limit && { note: `Showing the first ${limit} of ${rows.length} rows` })
+  };
+}
+
+const DOCUMENT_TOOLS: Record<string, DocumentTool> = {
+  queryDocument: {
+    declaration: {
+      name: 'queryDocument',
+      description: 'Query a CSV or spreadsheet the user attached: filter rows, pick columns, sort, and group with sum/avg/min/max/count. Use it for exact figures instead of estimating from the sample rows.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          documentId: {
+            type: SchemaType.STRING,
+            description: 'Document id from the attachment description'
+          },
+          table: {
+            type: SchemaType.STRING,
+            description: 'Sheet name; defaults to the first table'
+          },
+          filters: {
+            type: SchemaType.ARRAY,
+            description: 'Conditions every returned row must meet',
+            items: {
+              type: SchemaType.OBJECT,
+              properties: {
+                column: { type: SchemaType.STRING },
+                operator: { type: SchemaType.STRING, format: 'enum', enum: FILTER_OPERATORS },
+                value: { type: SchemaType.STRING, description: 'Compared as a number when the column is numeric' }
+              },
+              required: ['column', 'operator', 'value']
+            }
+          },
+          columns: {
+            type: SchemaType.ARRAY,
+            description: 'Columns to return; all when omitted',
+            items: { type: SchemaType.STRING }
+          },
+          groupBy: {
+            type: SchemaType.STRING,
+            description: 'Column to group rows by'
+          },
+          aggregate: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: AGGREGATES,
+            description: 'How to combine valueColumn within each group (default count)'
+          },
+          valueColumn: {
+            type: SchemaType.STRING,
+            description: 'Column aggregated per group'
+          },
+          sortBy: {
+            type: SchemaType.STRING,
+            description: 'Column of the result to sort by'
+          },
+          descending: {
+            type: SchemaType.BOOLEAN
+          },
+          limit: {
+            type: SchemaType.INTEGER,
+            description: `Rows to return (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT})`
+          }
+        },
+        required: ['documentId']
+      }
+    },
+    execute: (args, documents) => queryTable(findTable(documents, args), args)
+  }
+};
+
+export const documentFunctionDeclarations: FunctionDeclaration[] =
+  Object.values(DOCUMENT_TOOLS).map(tool => tool.declaration);
+
+export function isDocumentTool(name: string): boolean {
+  return name in DOCUMENT_TOOLS;
+}
+
+// Run a tool requested by the model; failures are returned to the model, not thrown
+export function executeDocumentTool(
+  name: string,
+  args: Record<string, any>,
+  documents: StoredDocument[]
+): object {
+  const tool = DOCUMENT_TOOLS[name];
+  if (!tool) {
+    return { error: `Unknown tool: ${name}` };
+  }
+
+  try {
+    return tool.execute(args || {}, documents);
+  } catch (error) {
+    console.error(`Error executing tool ${name}:`, error);
+    return { error: error instanceof Error ? error.message : 'Tool execution failed' };
+  }
+}
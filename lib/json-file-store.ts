@@ -0,0 +1,67 @@
+// lib/json-file-store.ts
+import fs from 'fs';
+import path from 'path';
+
+// Parsed contents of a JSON file, or null if it does not exist. Any other
+// failure (bad JSON, no permission) throws rather than reading as empty.
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  return JSON.parse(content);
+}
+
+// Write to a temp file first so a crash never leaves half a file
+export async function writeJsonFile(filePath: string, data: unknown, indent?: number): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(data, null, indent), 'utf-8');
+  await fs.promises.rename(tempPath, filePath);
+}
+
+// Runs tasks one at a time in the order they were queued; a failed task does not stop later ones
+export class WriteQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  public run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * A whole collection kept in one JSON file. Changes are read-modify-write
+ * under a queue, so concurrent requests cannot overwrite each other, and a
+ * file that cannot be read fails the change instead of being replaced.
+ */
+export class JsonFileStore<T> {
+  private readonly queue = new WriteQueue();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly empty: () => T,
+    private readonly isValid: (parsed: any) => parsed is T
+  ) {}
+
+  public async read(): Promise<T> {
+    const parsed = await readJsonFile<unknown>(this.filePath);
+    if (parsed === null) return this.empty();
+    if (!this.isValid(parsed)) throw new Error(`Unexpected contents in ${this.filePath}`);
+    return parsed;
+  }
+
+  // Apply a change to the current contents and save them
+  public mutate<R>(change: (data: T) => R): Promise<R> {
+    return this.queue.run(async () => {
+      const data = await this.read();
+      const value = change(data);
+      await writeJsonFile(this.filePath, data, 2);
+      return value;
+    });
+  }
+}
@@ -0,0 +1,187 @@
+// lib/media-transcription.ts
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+
+// Whisper rejects uploads larger than this
+export const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+// Long media is cut into pieces of this length, each sharing a few seconds with
+// the next so words at a cut are heard whole by one of them. Ten minutes of
+// 48 kbps mono MP3 is about 3.6MB, far below Whisper's limit.
+const SEGMENT_SECONDS = 600;
+const OVERLAP_SECONDS = 5;
+const AUDIO_BITRATE = '48k';
+// Pieces sent to Whisper at the same time
+const TRANSCRIBE_CONCURRENCY = 3;
+
+export interface TranscriptSegment {
+  id: number;
+  start: number; // seconds from the start of the media
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments: TranscriptSegment[];
+}
+
+// extracting: converting to audio; transcribing: completed of total pieces done
+export interface TranscriptionProgress {
+  stage: 'extracting' | 'transcribing';
+  completed: number;
+  total: number;
+}
+
+export interface MediaChunk {
+  index: number;
+  start: number;
+  duration: number;
+}
+
+// ffmpeg is a separate program; only media over Whisper's limit needs it
+export class FfmpegUnavailableError extends Error {
+  constructor() {
+    super('Transcribing files over 25MB needs ffmpeg on the server. Install it or set FFMPEG_PATH');
+    this.name = 'FfmpegUnavailableError';
+  }
+}
+
+export function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg';
+}
+
+// Run ffmpeg and collect its log; rejects on a non-zero exit unless allowed.
+// Aborting the signal kills the process.
+function runFfmpeg(args: string[], allowFailure: boolean = false, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(getFfmpegPath(), ['-hide_banner', '-nostdin', ...args], { stdio: ['ignore', 'ignore', 'pipe'], signal });
+    let log = '';
+    child.stderr.on('data', chunk => {
+      // The tail is enough to explain a failure
+      log = (log + chunk.toString()).slice(-8000);
+    });
+    child.on('error', error => {
+      reject((error as NodeJS.ErrnoException).code === 'ENOENT' ? new FfmpegUnavailableError() : error);
+    });
+    child.on('close', code => {
+      if (signal?.aborted) reject(signal.reason);
+      else if (code === 0 || allowFailure) resolve(log);
+      else reject(new Error(`ffmpeg exited with code ${code}: ${log.split('\n').filter(Boolean).pop() || 'no output'}`));
+    });
+  });
+}
+
+// Media length from ffmpeg's input summary ("Duration: 01:02:03.45")
+async function getMediaDuration(filePath: string): Promise<number> {
+  // Without an output file ffmpeg exits with an error after printing the summary
+  const log = await runFfmpeg(['-i', filePath], true);
+  const match = /Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(log);
+  if (!match) throw new Error('Could not read the media duration');
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+// Start and length of each piece, consecutive pieces overlapping by overlapSeconds
+export function planChunks(
+  duration: number,
+  segmentSeconds: number = SEGMENT_SECONDS,
+  overlapSeconds: number = OVERLAP_SECONDS
+): MediaChunk[] {
+  const chunks: MediaChunk[] = [];
+  const step = segmentSeconds - overlapSeconds;
+  for (let start = 0; start === 0 || start + overlapSeconds < duration; start += step) {
+    chunks.push({ index: chunks.length, start, duration: Math.min(segmentSeconds, duration - start) });
+  }
+  return chunks;
+}
+
+/**
+ * Join the transcripts of overlapping pieces into one. Each piece owns the time
+ * up to the middle of its overlap with the next, so the words heard twice are
+ * kept once; segment times are shifted to the start of the whole media.
+ */
+export function stitchTranscripts(parts: Array<{ chunk: MediaChunk; transcript: Transcript }>, duration: number): Transcript {
+  const segments: TranscriptSegment[] = [];
+  const texts: string[] = [];
+
+  parts.forEach(({ chunk, transcript }, index) => {
+    const previous = parts[index - 1]?.chunk;
+    const next = parts[index + 1]?.chunk;
+    const ownsFrom = previous ? (previous.start + previous.duration + chunk.start) / 2 : -Infinity;
+    const ownsTo = next ? (chunk.start + chunk.duration + next.start) / 2 : Infinity;
+
+    // A piece without timings cannot be trimmed; keep all of its text
+    if (transcript.segments.length === 0) {
+      if (transcript.text.trim()) texts.push(transcript.text.trim());
+      return;
+    }
+
+    transcript.segments.forEach(segment => {
+      const start = chunk.start + segment.start;
+      const end = chunk.start + segment.end;
+      const middle = (start + end) / 2;
+      if (middle < ownsFrom || middle >= ownsTo) return;
+      segments.push({ id: segments.length, start: Number(start.toFixed(2)), end: Number(end.toFixed(2)), text: segment.text });
+      texts.push(segment.text.trim());
+    });
+  });
+
+  return {
+    text: texts.filter(Boolean).join(' '),
+    language: parts.find(part => part.transcript.language)?.transcript.language,
+    duration,
+    segments
+  };
+}
+
+/**
+ * Transcribe media of any length: extract a small mono audio track, cut it into
+ * overlapping pieces, transcribe them a few at a time and stitch the results.
+ * If a piece fails, the pieces still in progress are aborted through the signal
+ * passed to transcribe, and this only rejects once they have all stopped, so
+ * the caller can then remove workDir, where the temporary files live.
+ */
+export async function transcribeLongMedia(
+  inputPath: string,
+  workDir: string,
+  transcribe: (audioPath: string, signal: AbortSignal) => Promise<Transcript>,
+  onProgress?: (progress: TranscriptionProgress) => void
+): Promise<Transcript> {
+  onProgress?.({ stage: 'extracting', completed: 0, total: 1 });
+  const audioPath = path.join(workDir, 'audio.mp3');
+  await runFfmpeg(['-y', '-i', inputPath, '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', AUDIO_BITRATE, audioPath]);
+  const duration = await getMediaDuration(audioPath);
+  const chunks = planChunks(duration);
+
+  let completed = 0;
+  onProgress?.({ stage: 'transcribing', completed, total: chunks.length });
+  const parts: Array<{ chunk: MediaChunk; transcript: Transcript }> = new Array(chunks.length);
+  const queue = [...chunks];
+  const controller = new AbortController();
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    for (let chunk = queue.shift(); chunk && !controller.signal.aborted; chunk = queue.shift()) {
+      const chunkPath = path.join(workDir, `chunk-${chunk.index}.mp3`);
+      try {
+        await runFfmpeg(['-y', '-ss', String(chunk.start), '-t', String(chunk.duration), '-i', audioPath, '-c', 'copy', chunkPath], false, controller.signal);
+        parts[chunk.index] = { chunk, transcript: await transcribe(chunkPath, controller.signal) };
+      } catch (error) {
+        // One failed piece fails the whole transcript; stop the other workers too
+        errors.push(error);
+        queue.length = 0;
+        controller.abort();
+        return;
+      }
+      await fs.promises.unlink(chunkPath).catch(() => undefined);
+      onProgress?.({ stage: 'transcribing', completed: ++completed, total: chunks.length });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(TRANSCRIBE_CONCURRENCY, chunks.length) }, worker));
+  if (errors.length > 0) throw errors[0];
+
+  return stitchTranscripts(parts, duration);
+}
@@ -0,0 +1,131 @@
+// lib/mock-ai.ts
+import crypto from 'crypto';
+
+/**
+ * Offline stand-ins for every AI integration, enabled with AI_PROVIDER=mock.
+ * Everything here is deterministic: the same input always gives the same
+ * output, so the app and integration tests run without keys or network.
+ */
+export function isMockMode(): boolean {
+  return process.env.AI_PROVIDER === 'mock';
+}
+
+// Pause between streamed chat chunks, so the UI still looks like it streams
+export function getMockStreamDelay(): number {
+  const delay = Number(process.env.MOCK_STREAM_DELAY_MS);
+  return Number.isFinite(delay) && delay >= 0 ? delay : 20;
+}
+
+function shortHash(value: string | Buffer): string {
+  return crypto.createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+// Shaped like the Gemini file info /api/upload returns; content is the file or a hash of it
+export function createMockFileInfo(file: { name: string; type: string; size: number }, content: Buffer | string) {
+  const id = `mock-${shortHash(content)}`;
+  return {
+    uri: `mock://files/${id}`,
+    mimeType: file.type,
+    displayName: file.name,
+    name: `files/${id}`,
+    sizeBytes: String(file.size)
+  };
+}
+
+const MOCK_TRANSCRIPT_SENTENCES = [
+  'Welcome to the market update.',
+  'Technology stocks led the session as investors rotated back into large caps.',
+  'Energy names lagged after crude prices slipped for a third day.',
+  'Analysts expect volatility around the upcoming inflation report.'
+];
+
+// Whisper verbose_json shape, one segment per sentence
+export function createMockTranscription(fileName: string) {
+  let start = 0;
+  const segments = MOCK_TRANSCRIPT_SENTENCES.map((text, id) => {
+    const segment = { id, start, end: start + 4 + id, text: ` ${text}` };
+    start = segment.end;
+    return segment;
+  });
+  return {
+    text: `[Mock transcript of ${fileName}] ${MOCK_TRANSCRIPT_SENTENCES.join(' ')}`,
+    language: 'english',
+    duration: start,
+    segments
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Placeholder image as an SVG data URL, colored by a hash of the prompt
+export function createMockImageUrl(prompt: string, size: string, label: string): string {
+  const [width, height] = size.split('x').map(value => Number(value) || 1024);
+  const hue = parseInt(shortHash(prompt).slice(0, 4), 16) % 360;
+  const caption = prompt.length > 60 ? `${prompt.slice(0, 60)}…` : prompt;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue}, 45%, 35%)"/>`
+    + `<text x="50%" y="45%" fill="#fff" font-family="sans-serif" font-size="${Math.round(width / 24)}" text-anchor="middle">${escapeXml(label)}</text>`
+    + `<text x="50%" y="55%" fill="#ddd" font-family="sans-serif" font-size="${Math.round(width / 40)}" text-anchor="middle">${escapeXml(caption)}</text>`
+    + '</svg>';
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+// Ticker-like words, e.g. "AAPL" or "$MSFT"; skips single letters such as "I" or "A"
+const TICKER_PATTERN = /\$?\b([A-Z]{2,5})\b/;
+const MARKET_PATTERN = /\b(market|sentiment|overview)\b/i;
+// The id line of an attached spreadsheet's description
+const DOCUMENT_PATTERN = /^Document ([0-9a-f-]{36}) \(/m;
+
+// The tool the mock model calls for a question, if any of the available tools fits
+export function planMockToolCall(text: string, toolNames: string[]): { name: string; args: Record<string, any> } | null {
+  // Attached spreadsheets come first: their sample rows are full of ticker-like words
+  const documentId = DOCUMENT_PATTERN.exec(text)?.[1];
+  if (documentId && toolNames.includes('queryDocument')) {
+    return { name: 'queryDocument', args: { documentId, limit: 5 } };
+  }
+  const ticker = TICKER_PATTERN.exec(text)?.[1];
+  if (ticker && toolNames.includes('getStockSentiment')) {
+    return { name: 'getStockSentiment', args: { ticker } };
+  }
+  if (MARKET_PATTERN.test(text) && toolNames.includes('getMarketOverview')) {
+    return { name: 'getMarketOverview', args: {} };
+  }
+  return null;
+}
+
+// A reply describing tool results: a few of their numbers and the first article id as a citation
+export function composeMockToolReply(results: Array<{ name: string; result: object }>): string {
+  return results.map(({ name, result }) => {
+    const numbers = Object.entries(result)
+      .filter(([, value]) => typeof value === 'number')
+      .slice(0, 4)
+      .map(([key, value]) => `${key} ${Number(value.toFixed(3))}`);
+    const articleId = /"id":"(\d{8}_\d+)"/.exec(JSON.stringify(result))?.[1];
+    const facts = numbers.length > 0 ? numbers.join(', ') : 'no numeric fields';
+    return `Mock analysis from ${name}: ${facts}.${articleId ? ` See [${articleId}].` : ''}`;
+  }).join('\n\n');
+}
+
+// attachmentKinds are e.g. ['image', 'video'], one per attached file
+export function composeMockReply(text: string, attachmentKinds: string[] = []): string {
+  const question = text.trim().replace(/\s+/g, ' ');
+  const quoted = question.length > 80 ? `${question.slice(0, 80)}…` : question;
+  return [
+    `This is a mock reply (AI_PROVIDER=mock)${quoted ? ` to: "${quoted}"` : ''}.`,
+    ...(attachmentKinds.length > 0
+      ? [`Received ${attachmentKinds.length} attached file${attachmentKinds.length === 1 ? '' : 's'} (${attachmentKinds.join(', ')}).`]
+      : []),
+    'Set AI_PROVIDER to a live provider and configure its key for real answers.'
+  ].join(' ');
+}
+
+// Streamed chunks of a few words each
+export function splitIntoChunks(text: string): string[] {
+  return text.match(/\S+\s*/g)?.reduce<string[]>((chunks, word, index) => {
+    if (index % 3 === 0) chunks.push(word);
+    else chunks[chunks.length - 1] += word;
+    return chunks;
+  }, []) || [];
+}
@@ -0,0 +1,308 @@
+// lib/news-search.ts
+import type { NewsItem } from './sentiment-utils';
+
+export interface NewsSearchFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  tickers?: Set<string>; // upper-case; articles must mention one of them
+  topic?: string; // matched case-insensitively against article topics
+  sentiment?: 'positive' | 'negative' | 'neutral';
+}
+
+// Search parameters as accepted by SentimentAnalyzer.searchArticles
+export interface NewsSearchOptions {
+  from?: string; // YYYYMMDD or YYYY-MM-DD
+  to?: string;
+  ticker?: string; // ticker or company name, resolved to its share classes
+  topic?: string;
+  sentiment?: 'positive' | 'negative' | 'neutral';
+  sort?: 'relevance' | 'date';
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface NewsSearchHit {
+  article: NewsItem;
+  score: number; // blended text and recency score; 0 when there are no search terms
+}
+
+export interface NewsSearchPage {
+  query: string;
+  total: number;
+  results: NewsSearchHit[];
+  nextCursor: string | null;
+}
+
+// A parsed query: "quoted phrases", plain terms and -excluded terms, all stemmed
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+  excluded: string[];
+}
+
+interface Posting {
+  doc: number;
+  frequency: number; // field-weighted term frequency
+  positions: number[];
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with'
+]);
+
+// Title matches count three times, entities and keywords twice, the summary once
+const FIELD_WEIGHTS = { title: 3, entities: 2, content: 1 };
+// Position gap between fields and list entries, so phrases never span them
+const FIELD_GAP = 10;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Share of the score that comes from recency, and how fast it fades
+const RECENCY_WEIGHT = 0.3;
+const RECENCY_HALF_LIFE_DAYS = 7;
+
+/**
+ * Light suffix-stripping stemmer: folds plurals and common verb endings so
+ * "rallies", "rallied" and "rally" or "surges", "surged" and "surging" share a
+ * term. It only needs to be consistent between indexing and querying.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.length > 4 && /i(es|ed)$/.test(result)) result = `${result.slice(0, -3)}y`;
+  else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) result = result.slice(0, -1);
+
+  const verbSuffix = ['ingly', 'edly', 'ing', 'ed'].find(suffix =>
+    result.endsWith(suffix) && /[aeiouy]/.test(result.slice(0, -suffix.length)) && result.length - suffix.length >= 3);
+  if (verbSuffix) {
+    result = result.slice(0, -verbSuffix.length);
+    // "stopped" -> "stop", but keep "sell", "pass", "buzz"
+    if (/([^aeiouylsz])\1$/.test(result)) result = result.slice(0, -1);
+  }
+
+  // "rate", "rated" and "rating" all end up as "rat"
+  if (result.length > 3 && result.endsWith('e')) result = result.slice(0, -1);
+  return result;
+}
+
+// Lower-cased, stemmed terms with their positions; stopwords keep their position
+export function tokenize(text: string, start: number = 0): Array<{ term: string; position: number }> {
+  const tokens: Array<{ term: string; position: number }> = [];
+  (text.toLowerCase().match(/[a-z0-9]+(?:['.&][a-z0-9]+)*/g) || []).forEach((word, index) => {
+    const normalized = word.replace(/'s$/, '').replace(/['.]/g, '');
+    if (!normalized || STOPWORDS.has(normalized)) return;
+    tokens.push({ term: stem(normalized), position: start + index });
+  });
+  return tokens;
+}
+
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excluded: [] };
+
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 1) {
+      // Positions relative to the first word, so stopword gaps must match too
+      parsed.phrases.push(tokens.map(token => `${token.position - tokens[0].position}:${token.term}`));
+    }
+    tokens.forEach(token => parsed.terms.push(token.term));
+    return ' ';
+  });
+
+  rest.split(/\s+/).filter(Boolean).forEach(word => {
+    const excluded = word.startsWith('-') && word.length > 1;
+    tokenize(excluded ? word.slice(1) : word).forEach(token => {
+      (excluded ? parsed.excluded : parsed.terms).push(token.term);
+    });
+  });
+
+  parsed.terms = Array.from(new Set(parsed.terms));
+  return parsed;
+}
+
+// A cursor that is malformed or belongs to another search or data version
+export class SearchCursorError extends Error {
+  constructor() {
+    super('Invalid or expired search cursor');
+    this.name = 'SearchCursorError';
+  }
+}
+
+// FNV-1a, enough to tell whether a cursor belongs to the same search
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function encodeCursor(offset: number, signature: string): string {
+  return Buffer.from(JSON.stringify({ offset, signature })).toString('base64url');
+}
+
+// Offset encoded in a cursor, or null if it is malformed or from a different search
+export function decodeCursor(cursor: string, signature: string): number | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return decoded?.signature === signature && Number.isInteger(decoded.offset) && decoded.offset >= 0
+      ? decoded.offset
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getSearchSignature(query: string, filters: NewsSearchFilters, sort: string, version: string): string {
+  return hashString(JSON.stringify({
+    query: query.trim().toLowerCase(),
+    ...filters,
+    tickers: filters.tickers ? Array.from(filters.tickers).sort() : undefined,
+    sort,
+    version
+  }));
+}
+
+// Inverted index over a fixed set of articles with BM25 ranking
+export class NewsSearchIndex {
+  private postings = new Map<string, Posting[]>();
+  private lengths: number[] = [];
+  private averageLength = 0;
+  private latestTime = 0;
+
+  constructor(private readonly articles: NewsItem[]) {
+    articles.forEach((article, doc) => {
+      const fields: Array<[string, number]> = [
+        [article.title || '', FIELD_WEIGHTS.title],
+        ...[
+          ...article.entities.stocks,
+          ...article.entities.companies,
+          ...article.entities.sectors,
+          ...article.keywords
+        ].map((value): [string, number] => [value, FIELD_WEIGHTS.entities]),
+        [article.content || '', FIELD_WEIGHTS.content]
+      ];
+
+      const entries = new Map<string, Posting>();
+      let position = 0;
+      let length = 0;
+      fields.forEach(([text, weight]) => {
+        const tokens = tokenize(text, position);
+        tokens.forEach(({ term, position: tokenPosition }) => {
+          const posting = entries.get(term) || { doc, frequency: 0, positions: [] };
+          posting.frequency += weight;
+          posting.positions.push(tokenPosition);
+          entries.set(term, posting);
+        });
+        length += tokens.length * weight;
+        position = (tokens.length > 0 ? tokens[tokens.length - 1].position : position) + FIELD_GAP;
+      });
+
+      entries.forEach((posting, term) => {
+        const list = this.postings.get(term);
+        if (list) list.push(posting);
+        else this.postings.set(term, [posting]);
+      });
+      this.lengths.push(length);
+      this.latestTime = Math.max(this.latestTime, new Date(article.timestamp).getTime() || 0);
+    });
+
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(this.lengths.length, 1);
+  }
+
+  private matchesFilters(article: NewsItem, filters: NewsSearchFilters): boolean {
+    const day = article.timestamp.substring(0, 10);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+    if (filters.sentiment && article.sentiment.label !== filters.sentiment) return false;
+    if (filters.tickers && !article.tickerSentiment.some(entry => filters.tickers!.has(entry.ticker.toUpperCase()))
+      && !article.entities.stocks.some(stock => filters.tickers!.has(stock.toUpperCase()))) {
+      return false;
+    }
+    if (filters.topic) {
+      const topic = filters.topic.toLowerCase();
+      if (!article.entities.sectors.some(sector => sector.toLowerCase().includes(topic))) return false;
+    }
+    return true;
+  }
+
+  // Checks whether a document has a phrase's words in order at the same spacing
+  private getPhraseMatcher(phrase: string[]): (doc: number) => boolean {
+    const parts = phrase.map(part => {
+      const separator = part.indexOf(':');
+      const term = part.slice(separator + 1);
+      return {
+        offset: Number(part.slice(0, separator)),
+        positions: new Map((this.postings.get(term) || []).map(posting => [posting.doc, new Set(posting.positions)]))
+      };
+    });
+
+    return doc => {
+      const starts = parts[0].positions.get(doc);
+      return !!starts && Array.from(starts).some(start =>
+        parts.every(({ offset, positions }) => positions.get(doc)?.has(start + offset)));
+    };
+  }
+
+  /**
+   * Every matching article, best first. All terms and phrases must match and
+   * excluded terms must not. Without terms, matches are the filtered articles
+   * newest first. Recency is measured from the newest indexed article.
+   */
+  public search(query: string, filters: NewsSearchFilters = {}, sort: 'relevance' | 'date' = 'relevance'): NewsSearchHit[] {
+    const { terms, phrases, excluded } = parseSearchQuery(query);
+    const total = this.articles.length;
+
+    let candidates: Map<number, number>; // doc -> BM25 score
+    if (terms.length === 0) {
+      candidates = new Map(this.articles.map((_, doc) => [doc, 0]));
+    } else {
+      const lists = terms.map(term => this.postings.get(term) || []);
+      if (lists.some(list => list.length === 0)) return [];
+
+      // Intersect starting from the rarest term
+      const ordered = lists.map((list, i) => ({ list, term: terms[i] })).sort((a, b) => a.list.length - b.list.length);
+      candidates = new Map(ordered[0].list.map(posting => [posting.doc, 0]));
+      ordered.slice(1).forEach(({ list }) => {
+        const docs = new Set(list.map(posting => posting.doc));
+        candidates.forEach((_, doc) => {
+          if (!docs.has(doc)) candidates.delete(doc);
+        });
+      });
+
+      lists.forEach(list => {
+        const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5));
+        list.forEach(posting => {
+          const current = candidates.get(posting.doc);
+          if (current === undefined) return;
+          const norm = BM25_K1 * (1 - BM25_B + BM25_B * (this.lengths[posting.doc] / this.averageLength));
+          candidates.set(posting.doc, current + idf * (posting.frequency * (BM25_K1 + 1)) / (posting.frequency + norm));
+        });
+      });
+    }
+
+    excluded.forEach(term => (this.postings.get(term) || []).forEach(posting => candidates.delete(posting.doc)));
+
+    const phraseMatchers = phrases.map(phrase => this.getPhraseMatcher(phrase));
+    const hits: NewsSearchHit[] = [];
+    candidates.forEach((textScore, doc) => {
+      const article = this.articles[doc];
+      if (!this.matchesFilters(article, filters)) return;
+      if (!phraseMatchers.every(matches => matches(doc))) return;
+
+      const ageDays = Math.max(0, (this.latestTime - new Date(article.timestamp).getTime()) / 86400000);
+      const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      const score = terms.length > 0 ? textScore * (1 - RECENCY_WEIGHT + RECENCY_WEIGHT * recency) : 0;
+      hits.push({ article, score });
+    });
+
+    return hits.sort((a, b) =>
+      (sort === 'relevance' ? b.score - a.score : 0) ||
+      b.article.timestamp.localeCompare(a.article.timestamp) ||
+      a.article.id.localeCompare(b.article.id));
+  }
+}
@@ -0,0 +1,225 @@
+// lib/news-sources.ts
+import fs from 'fs';
+import path from 'path';
+import type { RawNewsItem, RawSentimentData } from './sentiment-utils';
+
+export type NewsSourceKind = 'json' | 'ndjson' | 'http';
+
+export interface NewsSourceResult {
+  data: RawSentimentData;
+  errorCount: number; // malformed days, lines or articles skipped while loading
+}
+
+// A single provider of raw news articles keyed by YYYYMMDD date
+export interface NewsDataSource {
+  id: string;
+  kind: NewsSourceKind;
+  location: string;
+  load(): Promise<NewsSourceResult>;
+  // Changes whenever the underlying data does; sources without one are never reloaded
+  getVersion?(): Promise<string | null>;
+}
+
+// Files in the data directory that are picked up automatically
+const NEWS_FILE_PATTERN = /news.*\.(json|ndjson|jsonl)$/i;
+
+function isRawNewsItem(value: any): value is RawNewsItem {
+  return !!value && typeof value === 'object' && typeof value.title === 'string';
+}
+
+// Date key ("20250801") from a time_published value ("20250801T093000")
+function getDateKey(item: RawNewsItem): string | null {
+  const date = item.time_published?.substring(0, 8);
+  return date && /^\d{8}$/.test(date) ? date : null;
+}
+
+// Keep only well-formed articles from a { date: articles[] } object
+function parseDateKeyedData(parsed: any): NewsSourceResult {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected an object keyed by YYYYMMDD date');
+  }
+
+  const data: RawSentimentData = {};
+  let errorCount = 0;
+
+  Object.entries(parsed).forEach(([date, articles]) => {
+    if (!Array.isArray(articles)) {
+      errorCount += 1;
+      return;
+    }
+    data[date] = articles.filter(article => {
+      if (isRawNewsItem(article)) return true;
+      errorCount += 1;
+      return false;
+    });
+  });
+
+  return { data, errorCount };
+}
+
+// One article per line, grouped by the date of time_published
+function parseNdjson(content: string): NewsSourceResult {
+  const data: RawSentimentData = {};
+  let errorCount = 0;
+
+  content.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const item = JSON.parse(line);
+      const date = isRawNewsItem(item) ? getDateKey(item) : null;
+      if (!date) {
+        errorCount += 1;
+        return;
+      }
+      if (!data[date]) data[date] = [];
+      data[date].push(item);
+    } catch {
+      errorCount += 1;
+    }
+  });
+
+  return { data, errorCount };
+}
+
+// Modification time and size of a file, or null if it no longer exists
+async function getFileVersion(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return null;
+  }
+}
+
+export class JsonFileSource implements NewsDataSource {
+  public readonly kind = 'json';
+  public readonly id: string;
+
+  constructor(public readonly location: string) {
+    this.id = path.basename(location);
+  }
+
+  async load(): Promise<NewsSourceResult> {
+    const content = await fs.promises.readFile(this.location, 'utf-8');
+    return parseDateKeyedData(JSON.parse(content));
+  }
+
+  getVersion(): Promise<string | null> {
+    return getFileVersion(this.location);
+  }
+}
+
+export class NdjsonFileSource implements NewsDataSource {
+  public readonly kind = 'ndjson';
+  public readonly id: string;
+
+  constructor(public readonly location: string) {
+    this.id = path.basename(location);
+  }
+
+  async load(): Promise<NewsSourceResult> {
+    const content = await fs.promises.readFile(this.location, 'utf-8');
+    return parseNdjson(content);
+  }
+
+  getVersion(): Promise<string | null> {
+    return getFileVersion(this.location);
+  }
+}
+
+// A local HTTP stand-in serving either date-keyed JSON or NDJSON
+export class HttpNewsSource implements NewsDataSource {
+  public readonly kind = 'http';
+  public readonly id: string;
+
+  constructor(public readonly location: string) {
+    this.id = location;
+  }
+
+  async load(): Promise<NewsSourceResult> {
+    const response = await fetch(this.location, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${this.location}`);
+    }
+
+    const content = await response.text();
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('ndjson') || contentType.includes('jsonl')) {
+      return parseNdjson(content);
+    }
+    return parseDateKeyedData(JSON.parse(content));
+  }
+}
+
+export class NewsSourceRegistry {
+  private sources = new Map<string, NewsDataSource>();
+  private discoveredSources = new Map<string, Set<string>>();
+
+  public register(source: NewsDataSource): this {
+    this.sources.set(source.id, source);
+    return this;
+  }
+
+  public unregister(id: string): boolean {
+    return this.sources.delete(id);
+  }
+
+  public getSources(): NewsDataSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  // Register every news file found in a directory (not recursive)
+  public discover(dataDir: string): this {
+    const previous = this.discoveredSources.get(dataDir) || new Set<string>();
+    const current = new Set<string>();
+
+    if (!fs.existsSync(dataDir)) {
+      console.warn(`News data directory not found: ${dataDir}`);
+    } else {
+      fs.readdirSync(dataDir)
+        .filter(file => NEWS_FILE_PATTERN.test(file))
+        .sort()
+        .forEach(file => {
+          const filePath = path.join(dataDir, file);
+          const source = file.toLowerCase().endsWith('.json')
+            ? new JsonFileSource(filePath)
+            : new NdjsonFileSource(filePath);
+          current.add(source.id);
+          if (!this.sources.has(source.id)) this.register(source);
+        });
+    }
+
+    // Drop files that were discovered earlier but have since been removed
+    previous.forEach(id => {
+      if (!current.has(id)) this.unregister(id);
+    });
+    this.discoveredSources.set(dataDir, current);
+
+    return this;
+  }
+
+  // Re-scan every previously discovered directory for added or removed files
+  public rediscover(): this {
+    Array.from(this.discoveredSources.keys()).forEach(dataDir => this.discover(dataDir));
+    return this;
+  }
+}
+
+export function getNewsDataDir(): string {
+  return process.env.NEWS_DATA_DIR
+    ? path.resolve(process.env.NEWS_DATA_DIR)
+    : path.join(process.cwd(), 'data');
+}
+
+// Sources from the data directory plus any NEWS_HTTP_SOURCES (comma separated URLs)
+export function createDefaultNewsSourceRegistry(): NewsSourceRegistry {
+  const registry = new NewsSourceRegistry().discover(getNewsDataDir());
+
+  (process.env.NEWS_HTTP_SOURCES || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean)
+    .forEach(url => registry.register(new HttpNewsSource(url)));
+
+  return registry;
+}
@@ -0,0 +1,186 @@
+// lib/portfolio-sentiment.ts
+import type { SentimentAnalyzer } from './sentiment-utils';
+import type { PriceDataStore } from './price-data';
+import type { Holding, Portfolio } from './portfolio-store';
+
+export interface LatestPrice {
+  close: number;
+  date: string;
+}
+
+export interface HoldingSentiment {
+  ticker: string;
+  quantity: number;
+  costBasis: number | null;
+  price: LatestPrice | null; // last close on or before the as-of date
+  value: number | null; // quantity × price, else the cost basis
+  valueSource: 'price' | 'cost' | null;
+  weight: number; // share of the portfolio, 0 to 1
+  avgSentiment: number;
+  trend: 'bullish' | 'bearish' | 'neutral';
+  totalArticles: number;
+  positiveCount: number;
+  negativeCount: number;
+  weightedScore: number; // weight × avgSentiment: the holding's pull on the portfolio score
+  latestHeadline: { id: string; title: string; timestamp: string } | null;
+}
+
+export interface PortfolioSentiment {
+  source: string | null;
+  importedAt: string;
+  asOf: string | null;
+  // value: by position value; equal: no holding had a price or cost basis
+  weighting: 'value' | 'equal';
+  totalValue: number | null;
+  weightedSentiment: number; // over the holdings with news coverage
+  trend: 'bullish' | 'bearish' | 'neutral';
+  coveredWeight: number; // share of the portfolio with any news coverage
+  holdings: HoldingSentiment[]; // largest first
+  mostNegative: string[]; // covered holdings dragging the score down most, worst first
+  uncovered: string[]; // holdings the news corpus has no articles on
+}
+
+const MOST_NEGATIVE_COUNT = 5;
+// Holdings listed in the chat prompt; the rest are summarized as a count
+const MAX_CONTEXT_HOLDINGS = 25;
+
+function round(value: number, digits: number = 4): number {
+  return Number(value.toFixed(digits));
+}
+
+function toTrend(score: number): 'bullish' | 'bearish' | 'neutral' {
+  if (score > 0.1) return 'bullish';
+  if (score < -0.1) return 'bearish';
+  return 'neutral';
+}
+
+// Latest close of every holding with a price file, as of a date (YYYY-MM-DD...) or the newest bar
+export async function getLatestPrices(
+  holdings: Holding[],
+  priceStore: PriceDataStore,
+  asOf?: string | null
+): Promise<Map<string, LatestPrice>> {
+  const cutoff = asOf ? asOf.substring(0, 10) : null;
+  const prices = new Map<string, LatestPrice>();
+  await Promise.all(holdings.map(async ({ ticker }) => {
+    const series = await priceStore.getPrices(ticker);
+    const bars = series?.bars.filter(bar => !cutoff || bar.date <= cutoff) || [];
+    const latest = bars[bars.length - 1];
+    if (latest) prices.set(ticker, { close: latest.close, date: latest.date });
+  }));
+  return prices;
+}
+
+/**
+ * Each holding's getStockSentiment result, weighted by position size. Size is
+ * the market value from the latest close, or the cost basis without a price
+ * file; holdings with neither count for nothing unless no holding has a size,
+ * in which case all are weighted equally.
+ */
+export function getPortfolioSentiment(
+  portfolio: Portfolio,
+  analyzer: SentimentAnalyzer,
+  prices: Map<string, LatestPrice>,
+  asOf: string | null = null
+): PortfolioSentiment {
+  const sized = portfolio.holdings.map(holding => {
+    const price = prices.get(holding.ticker) || null;
+    const value = price ? holding.quantity * price.close : holding.costBasis;
+    return {
+      holding,
+      price,
+      value,
+      valueSource: price ? 'price' as const : holding.costBasis !== null ? 'cost' as const : null
+    };
+  });
+  const totalValue = sized.reduce((sum, { value }) => sum + Math.max(value || 0, 0), 0);
+  const weighting = totalValue > 0 ? 'value' : 'equal';
+
+  const holdings: HoldingSentiment[] = sized.map(({ holding, price, value, valueSource }) => {
+    const weight = weighting === 'value' ? Math.max(value || 0, 0) / totalValue : 1 / sized.length;
+    const { articles, avgSentiment, totalArticles, positiveCount, negativeCount, trend } = analyzer.getStockSentiment(holding.ticker);
+    const latest = articles[0];
+    return {
+      ticker: holding.ticker,
+      quantity: holding.quantity,
+      costBasis: holding.costBasis,
+      price,
+      value: value !== null ? round(value, 2) : null,
+      valueSource,
+      weight: round(weight),
+      avgSentiment: round(avgSentiment),
+      trend,
+      totalArticles,
+      positiveCount,
+      negativeCount,
+      weightedScore: round(weight * avgSentiment),
+      latestHeadline: latest ? { id: latest.id, title: latest.title, timestamp: latest.timestamp } : null
+    };
+  }).sort((a, b) => b.weight - a.weight || a.ticker.localeCompare(b.ticker));
+
+  const covered = holdings.filter(holding => holding.totalArticles > 0);
+  const coveredWeight = covered.reduce((sum, holding) => sum + holding.weight, 0);
+  const weightedSentiment = coveredWeight > 0
+    ? covered.reduce((sum, holding) => sum + holding.weightedScore, 0) / coveredWeight
+    : 0;
+
+  return {
+    source: portfolio.source,
+    importedAt: portfolio.importedAt,
+    asOf,
+    weighting,
+    totalValue: weighting === 'value' ? round(totalValue, 2) : null,
+    weightedSentiment: round(weightedSentiment),
+    trend: toTrend(weightedSentiment),
+    coveredWeight: round(coveredWeight),
+    holdings,
+    mostNegative: covered
+      .filter(holding => holding.weightedScore < 0)
+      .sort((a, b) => a.weightedScore - b.weightedScore)
+      .slice(0, MOST_NEGATIVE_COUNT)
+      .map(holding => holding.ticker),
+    uncovered: holdings.filter(holding => holding.totalArticles === 0).map(holding => holding.ticker)
+  };
+}
+
+// "How is my portfolio doing?", "what about our holdings", "my positions"
+const PORTFOLIO_PATTERN = /\b(my|our)\s+(portfolio|holdings|positions|investments|exposure)\b/i;
+
+export function isPortfolioQuestion(text: string): boolean {
+  return PORTFOLIO_PATTERN.test(text);
+}
+
+// The weighted view as prompt context: the largest holdings plus the worst-covered ones with a headline each
+export function getPortfolioContext(view: PortfolioSentiment): string {
+  const listed = view.holdings.slice(0, MAX_CONTEXT_HOLDINGS);
+  const negative = view.mostNegative
+    .map(ticker => view.holdings.find(holding => holding.ticker === ticker)!)
+    .filter(holding => !listed.includes(holding));
+  const summarize = (holding: HoldingSentiment) => ({
+    ticker: holding.ticker,
+    weight: round(holding.weight * 100, 2),
+    avgSentiment: holding.avgSentiment,
+    trend: holding.trend,
+    articles: holding.totalArticles,
+    weightedScore: holding.weightedScore,
+    ...(view.mostNegative.includes(holding.ticker) && { latestHeadline: holding.latestHeadline })
+  });
+
+  const weighting = view.weighting === 'value'
+    ? 'weighted by position value (latest close, or cost basis where there is no price)'
+    : 'weighted equally (no prices or cost basis)';
+  return [
+    `The user's imported portfolio (${view.holdings.length} holdings from ${view.source || 'an import'} on ${view.importedAt.substring(0, 10)}), news sentiment ${weighting}.`,
+    'weight is the percentage of the portfolio; weightedScore is the holding\'s contribution to the portfolio score. Cite headlines by id.',
+    JSON.stringify({
+      weightedSentiment: view.weightedSentiment,
+      trend: view.trend,
+      coveredWeight: round(view.coveredWeight * 100, 2),
+      mostNegative: view.mostNegative,
+      uncovered: view.uncovered.slice(0, MAX_CONTEXT_HOLDINGS),
+      holdings: listed.map(summarize),
+      ...(negative.length > 0 && { otherNegativeHoldings: negative.map(summarize) }),
+      ...(view.holdings.length > listed.length && { notListed: view.holdings.length - listed.length })
+    })
+  ].join('\n');
+}
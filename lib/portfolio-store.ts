@@ -0,0 +1,146 @@
+// lib/portfolio-store.ts
+import fs from 'fs';
+import path from 'path';
+import type { DocumentTable, TableCell } from './document-parser';
+import { readJsonFile, writeJsonFile } from './json-file-store';
+
+export interface Holding {
+  ticker: string; // primary symbol when the news corpus knows it, else as imported
+  quantity: number;
+  costBasis: number | null; // total cost of the position, when the import had one
+}
+
+export interface Portfolio {
+  holdings: Holding[];
+  source: string | null; // file the holdings were imported from
+  importedAt: string;
+}
+
+// A row the import could not use, numbered as in the file (header = row 1)
+export interface SkippedRow {
+  row: number;
+  reason: string;
+}
+
+const MAX_HOLDINGS = 500;
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-^]{0,11}$/;
+
+// Header names seen in broker exports, compared without case, spaces or punctuation
+const TICKER_COLUMNS = ['ticker', 'symbol', 'tickersymbol', 'stock', 'instrument'];
+const QUANTITY_COLUMNS = ['quantity', 'qty', 'shares', 'units', 'position', 'sharesheld', 'quantityheld'];
+const TOTAL_COST_COLUMNS = ['costbasis', 'costbasistotal', 'totalcost', 'totalcostbasis', 'bookvalue', 'cost'];
+const UNIT_COST_COLUMNS = ['costbasispershare', 'costpershare', 'avgcost', 'averagecost', 'averageprice', 'avgprice', 'unitcost', 'purchaseprice'];
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findColumn(columns: string[], candidates: string[]): number {
+  const normalized = columns.map(normalizeHeader);
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+function toNumber(cell: TableCell): number | null {
+  return typeof cell === 'number' && Number.isFinite(cell) ? cell : null;
+}
+
+/**
+ * Holdings from an imported table. Needs ticker and quantity columns; cost is
+ * read from a total cost basis column, or a per-share cost times quantity.
+ * Several lots of one ticker are combined into a single holding.
+ */
+export function parseHoldingsTable(
+  table: DocumentTable,
+  resolve: (ticker: string) => string | null
+): { holdings: Holding[]; skipped: SkippedRow[] } | { error: string } {
+  const tickerIndex = findColumn(table.columns, TICKER_COLUMNS);
+  const quantityIndex = findColumn(table.columns, QUANTITY_COLUMNS);
+  if (tickerIndex < 0 || quantityIndex < 0) {
+    return { error: `The file needs ticker and quantity columns (found: ${table.columns.join(', ')})` };
+  }
+  const totalCostIndex = findColumn(table.columns, TOTAL_COST_COLUMNS);
+  const unitCostIndex = findColumn(table.columns, UNIT_COST_COLUMNS);
+
+  const byTicker = new Map<string, Holding>();
+  const skipped: SkippedRow[] = [];
+  table.rows.forEach((row, index) => {
+    const symbol = String(row[tickerIndex] ?? '').trim().toUpperCase().replace(/^\$/, '');
+    const quantity = toNumber(row[quantityIndex]);
+    // Cash lines, totals and short positions are reported back rather than imported
+    const reason = !symbol ? 'No ticker'
+      : !TICKER_PATTERN.test(symbol) ? `Not a ticker: ${symbol}`
+      : quantity === null || quantity <= 0 ? `${symbol} has no positive quantity`
+      : null;
+    if (reason || quantity === null) {
+      skipped.push({ row: index + 2, reason: reason || 'No quantity' });
+      return;
+    }
+
+    const totalCost = totalCostIndex >= 0 ? toNumber(row[totalCostIndex]) : null;
+    const unitCost = unitCostIndex >= 0 ? toNumber(row[unitCostIndex]) : null;
+    const costBasis = totalCost ?? (unitCost !== null ? unitCost * quantity : null);
+
+    const ticker = resolve(symbol) || symbol;
+    const existing = byTicker.get(ticker);
+    byTicker.set(ticker, existing
+      ? {
+          ticker,
+          quantity: existing.quantity + quantity,
+          costBasis: existing.costBasis !== null && costBasis !== null ? existing.costBasis + costBasis : null
+        }
+      : { ticker, quantity, costBasis });
+  });
+
+  const holdings = Array.from(byTicker.values());
+  if (holdings.length === 0) return { error: 'The file has no usable holdings' };
+  if (holdings.length > MAX_HOLDINGS) return { error: `A portfolio can have at most ${MAX_HOLDINGS} holdings` };
+  return { holdings, skipped };
+}
+
+// The portfolio in a single JSON file; an import replaces it whole
+export class PortfolioStore {
+  constructor(private readonly filePath: string) {}
+
+  public async get(): Promise<Portfolio | null> {
+    try {
+      return await readJsonFile<Portfolio>(this.filePath);
+    } catch (error) {
+      console.warn(`Could not read portfolio from ${this.filePath}:`, error);
+      return null;
+    }
+  }
+
+  public async save(holdings: Holding[], source: string | null): Promise<Portfolio> {
+    const portfolio: Portfolio = { holdings, source, importedAt: new Date().toISOString() };
+    await writeJsonFile(this.filePath, portfolio, 2);
+    return portfolio;
+  }
+
+  public async clear(): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function getPortfolioFile(): string {
+  return process.env.PORTFOLIO_FILE
+    ? path.resolve(process.env.PORTFOLIO_FILE)
+    : path.join(process.cwd(), 'data', 'portfolio.json');
+}
+
+let sharedStore: PortfolioStore | null = null;
+
+export function getPortfolioStore(): PortfolioStore {
+  if (!sharedStore) {
+    sharedStore = new PortfolioStore(getPortfolioFile());
+  }
+  return sharedStore;
+}
@@ -0,0 +1,160 @@
+// lib/price-data.ts
+import fs from 'fs';
+import path from 'path';
+import { getNewsDataDir } from './news-sources';
+
+// One daily OHLC bar
+export interface PriceBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface PriceSeries {
+  ticker: string;
+  file: string;
+  bars: PriceBar[]; // ascending by date, one per day
+  errorCount: number; // rows skipped while parsing
+}
+
+// AAPL.csv, AAPL_prices.csv or aapl-price.csv next to the news files
+const PRICE_FILE_PATTERN = /^([A-Za-z0-9.]+?)(?:[_-]prices?)?\.csv$/i;
+
+// Accepts YYYY-MM-DD, YYYYMMDD, YYYY/MM/DD and MM/DD/YYYY, optionally followed by a time
+function normalizeCsvDate(value: string): string | null {
+  const trimmed = value.trim().replace(/^"|"$/g, '');
+  let match = /^(\d{4})[-/]?(\d{2})[-/]?(\d{2})/.exec(trimmed);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(trimmed);
+  if (match) return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+
+  return null;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value.trim().replace(/^"|"$/g, '').replace(/[$,]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a daily OHLC CSV with a header row (Date, Open, High, Low, Close and
+ * optionally Adj Close and Volume, in any order and case). Adjusted closes are
+ * preferred when present. Rows that cannot be read are counted and skipped.
+ */
+export function parsePriceCsv(content: string): { bars: PriceBar[]; errorCount: number } {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return { bars: [], errorCount: 0 };
+
+  const header = lines[0].split(',').map(name => name.trim().replace(/^"|"$/g, '').toLowerCase());
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+  const dateIndex = column('date', 'timestamp', 'time');
+  const openIndex = column('open');
+  const highIndex = column('high');
+  const lowIndex = column('low');
+  const closeIndex = column('adj close', 'adj_close', 'adjclose', 'close');
+  const volumeIndex = column('volume');
+
+  if (dateIndex === -1 || closeIndex === -1) {
+    throw new Error('Price CSV needs at least Date and Close columns');
+  }
+
+  const byDate = new Map<string, PriceBar>();
+  let errorCount = 0;
+
+  lines.slice(1).forEach(line => {
+    const cells = line.split(',');
+    const date = normalizeCsvDate(cells[dateIndex] || '');
+    const close = parseNumber(cells[closeIndex]);
+    if (!date || close === null || close <= 0) {
+      errorCount += 1;
+      return;
+    }
+
+    // Missing open/high/low fall back to the close so the bar is still usable
+    const open = openIndex === -1 ? close : parseNumber(cells[openIndex]) ?? close;
+    byDate.set(date, {
+      date,
+      open,
+      high: highIndex === -1 ? Math.max(open, close) : parseNumber(cells[highIndex]) ?? Math.max(open, close),
+      low: lowIndex === -1 ? Math.min(open, close) : parseNumber(cells[lowIndex]) ?? Math.min(open, close),
+      close,
+      volume: volumeIndex === -1 ? null : parseNumber(cells[volumeIndex])
+    });
+  });
+
+  const bars = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  return { bars, errorCount };
+}
+
+// Reads price CSVs from a directory, re-parsing a file only when it changes
+export class PriceDataStore {
+  private cache = new Map<string, { version: string; series: PriceSeries }>();
+
+  constructor(private readonly dataDir: string) {}
+
+  private async listFiles(): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+    try {
+      (await fs.promises.readdir(this.dataDir)).sort().forEach(file => {
+        const match = PRICE_FILE_PATTERN.exec(file);
+        if (match && !files.has(match[1].toUpperCase())) {
+          files.set(match[1].toUpperCase(), path.join(this.dataDir, file));
+        }
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Could not read price files from ${this.dataDir}:`, error);
+      }
+    }
+    return files;
+  }
+
+  // Tickers that have a price file
+  public async listTickers(): Promise<string[]> {
+    return Array.from((await this.listFiles()).keys()).sort();
+  }
+
+  // Daily bars for a ticker, or null when there is no price file for it
+  public async getPrices(ticker: string): Promise<PriceSeries | null> {
+    const symbol = ticker.toUpperCase();
+    const filePath = (await this.listFiles()).get(symbol);
+    if (!filePath) return null;
+
+    const stats = await fs.promises.stat(filePath);
+    const version = `${stats.mtimeMs}:${stats.size}`;
+    const cached = this.cache.get(symbol);
+    if (cached && cached.version === version && cached.series.file === filePath) {
+      return cached.series;
+    }
+
+    const { bars, errorCount } = parsePriceCsv(await fs.promises.readFile(filePath, 'utf-8'));
+    if (errorCount > 0) {
+      console.warn(`Skipped ${errorCount} malformed rows in ${filePath}`);
+    }
+
+    const series: PriceSeries = { ticker: symbol, file: path.basename(filePath), bars, errorCount };
+    this.cache.set(symbol, { version, series });
+    return series;
+  }
+}
+
+// Price files live next to the news files unless PRICE_DATA_DIR says otherwise
+export function getPriceDataDir(): string {
+  return process.env.PRICE_DATA_DIR
+    ? path.resolve(process.env.PRICE_DATA_DIR)
+    : getNewsDataDir();
+}
+
+let sharedStore: PriceDataStore | null = null;
+
+export function getPriceDataStore(): PriceDataStore {
+  if (!sharedStore) {
+    sharedStore = new PriceDataStore(getPriceDataDir());
+  }
+  return sharedStore;
+}
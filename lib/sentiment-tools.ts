@@ -0,0 +1,347 @@
+// lib/sentiment-tools.ts
+import { SchemaType, type FunctionDeclaration } from '@google/generative-ai';
+import type { ArticleCitation, NewsItem, SentimentAnalyzer } from './sentiment-utils';
+import { detectAnomalies, parseAnomalyOptions, type AnomalyReport } from './anomaly-detector';
+
+// A function the chat model can call, backed by the sentiment analyzer
+interface SentimentTool {
+  declaration: FunctionDeclaration;
+  execute(args: Record<string, any>, analyzer: SentimentAnalyzer): object;
+}
+
+// Keep tool results small: headlines only, never the full article lists.
+// When tickers are given, each headline also carries those tickers' own scores.
+function summarizeArticles(articles: NewsItem[], limit: number = 5, tickers?: string[]) {
+  return articles.slice(0, limit).map(article => ({
+    id: article.id,
+    title: article.title,
+    timestamp: article.timestamp,
+    sentiment: Number(article.sentiment.score.toFixed(3)),
+    label: article.sentiment.label,
+    tickers: article.entities.stocks,
+    ...(tickers && {
+      tickerSentiment: article.tickerSentiment
+        .filter(entry => tickers.includes(entry.ticker.toUpperCase()))
+        .map(entry => ({
+          ticker: entry.ticker,
+          score: Number(entry.score.toFixed(3)),
+          relevance: Number(entry.relevance.toFixed(3))
+        }))
+    })
+  }));
+}
+
+// Anomalies without the baseline internals the model does not need
+function summarizeAnomalies(report: AnomalyReport) {
+  return {
+    type: report.type,
+    checkedDays: { from: report.from, to: report.to },
+    baseline: `${report.windowDays}-day rolling window, |z| >= ${report.zThreshold}`,
+    anomalies: report.anomalies.map(anomaly => ({
+      kind: anomaly.kind,
+      entity: anomaly.entity,
+      date: anomaly.date,
+      zScore: Number(anomaly.zScore.toFixed(2)),
+      description: anomaly.message,
+      headlines: anomaly.headlines
+    }))
+  };
+}
+
+const SENTIMENT_TOOLS: Record<string, SentimentTool> = {
+  getStockSentiment: {
+    declaration: {
+      name: 'getStockSentiment',
+      description: 'News sentiment for one company: average score (-1 to 1), trend, article counts and recent headlines.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          ticker: {
+            type: SchemaType.STRING,
+            description: 'Ticker symbol (e.g. "MSFT") or company name (e.g. "Alphabet")'
+          }
+        },
+        required: ['ticker']
+      }
+    },
+    execute: ({ ticker }, analyzer) => {
+      const { articles, ...stats } = analyzer.getStockSentiment(String(ticker));
+      return { query: ticker, ...stats, recentHeadlines: summarizeArticles(articles, 5, stats.tickers) };
+    }
+  },
+
+  getSectorSentiment: {
+    declaration: {
+      name: 'getSectorSentiment',
+      description: 'News sentiment for a sector or topic such as "Technology", "Earnings", "Blockchain" or "Life Sciences", including the most mentioned stocks.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          sector: {
+            type: SchemaType.STRING,
+            description: 'Sector or topic name'
+          }
+        },
+        required: ['sector']
+      }
+    },
+    execute: ({ sector }, analyzer) => {
+      const { articles, ...stats } = analyzer.getSectorSentiment(String(sector));
+      return { query: sector, ...stats, recentHeadlines: summarizeArticles(articles) };
+    }
+  },
+
+  getMarketOverview: {
+    declaration: {
+      name: 'getMarketOverview',
+      description: 'Overall market sentiment: average score, sentiment distribution and the most covered sectors and stocks.'
+    },
+    execute: (_args, analyzer) => analyzer.getMarketOverview()
+  },
+
+  searchNews: {
+    declaration: {
+      name: 'searchNews',
+      description: 'Full-text news search, best matches first with a preference for recent articles. Supports "quoted phrases" and -excluded words, plus date and sentiment filters.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          query: {
+            type: SchemaType.STRING,
+            description: 'Search text'
+          },
+          limit: {
+            type: SchemaType.INTEGER,
+            description: 'Maximum number of articles (default 10)'
+          },
+          from: {
+            type: SchemaType.STRING,
+            description: 'Earliest publication date, YYYY-MM-DD'
+          },
+          to: {
+            type: SchemaType.STRING,
+            description: 'Latest publication date, YYYY-MM-DD'
+          },
+          sentiment: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['positive', 'negative', 'neutral'],
+            description: 'Only articles with this overall sentiment'
+          }
+        },
+        required: ['query']
+      }
+    },
+    execute: ({ query, limit = 10, from, to, sentiment }, analyzer) => {
+      const page = analyzer.searchArticles(String(query), {
+        limit: Number(limit),
+        from,
+        to,
+        sentiment: ['positive', 'negative', 'neutral'].includes(sentiment) ? sentiment : undefined
+      });
+      return {
+        query,
+        totalMatches: page.total,
+        articles: summarizeArticles(page.results.map(hit => hit.article), Number(limit))
+      };
+    }
+  },
+
+  compareSentiment: {
+    declaration: {
+      name: 'compareSentiment',
+      description: 'Side-by-side comparison of 2-10 stocks or sectors: mean score, article volume, bullish/bearish ratios, how often they are covered together and how far their daily sentiment diverges. Use this for "compare X vs Y" questions.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          queries: {
+            type: SchemaType.ARRAY,
+            items: { type: SchemaType.STRING },
+            description: 'Tickers, company names or sectors to compare'
+          },
+          type: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['stock', 'sector'],
+            description: 'Whether the queries are stocks or sectors (default stock)'
+          }
+        },
+        required: ['queries']
+      }
+    },
+    execute: ({ queries, type }, analyzer) => {
+      const list: string[] = Array.isArray(queries) ? queries.map(String).slice(0, 10) : [];
+      if (list.length < 2) {
+        return { error: 'Provide at least two tickers or sectors to compare' };
+      }
+
+      const comparison = analyzer.compareSentiment(list, type === 'sector' ? 'sector' : 'stock');
+      return {
+        type: comparison.type,
+        dateRange: comparison.dates.length > 0
+          ? { from: comparison.dates[0], to: comparison.dates[comparison.dates.length - 1] }
+          : null,
+        entities: comparison.entities.map(({ dailyScores, ...entity }) => entity),
+        pairs: comparison.pairs
+      };
+    }
+  },
+
+  getSentimentTimeSeries: {
+    declaration: {
+      name: 'getSentimentTimeSeries',
+      description: 'Day-by-day or week-by-week sentiment for a stock or sector, for questions about how sentiment moved over time.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          query: {
+            type: SchemaType.STRING,
+            description: 'Ticker, company name or sector'
+          },
+          type: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['stock', 'sector'],
+            description: 'Whether query is a stock or a sector (default stock)'
+          },
+          interval: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['day', 'week'],
+            description: 'Bucket size (default day)'
+          },
+          from: {
+            type: SchemaType.STRING,
+            description: 'Start date, YYYY-MM-DD'
+          },
+          to: {
+            type: SchemaType.STRING,
+            description: 'End date, YYYY-MM-DD'
+          }
+        },
+        required: ['query']
+      }
+    },
+    execute: ({ query, type, interval, from, to }, analyzer) => ({
+      query,
+      points: analyzer.getSentimentTimeSeries(String(query), {
+        type: type === 'sector' ? 'sector' : 'stock',
+        interval: interval === 'week' ? 'week' : 'day',
+        from,
+        to
+      })
+    })
+  },
+
+  getAnomalies: {
+    declaration: {
+      name: 'getAnomalies',
+      description: 'Unusual days in the news: tickers or sectors whose article volume spiked or whose sentiment reversed compared with their own recent baseline. Use for "what\'s unusual", "any spikes" or "what stands out" questions.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          type: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: ['stock', 'sector'],
+            description: 'Check stocks or sectors (default stock)'
+          },
+          query: {
+            type: SchemaType.STRING,
+            description: 'Only check this ticker or sector'
+          },
+          days: {
+            type: SchemaType.INTEGER,
+            description: 'Number of most recent days to check (default 1)'
+          }
+        }
+      }
+    },
+    execute: (args, analyzer) => {
+      const parsed = parseAnomalyOptions({ type: args.type, query: args.query, days: args.days, limit: 10 });
+      if ('error' in parsed) return { error: parsed.error };
+      return summarizeAnomalies(detectAnomalies(analyzer, parsed.options));
+    }
+  }
+};
+
+export const sentimentFunctionDeclarations: FunctionDeclaration[] =
+  Object.values(SENTIMENT_TOOLS).map(tool => tool.declaration);
+
+// Questions that get the latest anomalies added to the prompt up front
+const UNUSUAL_PATTERN = /\b(unusual|anomal\w*|spik(e|es|ed|ing)|outliers?|abnormal|out of the ordinary|stand(s|ing)? out|surprising)\b/i;
+
+// Latest stock and sector anomalies as prompt context, or null if the question is not about them
+export function getAnomalyContext(text: string, analyzer: SentimentAnalyzer): string | null {
+  if (!UNUSUAL_PATTERN.test(text)) return null;
+
+  const findings = (['stock', 'sector'] as const).map(type => {
+    const parsed = parseAnomalyOptions({ type, limit: 10 });
+    return 'options' in parsed ? summarizeAnomalies(detectAnomalies(analyzer, parsed.options)) : null;
+  });
+  return `Unusual activity on the latest day of news data, from the anomaly detector:\n${JSON.stringify(findings)}`;
+}
+
+// Stocks named in a question that get their own entry in the sentiment snapshot
+const MAX_SNAPSHOT_TICKERS = 3;
+
+// Models without function calling cannot fetch data, so they get the market
+// overview and the sentiment of each stock the question names up front
+export function getSentimentSnapshotContext(text: string, analyzer: SentimentAnalyzer): string {
+  const tickers = Array.from(new Set(analyzer.findTickerMentions(text).flatMap(mention => mention.primary ? [mention.primary] : [])))
+    .slice(0, MAX_SNAPSHOT_TICKERS);
+  const snapshot = {
+    marketOverview: executeSentimentTool('getMarketOverview', {}, analyzer),
+    stocks: tickers.map(ticker => executeSentimentTool('getStockSentiment', { ticker }, analyzer))
+  };
+  return `News sentiment data for this question (no tools are available, so answer from this data):\n${JSON.stringify(snapshot)}`;
+}
+
+// Run a tool requested by the model; failures are returned to the model, not thrown
+export function executeSentimentTool(
+  name: string,
+  args: Record<string, any>,
+  analyzer: SentimentAnalyzer
+): object {
+  const tool = SENTIMENT_TOOLS[name];
+  if (!tool) {
+    return { error: `Unknown tool: ${name}` };
+  }
+
+  try {
+    return tool.execute(args || {}, analyzer);
+  } catch (error) {
+    console.error(`Error executing tool ${name}:`, error);
+    return { error: error instanceof Error ? error.message : 'Tool execution failed' };
+  }
+}
+
+// Article ids cited in an answer, e.g. "[20250801_3]" or "[20250801_3, 20250802_7]"
+const CITATION_PATTERN = /\[(\d{8}_\d+(?:\s*,\s*\d{8}_\d+)*)\]/g;
+const ARTICLE_ID_PATTERN = /\b\d{8}_\d+\b/g;
+
+// Add every article id mentioned in a tool result or prompt context to a set
+export function collectArticleIds(source: object | string, ids: Set<string>): Set<string> {
+  const text = typeof source === 'string' ? source : JSON.stringify(source);
+  for (const [id] of text.matchAll(ARTICLE_ID_PATTERN)) ids.add(id);
+  return ids;
+}
+
+// Resolve the articles cited in a reply, numbered in order of first citation.
+// Only ids the model was shown this turn count; others (made up, or
+// remembered from earlier) are dropped even when the corpus has them.
+export function collectCitations(text: string, analyzer: SentimentAnalyzer, shownIds: Set<string>): ArticleCitation[] {
+  const citations: ArticleCitation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    match[1].split(',').map(id => id.trim()).forEach(id => {
+      if (seen.has(id) || !shownIds.has(id)) return;
+      seen.add(id);
+      const citation = analyzer.getArticleCitation(id, citations.length + 1);
+      if (citation) citations.push(citation);
+    });
+  }
+
+  return citations;
+}
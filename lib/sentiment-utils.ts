@@ -1,6 +1,22 @@
 // lib/sentiment-utils.ts
-import fs from 'fs';
-import path from 'path';
+import {
+  createDefaultNewsSourceRegistry,
+  type NewsDataSource,
+  type NewsSourceKind,
+  type NewsSourceRegistry
+} from './news-sources';
+import { findTickerMentions, resolveTicker, type TickerResolution } from './ticker-resolver';
+import { getAlertEngine } from './alert-engine';
+import {
+  NewsSearchIndex,
+  SearchCursorError,
+  decodeCursor,
+  encodeCursor,
+  getSearchSignature,
+  type NewsSearchFilters,
+  type NewsSearchOptions,
+  type NewsSearchPage
+} from './news-search';
 
 // Updated interfaces to match your actual JSON structure
 export interface Topic {
@@ -39,97 +55,475 @@ export interface NewsItem {
     sectors: string[];
     companies: string[];
   };
+  tickerSentiment: ArticleTickerSentiment[];
   keywords: string[];
   relevance_score: number;
 }
 
+// One ticker's own sentiment within an article
+export interface ArticleTickerSentiment {
+  ticker: string;
+  score: number; // -1 to 1
+  label: string; // provider label, e.g. "Somewhat-Bullish"
+  relevance: number; // 0 to 1, how central the ticker is to the article
+}
+
 // Raw data structure from your JSON files
 export interface RawSentimentData {
   [date: string]: RawNewsItem[];
 }
 
+export type TimeSeriesInterval = 'day' | 'week';
+
+// One bucket of a sentiment time series
+export interface SentimentTimeSeriesPoint {
+  date: string; // YYYY-MM-DD (first day of the bucket)
+  articleCount: number;
+  weightedScore: number; // mean score weighted by relevance
+  bullishCount: number;
+  bearishCount: number;
+  neutralCount: number;
+}
+
+export interface SentimentTimeSeriesOptions {
+  type?: 'stock' | 'sector';
+  interval?: TimeSeriesInterval;
+  from?: string; // YYYYMMDD or YYYY-MM-DD
+  to?: string;
+}
+
+// An article as shown when a chat answer cites it
+export interface ArticleCitation {
+  id: string;
+  number: number; // footnote number in the order first cited
+  title: string;
+  timestamp: string;
+  sentiment: { score: number; label: 'positive' | 'negative' | 'neutral' };
+  topics: string[];
+  tickers: ArticleTickerSentiment[];
+}
+
+// Current state of one watched ticker
+export interface TickerSnapshot {
+  query: string;
+  ticker: string | null; // resolved primary symbol
+  trend: 'bullish' | 'bearish' | 'neutral';
+  avgSentiment: number;
+  totalArticles: number;
+  recentScore: number | null; // last 7 days of the corpus
+  previousScore: number | null; // the 7 days before that
+  scoreChange7d: number | null;
+  latestHeadline: { id: string; title: string; timestamp: string; score: number | null } | null;
+}
+
+// One ticker or topic in a side-by-side comparison
+export interface ComparisonEntity {
+  query: string;
+  label: string; // resolved ticker for stocks, the query for sectors
+  meanScore: number;
+  articleCount: number;
+  bullishRatio: number;
+  bearishRatio: number;
+  trend: 'bullish' | 'bearish' | 'neutral';
+  dailyScores: Array<number | null>; // aligned with SentimentComparison.dates
+}
+
+export interface ComparisonPair {
+  a: string;
+  b: string;
+  coMentions: number; // articles covering both
+  meanScoreGap: number; // a.meanScore - b.meanScore
+  sharedDates: number; // days on which both have coverage
+  meanDivergence: number | null; // mean absolute daily score difference on shared days
+  maxDivergence: { date: string; value: number } | null;
+}
+
+export interface SentimentComparison {
+  type: 'stock' | 'sector';
+  dates: string[];
+  entities: ComparisonEntity[];
+  pairs: ComparisonPair[];
+}
+
+export type NetworkType = 'ticker' | 'topic';
+
+export interface NetworkNode {
+  id: string; // ticker symbol or topic name
+  articleCount: number;
+  avgSentiment: number; // ticker's own score for tickers, article score for topics
+}
+
+// Articles covering both ends of the edge
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  weight: number; // number of co-mentioning articles
+  avgSentiment: number;
+  bullishCount: number;
+  bearishCount: number;
+}
+
+export interface NetworkOptions {
+  type?: NetworkType;
+  focus?: string; // only this node and its strongest neighbours
+  limit?: number; // maximum nodes
+  minWeight?: number; // drop edges with fewer co-mentions
+  from?: string; // YYYYMMDD or YYYY-MM-DD
+  to?: string;
+}
+
+export interface CoMentionNetwork {
+  type: NetworkType;
+  focus: string | null;
+  totalArticles: number; // articles in the date range
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+}
+
+export interface NewsSourceStatus {
+  id: string;
+  kind: NewsSourceKind;
+  location: string;
+  state: 'pending' | 'loaded' | 'error';
+  error?: string;
+  articleCount: number;
+  dateRange: { from: string; to: string } | null;
+  errorCount: number;
+}
+
+// Transformed articles plus precomputed lookups, rebuilt only when sources change
+interface NewsCorpus {
+  items: NewsItem[];
+  byId: Map<string, NewsItem>;
+  byTicker: Map<string, NewsItem[]>; // upper-case ticker
+  byTopic: Map<string, NewsItem[]>; // lower-case topic
+  byDate: Map<string, NewsItem[]>; // YYYYMMDD
+  searchIndex: NewsSearchIndex | null; // built on the first full-text search
+}
+
+// How often ready() checks the sources for changes on disk
+const SOURCE_CHECK_INTERVAL_MS = 5000;
+// As-of corpora kept at once; replays usually revisit one or two cutoffs
+const MAX_AS_OF_CORPORA = 4;
+
+function addToIndex(index: Map<string, NewsItem[]>, key: string, item: NewsItem) {
+  const items = index.get(key);
+  if (items) items.push(item);
+  else index.set(key, [item]);
+}
+
+function createCorpus(): NewsCorpus {
+  return {
+    items: [],
+    byId: new Map(),
+    byTicker: new Map(),
+    byTopic: new Map(),
+    byDate: new Map(),
+    searchIndex: null
+  };
+}
+
+function addToCorpus(corpus: NewsCorpus, date: string, item: NewsItem) {
+  corpus.items.push(item);
+  corpus.byId.set(item.id, item);
+  addToIndex(corpus.byDate, date, item);
+  new Set(item.entities.stocks.map(stock => stock.toUpperCase()))
+    .forEach(ticker => addToIndex(corpus.byTicker, ticker, item));
+  new Set(item.entities.sectors.map(sector => sector.toLowerCase()))
+    .forEach(topic => addToIndex(corpus.byTopic, topic, item));
+}
+
+/**
+ * Normalize an as-of value to the timestamp format used by NewsItem.
+ * A bare date ("2025-07-15" or "20250715") means the end of that day (UTC);
+ * anything Date can parse is used as an exact cutoff. Returns null if invalid.
+ */
+export function normalizeAsOf(value: string): string | null {
+  const trimmed = value.trim();
+  const day = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(trimmed);
+  const date = day
+    ? new Date(`${day[1]}-${day[2]}-${day[3]}T23:59:59Z`)
+    : new Date(trimmed);
+
+  if (!trimmed || isNaN(date.getTime())) return null;
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// Same thresholds for articles and for individual tickers
+function getSentimentLabel(score: number): 'positive' | 'negative' | 'neutral' {
+  if (score > 0.1) return 'positive';
+  if (score < -0.1) return 'negative';
+  return 'neutral';
+}
+
+// An article's sentiment towards a set of tickers (share classes of one company).
+// The score is the relevance-weighted mean of those tickers' own scores; weight is
+// their combined relevance, or 1 when the provider reported no relevance.
+function getTickerScore(article: NewsItem, tickers: Set<string>): { score: number; weight: number } | null {
+  const entries = article.tickerSentiment.filter(entry => tickers.has(entry.ticker.toUpperCase()));
+  if (entries.length === 0) return null;
+
+  const relevance = entries.reduce((sum, entry) => sum + entry.relevance, 0);
+  if (relevance <= 0) {
+    return { score: entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length, weight: 1 };
+  }
+
+  return {
+    score: entries.reduce((sum, entry) => sum + entry.score * entry.relevance, 0) / relevance,
+    weight: relevance
+  };
+}
+
+// Relevance-weighted ticker sentiment over a set of articles
+function aggregateTickerSentiment(articles: NewsItem[], tickers: Set<string>): {
+  meanScore: number;
+  positiveCount: number;
+  negativeCount: number;
+  neutralCount: number;
+} {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  const counts = { positive: 0, negative: 0, neutral: 0 };
+
+  articles.forEach(article => {
+    const tickerScore = getTickerScore(article, tickers);
+    if (!tickerScore) return;
+    weightedSum += tickerScore.score * tickerScore.weight;
+    totalWeight += tickerScore.weight;
+    counts[getSentimentLabel(tickerScore.score)] += 1;
+  });
+
+  return {
+    meanScore: totalWeight > 0 ? weightedSum / totalWeight : 0,
+    positiveCount: counts.positive,
+    negativeCount: counts.negative,
+    neutralCount: counts.neutral
+  };
+}
+
 export class SentimentAnalyzer {
-  private julyData: RawSentimentData | null = null;
-  private augustData: RawSentimentData | null = null;
+  private sourceData = new Map<string, RawSentimentData>();
+  private sourceStatus = new Map<string, NewsSourceStatus>();
+  private sourceVersions = new Map<string, string | null>();
+  private corpus: NewsCorpus | null = null;
+  private loading: Promise<void>;
+  private lastSourceCheck = Date.now();
+  private dataVersion = 0;
+  private dataListeners = new Set<(version: number) => void>();
+  // Corpora cut off at an as-of timestamp, rebuilt lazily after each data change.
+  // Each is a copy of most of the corpus, so only the most recently used are kept
+  private asOfCorpora = new Map<string, NewsCorpus>();
 
-  constructor() {
-    this.loadData();
+  constructor(private registry: NewsSourceRegistry = createDefaultNewsSourceRegistry()) {
+    this.loading = this.refreshSources();
   }
 
-  private loadData() {
-    try {
-      const dataDir = path.join(process.cwd(), 'data');
-      
-      // Load July data
-      const julyPath = path.join(dataDir, 'simulated_July_news_2025.json');
-      if (fs.existsSync(julyPath)) {
-        try {
-          const julyContent = fs.readFileSync(julyPath, 'utf-8');
-          const parsedJulyData = JSON.parse(julyContent);
-          
-          // Validate the structure
-          if (parsedJulyData && typeof parsedJulyData === 'object') {
-            this.julyData = parsedJulyData;
-          } else {
-            console.warn('July data does not have expected structure');
-            this.julyData = null;
-          }
-        } catch (parseError) {
-          console.error('Error parsing July data:', parseError);
-          this.julyData = null;
-        }
+  // Resolves once every registered source has finished loading (or failed),
+  // reloading any source whose data changed since the last check
+  public ready(): Promise<void> {
+    if (Date.now() - this.lastSourceCheck > SOURCE_CHECK_INTERVAL_MS) {
+      this.lastSourceCheck = Date.now();
+      this.loading = this.loading.then(() => this.refreshSources());
+    }
+    return this.loading;
+  }
+
+  private async refreshSources() {
+    const sources = this.registry.rediscover().getSources();
+    const sourceIds = new Set(sources.map(source => source.id));
+    let changed = false;
+
+    // Forget sources that are no longer registered (e.g. deleted files)
+    Array.from(this.sourceStatus.keys()).forEach(id => {
+      if (sourceIds.has(id)) return;
+      this.sourceStatus.delete(id);
+      this.sourceData.delete(id);
+      this.sourceVersions.delete(id);
+      changed = true;
+    });
+
+    await Promise.all(sources.map(async source => {
+      const version = source.getVersion ? await source.getVersion() : null;
+      if (this.sourceStatus.has(source.id) && this.sourceVersions.get(source.id) === version) {
+        return;
       }
 
-      // Load August data
-      const augustPath = path.join(dataDir, 'simulated_August_news_2025.json');
-      if (fs.existsSync(augustPath)) {
+      this.sourceVersions.set(source.id, version);
+      await this.loadSource(source);
+      changed = true;
+    }));
+
+    if (changed) {
+      this.corpus = null;
+      this.asOfCorpora.clear();
+      this.dataVersion += 1;
+      this.dataListeners.forEach(listener => {
         try {
-          const augustContent = fs.readFileSync(augustPath, 'utf-8');
-          const parsedAugustData = JSON.parse(augustContent);
-          
-          // Validate the structure
-          if (parsedAugustData && typeof parsedAugustData === 'object') {
-            this.augustData = parsedAugustData;
-          } else {
-            console.warn('August data does not have expected structure');
-            this.augustData = null;
-          }
-        } catch (parseError) {
-          console.error('Error parsing August data:', parseError);
-          this.augustData = null;
+          listener(this.dataVersion);
+        } catch (error) {
+          console.error('Error in news data listener:', error);
         }
+      });
+    }
+  }
+
+  // Called after every load that changed the corpus; returns an unsubscribe function
+  public onDataLoaded(listener: (version: number) => void): () => void {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  // Increments whenever sources are added, removed or reloaded
+  public getDataVersion(): number {
+    return this.dataVersion;
+  }
+
+  private async loadSource(source: NewsDataSource) {
+    const status: NewsSourceStatus = {
+      id: source.id,
+      kind: source.kind,
+      location: source.location,
+      state: 'pending',
+      articleCount: 0,
+      dateRange: null,
+      errorCount: 0
+    };
+    this.sourceStatus.set(source.id, status);
+
+    try {
+      const { data, errorCount } = await source.load();
+      const dates = Object.keys(data).sort();
+
+      this.sourceData.set(source.id, data);
+      status.state = 'loaded';
+      status.errorCount = errorCount;
+      status.articleCount = dates.reduce((sum, date) => sum + data[date].length, 0);
+      status.dateRange = dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+
+      if (errorCount > 0) {
+        console.warn(`News source ${source.id} loaded with ${errorCount} malformed entries`);
       }
     } catch (error) {
-      console.error('Error loading sentiment data:', error);
+      console.error(`Error loading news source ${source.id}:`, error);
+      this.sourceData.delete(source.id);
+      status.state = 'error';
+      status.error = error instanceof Error ? error.message : String(error);
+      status.errorCount += 1;
+    }
+  }
+
+  private getCorpus(): NewsCorpus {
+    if (!this.corpus) {
+      this.corpus = this.buildCorpus();
+    }
+    return this.corpus;
+  }
+
+  private buildCorpus(): NewsCorpus {
+    const corpus = createCorpus();
+    // Article ids are <date>_<n>, numbered on across sources so two sources
+    // with the same day never share an id. Sources go in id order, not load
+    // order, so an article keeps its id across restarts and reloads
+    const nextIndex = new Map<string, number>();
+
+    Array.from(this.sourceData.keys()).sort().forEach(sourceId => {
+      Object.entries(this.sourceData.get(sourceId)!).forEach(([date, articles]) => {
+        const firstIndex = nextIndex.get(date) || 0;
+        nextIndex.set(date, firstIndex + articles.length);
+        this.transformDate(articles, date, firstIndex).forEach(item => addToCorpus(corpus, date, item));
+      });
+    });
+
+    return corpus;
+  }
+
+  // Only the articles published at or before the cutoff
+  private getCorpusAsOf(cutoff: string): NewsCorpus {
+    let corpus = this.asOfCorpora.get(cutoff);
+    if (corpus) {
+      // Move to the end, which the Map keeps as most recently used
+      this.asOfCorpora.delete(cutoff);
+    } else {
+      const filtered = createCorpus();
+      this.getCorpus().byDate.forEach((items, date) => {
+        items
+          .filter(item => item.timestamp <= cutoff)
+          .forEach(item => addToCorpus(filtered, date, item));
+      });
+      corpus = filtered;
+    }
+    this.asOfCorpora.set(cutoff, corpus);
+    if (this.asOfCorpora.size > MAX_AS_OF_CORPORA) {
+      this.asOfCorpora.delete(this.asOfCorpora.keys().next().value!);
+    }
+    return corpus;
+  }
+
+  /**
+   * A view of this analyzer that only sees news published up to the given
+   * date or time, for replaying what the assistant would have known then.
+   * The view shares loaded data with this analyzer; call ready() first.
+   * Returns this analyzer unchanged when no date is given.
+   */
+  public asOf(date?: string | null): SentimentAnalyzer {
+    if (!date) return this;
+
+    const cutoff = normalizeAsOf(date);
+    if (!cutoff) {
+      throw new Error(`Invalid as-of date: ${date}`);
     }
+
+    const view: SentimentAnalyzer = Object.create(this);
+    view.getCorpus = () => this.getCorpusAsOf(cutoff);
+    view.ready = () => this.ready();
+    view.asOf = (other?: string | null) => this.asOf(other || date);
+    return view;
+  }
+
+  // Transform every article of one day, skipping any that fail
+  private transformDate(articles: RawNewsItem[], date: string, firstIndex: number = 0): NewsItem[] {
+    const items: NewsItem[] = [];
+
+    articles.forEach((article, index) => {
+      try {
+        items.push(this.transformRawItem(article, date, firstIndex + index));
+      } catch (error) {
+        console.warn(`Error transforming article ${index} from ${date}:`, error);
+      }
+    });
+
+    return items;
   }
 
   // Transform raw data to our internal format
   private transformRawItem(rawItem: RawNewsItem, date: string, index: number): NewsItem {
+    // Keep each ticker's own sentiment alongside the article-level score
+    const tickerSentiment: ArticleTickerSentiment[] = (rawItem.ticker_sentiment || []).map(ticker => ({
+      ticker: ticker.ticker,
+      score: parseFloat(ticker.ticker_sentiment_score) || 0,
+      label: ticker.ticker_sentiment_label,
+      relevance: parseFloat(ticker.relevance_score) || 0
+    }));
+
     // Calculate overall sentiment from ticker sentiments
     let overallScore = 0;
     let totalRelevance = 0;
-    
-    if (rawItem.ticker_sentiment && rawItem.ticker_sentiment.length > 0) {
-      rawItem.ticker_sentiment.forEach(ticker => {
-        const relevance = parseFloat(ticker.relevance_score) || 0;
-        const score = parseFloat(ticker.ticker_sentiment_score) || 0;
-        overallScore += score * relevance;
-        totalRelevance += relevance;
-      });
-      
-      if (totalRelevance > 0) {
-        overallScore = overallScore / totalRelevance;
-      }
+
+    tickerSentiment.forEach(ticker => {
+      overallScore += ticker.score * ticker.relevance;
+      totalRelevance += ticker.relevance;
+    });
+
+    if (totalRelevance > 0) {
+      overallScore = overallScore / totalRelevance;
     }
 
-    // Determine sentiment label
-    let sentimentLabel: 'positive' | 'negative' | 'neutral' = 'neutral';
-    if (overallScore > 0.1) sentimentLabel = 'positive';
-    else if (overallScore < -0.1) sentimentLabel = 'negative';
+    const sentimentLabel = getSentimentLabel(overallScore);
 
     // Extract stocks from ticker_sentiment
-    const stocks = rawItem.ticker_sentiment?.map(t => t.ticker) || [];
+    const stocks = tickerSentiment.map(t => t.ticker);
     
     // Extract sectors from topics
     const sectors = rawItem.topics?.map(t => t.topic) || [];
@@ -155,6 +549,7 @@ export class SentimentAnalyzer {
         sectors,
         companies: stocks // Using stocks as companies for now
       },
+      tickerSentiment,
       keywords,
       relevance_score: totalRelevance
     };
@@ -181,44 +576,68 @@ export class SentimentAnalyzer {
   }
 
   public getAllData(): NewsItem[] {
-    const allItems: NewsItem[] = [];
-    
-    // Process July data
-    if (this.julyData) {
-      Object.entries(this.julyData).forEach(([date, articles]) => {
-        if (Array.isArray(articles)) {
-          articles.forEach((article, index) => {
-            try {
-              const transformedItem = this.transformRawItem(article, date, index);
-              allItems.push(transformedItem);
-            } catch (error) {
-              console.warn(`Error transforming article ${index} from ${date}:`, error);
-            }
-          });
-        }
-      });
-    }
-    
-    // Process August data
-    if (this.augustData) {
-      Object.entries(this.augustData).forEach(([date, articles]) => {
-        if (Array.isArray(articles)) {
-          articles.forEach((article, index) => {
-            try {
-              const transformedItem = this.transformRawItem(article, date, index);
-              allItems.push(transformedItem);
-            } catch (error) {
-              console.warn(`Error transforming article ${index} from ${date}:`, error);
-            }
-          });
-        }
-      });
-    }
-    
-    return allItems;
+    return [...this.getCorpus().items];
+  }
+
+  // Union of the indexed articles whose key contains the given text
+  private collectFromIndex(index: Map<string, NewsItem[]>, text: string): NewsItem[] {
+    const matches = new Set<NewsItem>();
+    index.forEach((items, key) => {
+      if (key.includes(text)) {
+        items.forEach(item => matches.add(item));
+      }
+    });
+    return Array.from(matches);
+  }
+
+  private getKnownTickers(): Set<string> {
+    return new Set(this.getCorpus().byTicker.keys());
+  }
+
+  // Exact symbol, share class or company name lookup against the corpus tickers
+  public resolveTicker(query: string): TickerResolution {
+    return resolveTicker(query, this.getKnownTickers());
+  }
+
+  // Companies mentioned by symbol or name in free text
+  public findTickerMentions(text: string): TickerResolution[] {
+    return findTickerMentions(text, this.getKnownTickers());
+  }
+
+  private getStockArticles(stockSymbol: string): NewsItem[] {
+    const { byTicker } = this.getCorpus();
+    const matches = new Set<NewsItem>();
+
+    this.resolveTicker(stockSymbol).tickers.forEach(ticker => {
+      (byTicker.get(ticker) || []).forEach(item => matches.add(item));
+    });
+
+    return Array.from(matches);
+  }
+
+  private getSectorArticles(sectorName: string): NewsItem[] {
+    return this.collectFromIndex(this.getCorpus().byTopic, sectorName.toLowerCase());
+  }
+
+  // Every ticker or topic with at least minArticles articles, most covered first
+  public listEntities(type: 'stock' | 'sector', minArticles: number = 1): Array<{ name: string; articleCount: number }> {
+    const { byTicker, byTopic } = this.getCorpus();
+    const index = type === 'sector' ? byTopic : byTicker;
+
+    return Array.from(index.entries())
+      .filter(([, items]) => items.length >= minArticles)
+      .map(([key, items]) => ({
+        // Topics are indexed in lower case; report them as the articles spell them
+        name: type === 'sector'
+          ? items[0].entities.sectors.find(sector => sector.toLowerCase() === key) || key
+          : key,
+        articleCount: items.length
+      }))
+      .sort((a, b) => b.articleCount - a.articleCount || a.name.localeCompare(b.name));
   }
 
   public getStockSentiment(stockSymbol: string): {
+    tickers: string[];
     articles: NewsItem[];
     avgSentiment: number;
     totalArticles: number;
@@ -227,15 +646,12 @@ export class SentimentAnalyzer {
     neutralCount: number;
     trend: 'bullish' | 'bearish' | 'neutral';
   } {
-    const allData = this.getAllData();
-    const stockArticles = allData.filter(item => 
-      item.entities?.stocks?.some(stock => 
-        stock.toLowerCase().includes(stockSymbol.toLowerCase())
-      )
-    );
+    const { tickers } = this.resolveTicker(stockSymbol);
+    const stockArticles = this.getStockArticles(stockSymbol);
 
     if (stockArticles.length === 0) {
       return {
+        tickers,
         articles: [],
         avgSentiment: 0,
         totalArticles: 0,
@@ -246,16 +662,20 @@ export class SentimentAnalyzer {
       };
     }
 
-    const avgSentiment = stockArticles.reduce((sum, item) => sum + (item.sentiment?.score || 0), 0) / stockArticles.length;
-    const positiveCount = stockArticles.filter(item => item.sentiment?.label === 'positive').length;
-    const negativeCount = stockArticles.filter(item => item.sentiment?.label === 'negative').length;
-    const neutralCount = stockArticles.filter(item => item.sentiment?.label === 'neutral').length;
+    // Score each article by its sentiment towards this company, not the article as a whole
+    const {
+      meanScore: avgSentiment,
+      positiveCount,
+      negativeCount,
+      neutralCount
+    } = aggregateTickerSentiment(stockArticles, new Set(tickers));
 
     let trend: 'bullish' | 'bearish' | 'neutral' = 'neutral';
     if (avgSentiment > 0.1) trend = 'bullish';
     else if (avgSentiment < -0.1) trend = 'bearish';
 
     return {
+      tickers,
       articles: stockArticles.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
       avgSentiment,
       totalArticles: stockArticles.length,
@@ -276,12 +696,7 @@ export class SentimentAnalyzer {
     trend: 'bullish' | 'bearish' | 'neutral';
     topStocks: string[];
   } {
-    const allData = this.getAllData();
-    const sectorArticles = allData.filter(item => 
-      item.entities?.sectors?.some(sector => 
-        sector.toLowerCase().includes(sectorName.toLowerCase())
-      )
-    );
+    const sectorArticles = this.getSectorArticles(sectorName);
 
     if (sectorArticles.length === 0) {
       return {
@@ -343,7 +758,7 @@ export class SentimentAnalyzer {
       neutral: number;
     };
   } {
-    const allData = this.getAllData();
+    const allData = this.getCorpus().items;
 
     if (allData.length === 0) {
       return {
@@ -362,7 +777,7 @@ export class SentimentAnalyzer {
     const avgSentiment = allData.reduce((sum, item) => sum + (item.sentiment?.score || 0), 0) / allData.length;
     
     const sectorStats: { [sector: string]: { sentiment: number; count: number } } = {};
-    const stockStats: { [stock: string]: { sentiment: number; count: number } } = {};
+    const stockStats: { [stock: string]: { sentiment: number; weight: number; count: number } } = {};
 
     allData.forEach(article => {
       if (article.entities?.sectors) {
@@ -373,13 +788,14 @@ export class SentimentAnalyzer {
         });
       }
 
-      if (article.entities?.stocks) {
-        article.entities.stocks.forEach(stock => {
-          if (!stockStats[stock]) stockStats[stock] = { sentiment: 0, count: 0 };
-          stockStats[stock].sentiment += article.sentiment?.score || 0;
-          stockStats[stock].count += 1;
-        });
-      }
+      // Each stock is scored by its own ticker sentiment, weighted by its relevance
+      article.tickerSentiment.forEach(entry => {
+        const weight = entry.relevance > 0 ? entry.relevance : 1;
+        if (!stockStats[entry.ticker]) stockStats[entry.ticker] = { sentiment: 0, weight: 0, count: 0 };
+        stockStats[entry.ticker].sentiment += entry.score * weight;
+        stockStats[entry.ticker].weight += weight;
+        stockStats[entry.ticker].count += 1;
+      });
     });
 
     const topSectors = Object.entries(sectorStats)
@@ -394,7 +810,7 @@ export class SentimentAnalyzer {
     const topStocks = Object.entries(stockStats)
       .map(([stock, stats]) => ({
         stock,
-        sentiment: stats.count > 0 ? stats.sentiment / stats.count : 0,
+        sentiment: stats.weight > 0 ? stats.sentiment / stats.weight : 0,
         count: stats.count
       }))
       .sort((a, b) => b.count - a.count)
@@ -415,77 +831,436 @@ export class SentimentAnalyzer {
     };
   }
 
+  // Bucket articles for a stock or sector by day or week
+  public getSentimentTimeSeries(
+    query: string,
+    options: SentimentTimeSeriesOptions = {}
+  ): SentimentTimeSeriesPoint[] {
+    const { interval = 'day' } = options;
+    return this.bucketArticles(query, options, day => interval === 'week' ? this.getWeekStart(day) : day);
+  }
+
+  // One combined bucket for a date range, dated by its first day
+  public getSentimentWindow(
+    query: string,
+    options: Omit<SentimentTimeSeriesOptions, 'interval'> & { from: string; to: string }
+  ): SentimentTimeSeriesPoint {
+    const from = this.normalizeDate(options.from) || options.from;
+    const [point] = this.bucketArticles(query, options, () => from);
+    return point || {
+      date: from,
+      articleCount: 0,
+      weightedScore: 0,
+      bullishCount: 0,
+      bearishCount: 0,
+      neutralCount: 0
+    };
+  }
+
+  private bucketArticles(
+    query: string,
+    options: SentimentTimeSeriesOptions,
+    getBucketDate: (day: string) => string
+  ): SentimentTimeSeriesPoint[] {
+    const { type = 'stock' } = options;
+    const from = options.from ? this.normalizeDate(options.from) : null;
+    const to = options.to ? this.normalizeDate(options.to) : null;
+
+    const articles = type === 'sector'
+      ? this.getSectorArticles(query)
+      : this.getStockArticles(query);
+    const tickers = type === 'stock' ? new Set(this.resolveTicker(query).tickers) : null;
+
+    const buckets: { [date: string]: SentimentTimeSeriesPoint & { totalWeight: number } } = {};
+
+    articles.forEach(article => {
+      const day = article.timestamp.substring(0, 10);
+      if ((from && day < from) || (to && day > to)) return;
+
+      const bucketDate = getBucketDate(day);
+      if (!buckets[bucketDate]) {
+        buckets[bucketDate] = {
+          date: bucketDate,
+          articleCount: 0,
+          weightedScore: 0,
+          bullishCount: 0,
+          bearishCount: 0,
+          neutralCount: 0,
+          totalWeight: 0
+        };
+      }
+
+      const bucket = buckets[bucketDate];
+      // Stocks use the ticker's own score and relevance; sectors the article's.
+      // Fall back to equal weighting for articles without relevance data.
+      const tickerScore = tickers ? getTickerScore(article, tickers) : null;
+      const score = tickerScore ? tickerScore.score : (article.sentiment?.score || 0);
+      const weight = tickerScore ? tickerScore.weight : (article.relevance_score > 0 ? article.relevance_score : 1);
+      bucket.articleCount += 1;
+      bucket.weightedScore += score * weight;
+      bucket.totalWeight += weight;
+
+      const label = getSentimentLabel(score);
+      if (label === 'positive') bucket.bullishCount += 1;
+      else if (label === 'negative') bucket.bearishCount += 1;
+      else bucket.neutralCount += 1;
+    });
+
+    return Object.values(buckets)
+      .map(({ totalWeight, ...point }) => ({
+        ...point,
+        weightedScore: totalWeight > 0 ? point.weightedScore / totalWeight : 0
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Aligned metrics for several stocks or sectors over the same dates
+  public compareSentiment(queries: string[], type: 'stock' | 'sector' = 'stock'): SentimentComparison {
+    const rows = queries.map(query => {
+      const articles = type === 'sector' ? this.getSectorArticles(query) : this.getStockArticles(query);
+      const series = this.getSentimentTimeSeries(query, { type });
+      const resolution = type === 'stock' ? this.resolveTicker(query) : null;
+      return {
+        query,
+        label: resolution ? (resolution.primary || query.toUpperCase()) : query,
+        tickers: resolution ? new Set(resolution.tickers) : null,
+        articles: new Set(articles),
+        scoresByDate: new Map(series.map(point => [point.date, point.weightedScore]))
+      };
+    });
+
+    const dates = Array.from(new Set(rows.flatMap(row => Array.from(row.scoresByDate.keys())))).sort();
+
+    const entities: ComparisonEntity[] = rows.map(row => {
+      const articles = Array.from(row.articles);
+      const articleCount = articles.length;
+      let meanScore: number;
+      let bullish: number;
+      let bearish: number;
+
+      if (row.tickers) {
+        const tickerStats = aggregateTickerSentiment(articles, row.tickers);
+        meanScore = tickerStats.meanScore;
+        bullish = tickerStats.positiveCount;
+        bearish = tickerStats.negativeCount;
+      } else {
+        meanScore = articleCount > 0
+          ? articles.reduce((sum, item) => sum + (item.sentiment?.score || 0), 0) / articleCount
+          : 0;
+        bullish = articles.filter(item => item.sentiment?.label === 'positive').length;
+        bearish = articles.filter(item => item.sentiment?.label === 'negative').length;
+      }
+
+      let trend: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+      if (meanScore > 0.1) trend = 'bullish';
+      else if (meanScore < -0.1) trend = 'bearish';
+
+      return {
+        query: row.query,
+        label: row.label,
+        meanScore,
+        articleCount,
+        bullishRatio: articleCount > 0 ? bullish / articleCount : 0,
+        bearishRatio: articleCount > 0 ? bearish / articleCount : 0,
+        trend,
+        dailyScores: dates.map(date => row.scoresByDate.has(date) ? row.scoresByDate.get(date)! : null)
+      };
+    });
+
+    const pairs: ComparisonPair[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      for (let j = i + 1; j < rows.length; j++) {
+        let coMentions = 0;
+        rows[i].articles.forEach(item => {
+          if (rows[j].articles.has(item)) coMentions += 1;
+        });
+
+        const gaps = dates
+          .filter(date => rows[i].scoresByDate.has(date) && rows[j].scoresByDate.has(date))
+          .map(date => ({
+            date,
+            value: Math.abs(rows[i].scoresByDate.get(date)! - rows[j].scoresByDate.get(date)!)
+          }));
+
+        pairs.push({
+          a: entities[i].label,
+          b: entities[j].label,
+          coMentions,
+          meanScoreGap: entities[i].meanScore - entities[j].meanScore,
+          sharedDates: gaps.length,
+          meanDivergence: gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap.value, 0) / gaps.length : null,
+          maxDivergence: gaps.length > 0 ? gaps.reduce((max, gap) => gap.value > max.value ? gap : max) : null
+        });
+      }
+    }
+
+    return { type, dates, entities, pairs };
+  }
+
+  // Which tickers or topics are covered together, with sentiment per pair
+  public getCoMentionNetwork(options: NetworkOptions = {}): CoMentionNetwork {
+    const { type = 'ticker', minWeight = 2 } = options;
+    const limit = Math.max(2, Math.min(options.limit || 25, 100));
+    const from = options.from ? this.normalizeDate(options.from) : null;
+    const to = options.to ? this.normalizeDate(options.to) : null;
+
+    // Each article's distinct tickers or topics, with the sentiment it assigns to each
+    const mentions = this.getCorpus().items
+      .filter(article => {
+        const day = article.timestamp.substring(0, 10);
+        return (!from || day >= from) && (!to || day <= to);
+      })
+      .map(article => {
+        const scores = new Map<string, number>();
+        if (type === 'ticker') {
+          new Set(article.tickerSentiment.map(entry => entry.ticker.toUpperCase())).forEach(ticker => {
+            scores.set(ticker, getTickerScore(article, new Set([ticker]))!.score);
+          });
+        } else {
+          article.entities.sectors.forEach(topic => scores.set(topic, article.sentiment.score));
+        }
+        return scores;
+      });
+
+    const nodeStats = new Map<string, { articleCount: number; sentimentSum: number }>();
+    mentions.forEach(scores => scores.forEach((score, id) => {
+      const stats = nodeStats.get(id) || { articleCount: 0, sentimentSum: 0 };
+      stats.articleCount += 1;
+      stats.sentimentSum += score;
+      nodeStats.set(id, stats);
+    }));
+
+    let focus: string | null = null;
+    if (options.focus) {
+      const wanted = type === 'ticker'
+        ? (this.resolveTicker(options.focus).primary || options.focus).toUpperCase()
+        : options.focus.toLowerCase();
+      focus = Array.from(nodeStats.keys()).find(id => (type === 'ticker' ? id : id.toLowerCase()) === wanted) || null;
+    }
+
+    // The busiest nodes, or the focus node and the ones most often covered with it
+    let ranking: Array<[string, number]>;
+    if (focus) {
+      const neighbours = new Map<string, number>();
+      mentions.forEach(scores => {
+        if (!scores.has(focus!)) return;
+        scores.forEach((_, id) => {
+          if (id !== focus) neighbours.set(id, (neighbours.get(id) || 0) + 1);
+        });
+      });
+      ranking = [[focus, Infinity] as [string, number]].concat(Array.from(neighbours.entries()));
+    } else {
+      ranking = Array.from(nodeStats.entries()).map(([id, stats]) => [id, stats.articleCount]);
+    }
+    const selected = new Set(ranking
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([id]) => id));
+
+    const edgeStats = new Map<string, NetworkEdge & { sentimentSum: number }>();
+    mentions.forEach(scores => {
+      const ids = Array.from(scores.keys()).filter(id => selected.has(id)).sort();
+      ids.forEach((source, i) => ids.slice(i + 1).forEach(target => {
+        const key = `${source}\u0000${target}`;
+        const edge = edgeStats.get(key) || {
+          source, target, weight: 0, avgSentiment: 0, bullishCount: 0, bearishCount: 0, sentimentSum: 0
+        };
+        // A pair's sentiment in one article is the mean of what it says about each side
+        const score = (scores.get(source)! + scores.get(target)!) / 2;
+        const label = getSentimentLabel(score);
+        edge.weight += 1;
+        edge.sentimentSum += score;
+        if (label === 'positive') edge.bullishCount += 1;
+        if (label === 'negative') edge.bearishCount += 1;
+        edgeStats.set(key, edge);
+      }));
+    });
+
+    const edges = Array.from(edgeStats.values())
+      .filter(edge => edge.weight >= minWeight)
+      .map(({ sentimentSum, ...edge }) => ({ ...edge, avgSentiment: sentimentSum / edge.weight }))
+      .sort((a, b) => b.weight - a.weight || a.source.localeCompare(b.source))
+      .slice(0, limit * 4);
+
+    const nodes = Array.from(selected).map(id => {
+      const stats = nodeStats.get(id)!;
+      return { id, articleCount: stats.articleCount, avgSentiment: stats.sentimentSum / stats.articleCount };
+    }).sort((a, b) => b.articleCount - a.articleCount);
+
+    return { type, focus, totalArticles: mentions.length, nodes, edges };
+  }
+
+  // Sentiment, 7-day change and latest headline for one ticker. Windows end on the
+  // newest day in the corpus rather than today, so replayed data still has a change.
+  public getTickerSnapshot(stockSymbol: string): TickerSnapshot {
+    const resolution = this.resolveTicker(stockSymbol);
+    const tickers = new Set(resolution.tickers);
+    const { articles, avgSentiment, totalArticles, trend } = this.getStockSentiment(stockSymbol);
+
+    const latestDate = this.getLatestDate();
+    let recentScore: number | null = null;
+    let previousScore: number | null = null;
+
+    if (latestDate) {
+      const recentStart = this.addDays(latestDate, -6);
+      const previousStart = this.addDays(latestDate, -13);
+      const recent = articles.filter(article => article.timestamp.substring(0, 10) >= recentStart);
+      const previous = articles.filter(article => {
+        const day = article.timestamp.substring(0, 10);
+        return day >= previousStart && day < recentStart;
+      });
+      if (recent.length > 0) recentScore = aggregateTickerSentiment(recent, tickers).meanScore;
+      if (previous.length > 0) previousScore = aggregateTickerSentiment(previous, tickers).meanScore;
+    }
+
+    const latest = articles[0];
+    return {
+      query: stockSymbol,
+      ticker: resolution.primary,
+      trend,
+      avgSentiment,
+      totalArticles,
+      recentScore,
+      previousScore,
+      scoreChange7d: recentScore !== null && previousScore !== null ? recentScore - previousScore : null,
+      latestHeadline: latest
+        ? {
+            id: latest.id,
+            title: latest.title,
+            timestamp: latest.timestamp,
+            score: getTickerScore(latest, tickers)?.score ?? null
+          }
+        : null
+    };
+  }
+
+  // Newest article day in the corpus, as YYYY-MM-DD
+  public getLatestDate(): string | null {
+    const dates = Array.from(this.getCorpus().byDate.keys()).sort();
+    return dates.length > 0 ? this.normalizeDate(dates[dates.length - 1]) : null;
+  }
+
+  private addDays(day: string, days: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().substring(0, 10);
+  }
+
+  // Accept "20250715" or "2025-07-15" and return "2025-07-15"
+  private normalizeDate(date: string): string | null {
+    const digits = date.replace(/-/g, '');
+    if (!/^\d{8}$/.test(digits)) return null;
+    return `${digits.substring(0, 4)}-${digits.substring(4, 6)}-${digits.substring(6, 8)}`;
+  }
+
+  // Monday of the week containing the given YYYY-MM-DD date
+  private getWeekStart(day: string): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    const offset = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - offset);
+    return date.toISOString().substring(0, 10);
+  }
+
   public searchNews(query: string, limit: number = 20): NewsItem[] {
-    const allData = this.getAllData();
-    const lowerQuery = query.toLowerCase();
-    
-    return allData
-      .filter(item => 
-        item.title?.toLowerCase().includes(lowerQuery) ||
-        item.content?.toLowerCase().includes(lowerQuery) ||
-        item.entities?.stocks?.some(stock => stock.toLowerCase().includes(lowerQuery)) ||
-        item.entities?.sectors?.some(sector => sector.toLowerCase().includes(lowerQuery)) ||
-        item.entities?.companies?.some(company => company.toLowerCase().includes(lowerQuery)) ||
-        item.keywords?.some(keyword => keyword.toLowerCase().includes(lowerQuery))
-      )
-      .sort((a, b) => (b.relevance_score || 0) - (a.relevance_score || 0))
-      .slice(0, limit);
+    return this.searchArticles(query, { limit }).results.map(hit => hit.article);
+  }
+
+  /**
+   * Ranked full-text search with filters and cursor pagination. A cursor is only
+   * valid for the same query, filters and data version; otherwise this throws
+   * a SearchCursorError.
+   */
+  public searchArticles(query: string, options: NewsSearchOptions = {}): NewsSearchPage {
+    const corpus = this.getCorpus();
+    if (!corpus.searchIndex) {
+      corpus.searchIndex = new NewsSearchIndex(corpus.items);
+    }
+
+    const filters: NewsSearchFilters = {
+      from: options.from ? this.normalizeDate(options.from) || undefined : undefined,
+      to: options.to ? this.normalizeDate(options.to) || undefined : undefined,
+      tickers: options.ticker ? new Set(this.resolveTicker(options.ticker).tickers) : undefined,
+      topic: options.topic || undefined,
+      sentiment: options.sentiment
+    };
+    const sort = options.sort || 'relevance';
+    const limit = Math.max(1, Math.min(options.limit || 20, 100));
+
+    // The article count tells apart as-of views of the same data version
+    const signature = getSearchSignature(query, filters, sort, `${this.dataVersion}:${corpus.items.length}`);
+    const offset = options.cursor ? decodeCursor(options.cursor, signature) : 0;
+    if (offset === null) {
+      throw new SearchCursorError();
+    }
+
+    const hits = corpus.searchIndex.search(query, filters, sort);
+    const nextOffset = offset + limit;
+    return {
+      query,
+      total: hits.length,
+      results: hits.slice(offset, nextOffset),
+      nextCursor: nextOffset < hits.length ? encodeCursor(nextOffset, signature) : null
+    };
   }
 
   // Helper method to check if data is loaded properly
   public getDataStatus(): {
-    julyDataLoaded: boolean;
-    augustDataLoaded: boolean;
+    sources: NewsSourceStatus[];
     totalItems: number;
-    julyDates: string[];
-    augustDates: string[];
+    dateRange: { from: string; to: string } | null;
   } {
-    const julyDates = this.julyData ? Object.keys(this.julyData) : [];
-    const augustDates = this.augustData ? Object.keys(this.augustData) : [];
-    
+    const sources = Array.from(this.sourceStatus.values()).map(status => ({ ...status }));
+    const ranges = sources
+      .map(status => status.dateRange)
+      .filter((range): range is { from: string; to: string } => range !== null);
+
+    return {
+      sources,
+      totalItems: this.getCorpus().items.length,
+      dateRange: ranges.length > 0
+        ? {
+            from: ranges.map(range => range.from).sort()[0],
+            to: ranges.map(range => range.to).sort().reverse()[0]
+          }
+        : null
+    };
+  }
+
+  public getArticleById(id: string): NewsItem | null {
+    return this.getCorpus().byId.get(id) || null;
+  }
+
+  // Article details for a chat footnote, including each ticker's own score
+  public getArticleCitation(id: string, number: number): ArticleCitation | null {
+    const item = this.getCorpus().byId.get(id);
+    if (!item) return null;
+
     return {
-      julyDataLoaded: this.julyData !== null,
-      augustDataLoaded: this.augustData !== null,
-      totalItems: this.getAllData().length,
-      julyDates,
-      augustDates
+      id,
+      number,
+      title: item.title,
+      timestamp: item.timestamp,
+      sentiment: { score: item.sentiment.score, label: item.sentiment.label },
+      topics: item.entities.sectors,
+      tickers: item.tickerSentiment
     };
   }
 
   // Get data for a specific date
   public getDataByDate(date: string): NewsItem[] {
-    const allItems: NewsItem[] = [];
-    
-    // Check July data
-    if (this.julyData && this.julyData[date]) {
-      const articles = this.julyData[date];
-      if (Array.isArray(articles)) {
-        articles.forEach((article, index) => {
-          try {
-            const transformedItem = this.transformRawItem(article, date, index);
-            allItems.push(transformedItem);
-          } catch (error) {
-            console.warn(`Error transforming article ${index} from ${date}:`, error);
-          }
-        });
-      }
-    }
-    
-    // Check August data
-    if (this.augustData && this.augustData[date]) {
-      const articles = this.augustData[date];
-      if (Array.isArray(articles)) {
-        articles.forEach((article, index) => {
-          try {
-            const transformedItem = this.transformRawItem(article, date, index);
-            allItems.push(transformedItem);
-          } catch (error) {
-            console.warn(`Error transforming article ${index} from ${date}:`, error);
-          }
-        });
-      }
-    }
-    
-    return allItems.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    const items = this.getCorpus().byDate.get(date) || [];
+    return [...items].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+}
+
+let sharedAnalyzer: SentimentAnalyzer | null = null;
+
+// Process-wide analyzer so every route shares one loaded corpus. Alert rules
+// are evaluated on its data loads from the start, whichever route creates it
+export function getSentimentAnalyzer(): SentimentAnalyzer {
+  if (!sharedAnalyzer) {
+    sharedAnalyzer = new SentimentAnalyzer();
+    getAlertEngine();
   }
-}
\ No newline at end of file
+  return sharedAnalyzer;
+}
@@ -0,0 +1,232 @@
+// lib/ticker-resolver.ts
+
+// Share classes and dual listings that are reported as one company
+const SHARE_CLASS_GROUPS: string[][] = [
+  ['GOOGL', 'GOOG'],
+  ['BRK-A', 'BRK-B'],
+  ['FOXA', 'FOX'],
+  ['NWSA', 'NWS'],
+  ['UAA', 'UA'],
+  ['LGF-A', 'LGF-B'],
+  ['BF-A', 'BF-B'],
+  ['LBTYA', 'LBTYK'],
+  ['NTDOY', 'NTDOF']
+];
+
+// Lower-case company names and common aliases mapped to their primary ticker.
+// Ambiguous everyday words ("target", "arm", "zoom") are deliberately left out;
+// those kept but also used as ordinary words are listed in PROPER_NOUN_ALIASES.
+const COMPANY_ALIASES: Record<string, string> = {
+  'apple': 'AAPL',
+  'alphabet': 'GOOGL',
+  'google': 'GOOGL',
+  'microsoft': 'MSFT',
+  'amazon': 'AMZN',
+  'tesla': 'TSLA',
+  'meta': 'META',
+  'meta platforms': 'META',
+  'facebook': 'META',
+  'nvidia': 'NVDA',
+  'walmart': 'WMT',
+  'unilever': 'UL',
+  'warner bros': 'WBD',
+  'warner bros. discovery': 'WBD',
+  'goldman sachs': 'GS',
+  'goldman': 'GS',
+  'ibm': 'IBM',
+  'morgan stanley': 'MS',
+  'citigroup': 'C',
+  'citi': 'C',
+  'barclays': 'BCS',
+  'wells fargo': 'WFC',
+  'new york times': 'NYT',
+  'berkshire hathaway': 'BRK-A',
+  'berkshire': 'BRK-A',
+  'coinbase': 'COIN',
+  'bank of america': 'BAC',
+  's&p global': 'SPGI',
+  'invesco': 'IVZ',
+  'shutterstock': 'SSTK',
+  'starbucks': 'SBUX',
+  'boeing': 'BA',
+  'nike': 'NKE',
+  'qualcomm': 'QCOM',
+  'novo nordisk': 'NVO',
+  'blackrock': 'BLK',
+  'netflix': 'NFLX',
+  'super micro': 'SMCI',
+  'supermicro': 'SMCI',
+  'intel': 'INTC',
+  'eli lilly': 'LLY',
+  'chipotle': 'CMG',
+  'coca-cola': 'KO',
+  'coca cola': 'KO',
+  'pfizer': 'PFE',
+  'ford': 'F',
+  'home depot': 'HD',
+  'uber': 'UBER',
+  'lockheed martin': 'LMT',
+  'lockheed': 'LMT',
+  'broadcom': 'AVGO',
+  'arista': 'ANET',
+  'advanced micro devices': 'AMD',
+  'american airlines': 'AAL',
+  "moody's": 'MCO',
+  'microstrategy': 'MSTR',
+  'crowdstrike': 'CRWD',
+  'verizon': 'VZ',
+  'moderna': 'MRNA',
+  'exxon': 'XOM',
+  'exxonmobil': 'XOM',
+  'exxon mobil': 'XOM',
+  'pepsico': 'PEP',
+  'pepsi': 'PEP',
+  'shopify': 'SHOP',
+  'mongodb': 'MDB',
+  'dexcom': 'DXCM',
+  'paypal': 'PYPL',
+  'johnson & johnson': 'JNJ',
+  'costco': 'COST',
+  'pinduoduo': 'PDD',
+  'spotify': 'SPOT',
+  'zillow': 'Z',
+  'mastercard': 'MA',
+  'visa': 'V',
+  'united airlines': 'UAL',
+  'abbvie': 'ABBV',
+  'walgreens': 'WBA',
+  'tilray': 'TLRY',
+  'general motors': 'GM',
+  'american express': 'AXP',
+  'alibaba': 'BABA',
+  'cisco': 'CSCO',
+  'astrazeneca': 'AZN',
+  'delta air lines': 'DAL',
+  'palo alto networks': 'PANW',
+  'gamestop': 'GME',
+  'chevron': 'CVX',
+  'lululemon': 'LULU',
+  'booking holdings': 'BKNG',
+  'tsmc': 'TSM',
+  'taiwan semiconductor': 'TSM',
+  'airbnb': 'ABNB',
+  'roblox': 'RBLX',
+  'procter & gamble': 'PG',
+  'dell': 'DELL',
+  'sofi': 'SOFI',
+  'mercadolibre': 'MELI',
+  'reddit': 'RDDT',
+  'micron': 'MU',
+  'servicenow': 'NOW',
+  'unitedhealth': 'UNH',
+  'adobe': 'ADBE',
+  'texas instruments': 'TXN',
+  'applied materials': 'AMAT',
+  'at&t': 'T',
+  'snowflake': 'SNOW',
+  'fedex': 'FDX',
+  'roku': 'ROKU',
+  'etsy': 'ETSY',
+  'palantir': 'PLTR',
+  'rivian': 'RIVN',
+  'robinhood': 'HOOD',
+  'oracle': 'ORCL',
+  'disney': 'DIS',
+  'salesforce': 'CRM',
+  'jpmorgan': 'JPM',
+  'jp morgan': 'JPM',
+  'bitcoin': 'CRYPTO:BTC',
+  'ethereum': 'CRYPTO:ETH',
+  'dogecoin': 'CRYPTO:DOGE'
+};
+
+// Aliases that are also everyday words ("meta-analysis", "visa requirements"):
+// free text only counts them when capitalized and not part of a hyphenated word
+const PROPER_NOUN_ALIASES = new Set(['meta', 'citi', 'ford', 'visa', 'dell']);
+
+export interface TickerResolution {
+  query: string;
+  primary: string | null; // the symbol used to label results
+  tickers: string[]; // every symbol to match, share classes included
+  matchedBy: 'symbol' | 'alias' | null;
+}
+
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.\-:]{0,14}$/;
+
+function getShareClassGroup(symbol: string): string[] {
+  return SHARE_CLASS_GROUPS.find(group => group.includes(symbol)) || [symbol];
+}
+
+function normalizeSymbol(query: string): string {
+  return query.trim().replace(/^\$/, '').toUpperCase();
+}
+
+/**
+ * Resolve a user-supplied ticker or company name to exact symbols.
+ * Known symbols win over aliases, so "GOOG" stays a symbol while "Google"
+ * goes through the alias table; both end up matching GOOGL + GOOG.
+ * @param query Symbol ("aapl", "$MSFT") or company name ("Alphabet")
+ * @param knownTickers Symbols present in the corpus, if available
+ */
+export function resolveTicker(query: string, knownTickers?: Set<string>): TickerResolution {
+  const symbol = normalizeSymbol(query);
+  const alias = COMPANY_ALIASES[query.trim().toLowerCase()];
+
+  if (symbol && (knownTickers?.has(symbol) || SHARE_CLASS_GROUPS.some(group => group.includes(symbol)))) {
+    return { query, primary: symbol, tickers: getShareClassGroup(symbol), matchedBy: 'symbol' };
+  }
+
+  if (alias) {
+    return { query, primary: alias, tickers: getShareClassGroup(alias), matchedBy: 'alias' };
+  }
+
+  if (SYMBOL_PATTERN.test(symbol)) {
+    return { query, primary: symbol, tickers: [symbol], matchedBy: 'symbol' };
+  }
+
+  return { query, primary: null, tickers: [], matchedBy: null };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find companies mentioned in free text, in order of first appearance.
+ * Matches company aliases anywhere (capitalized only, for aliases that are
+ * also everyday words) and upper-case tokens (or $-prefixed tokens) that are
+ * known symbols. Single-letter tokens need a "$" prefix.
+ */
+export function findTickerMentions(text: string, knownTickers: Set<string>): TickerResolution[] {
+  const found: Array<{ index: number; resolution: TickerResolution }> = [];
+
+  Object.keys(COMPANY_ALIASES).forEach(alias => {
+    const match = PROPER_NOUN_ALIASES.has(alias)
+      ? new RegExp(`(^|[^A-Za-z0-9-])${alias[0].toUpperCase()}${escapeRegExp(alias.slice(1))}(?![A-Za-z0-9-])`).exec(text)
+      : new RegExp(`(^|[^a-z0-9])${escapeRegExp(alias)}(?![a-z0-9])`, 'i').exec(text);
+    if (match) {
+      found.push({ index: match.index + match[1].length, resolution: resolveTicker(alias, knownTickers) });
+    }
+  });
+
+  const tokenPattern = /(^|[^A-Za-z0-9$])(\$?[A-Z][A-Z0-9.\-:]*[A-Z0-9]|\$[A-Z])(?![A-Za-z0-9])/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(text)) !== null) {
+    const symbol = normalizeSymbol(match[2]);
+    if (knownTickers.has(symbol) || SHARE_CLASS_GROUPS.some(group => group.includes(symbol))) {
+      found.push({ index: match.index + match[1].length, resolution: resolveTicker(symbol, knownTickers) });
+    }
+  }
+
+  // One entry per company, keeping the earliest mention
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ resolution }) => resolution)
+    .filter(resolution => {
+      const company = resolution.tickers[0];
+      if (!company || seen.has(company)) return false;
+      seen.add(company);
+      return true;
+    });
+}
@@ -0,0 +1,170 @@
+// lib/upload-client.ts
+import type { UploadedFileInfo, UploadSession, UploadState } from './upload-sessions';
+import type { Transcript, TranscriptionProgress } from './media-transcription';
+
+export interface UploadCallbacks {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  onStateChange?: (state: UploadState) => void;
+}
+
+interface UploadResponse {
+  status: number;
+  body: { success?: boolean; data?: UploadSession; error?: string };
+}
+
+const CHUNK_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+const STATUS_POLL_MS = 2000;
+// Status checks that may fail in a row before the upload is given up
+const MAX_POLL_FAILURES = 5;
+// Unfinished uploads are remembered per file so a reload or retry resumes them
+const RESUME_KEY_PREFIX = 'upload:';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function getResumeKey(file: File): string {
+  return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// XHR rather than fetch: only XHR reports upload progress
+function sendChunk(id: string, file: File, start: number, end: number, onProgress: (loaded: number) => void): Promise<UploadResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', `/api/upload/sessions/${id}`);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.setRequestHeader('Content-Range', `bytes ${start}-${end - 1}/${file.size}`);
+    xhr.responseType = 'json';
+    xhr.upload.onprogress = event => onProgress(event.loaded);
+    xhr.onload = () => resolve({ status: xhr.status, body: xhr.response || {} });
+    xhr.onerror = () => reject(new Error('Network error while uploading'));
+    xhr.send(file.slice(start, end));
+  });
+}
+
+async function getSession(id: string): Promise<UploadSession | null> {
+  const response = await fetch(`/api/upload/sessions/${id}`);
+  if (!response.ok) return null;
+  return (await response.json()).data;
+}
+
+async function createSession(file: File): Promise<UploadSession> {
+  const response = await fetch('/api/upload/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName: file.name, mimeType: file.type, size: file.size })
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to start upload');
+  return result.data;
+}
+
+/**
+ * Upload a file in chunks with byte-level progress, then wait until Gemini has
+ * processed it. Failed chunks are retried from the server's received offset,
+ * and an interrupted upload of the same file resumes where it stopped.
+ */
+export async function uploadFileResumable(file: File, callbacks: UploadCallbacks = {}): Promise<UploadedFileInfo> {
+  const resumeKey = getResumeKey(file);
+  const savedId = localStorage.getItem(resumeKey);
+  let session = savedId ? await getSession(savedId) : null;
+  if (!session || session.state === 'failed') {
+    session = await createSession(file);
+    localStorage.setItem(resumeKey, session.id);
+  }
+
+  try {
+    callbacks.onStateChange?.(session.state);
+    let offset = session.receivedBytes;
+    callbacks.onProgress?.(offset, file.size);
+
+    let failures = 0;
+    while (session.state === 'uploading') {
+      const end = Math.min(offset + session.chunkSize, file.size);
+      try {
+        const { status, body } = await sendChunk(session.id, file, offset, end, loaded => {
+          callbacks.onProgress?.(offset + loaded, file.size);
+        });
+        // 409 means the server holds a different offset; carry on from there
+        if (body.data && (status < 300 || status === 409)) {
+          session = body.data;
+          offset = session.receivedBytes;
+          failures = 0;
+          continue;
+        }
+        throw new Error(body.error || `Upload failed with status ${status}`);
+      } catch (error) {
+        if (++failures > CHUNK_RETRIES) throw error;
+        await sleep(RETRY_DELAY_MS * failures);
+        session = (await getSession(session.id)) || session;
+        offset = session.receivedBytes;
+      }
+    }
+
+    callbacks.onProgress?.(file.size, file.size);
+    let pollFailures = 0;
+    while (session.state === 'transferring' || session.state === 'processing') {
+      callbacks.onStateChange?.(session.state);
+      await sleep(STATUS_POLL_MS);
+      const latest: UploadSession | null = await getSession(session.id).catch(() => null);
+      if (latest) {
+        session = latest;
+        pollFailures = 0;
+      } else if (++pollFailures >= MAX_POLL_FAILURES) {
+        throw new Error('Lost track of the upload while it was being processed');
+      }
+    }
+
+    callbacks.onStateChange?.(session.state);
+    if (session.state !== 'active' || !session.file) {
+      throw new Error(session.error || 'File processing failed');
+    }
+    localStorage.removeItem(resumeKey);
+    return session.file;
+  } catch (error) {
+    // A session that failed on the server cannot be resumed
+    if (session.state === 'failed') localStorage.removeItem(resumeKey);
+    throw error;
+  }
+}
+
+// One line of the /api/transcribe progress stream
+type TranscribeStreamLine =
+  | ({ type: 'progress' } & TranscriptionProgress)
+  | { type: 'result'; transcription: Transcript }
+  | { type: 'error'; error: string; details?: string };
+
+/**
+ * Transcribe an uploaded audio or video file with Whisper, reporting progress
+ * while long media is transcribed in pieces. The server reads the bytes the
+ * upload session stored, so the file is not sent twice. Failures throw with
+ * the server's details.
+ */
+export async function transcribeMedia(
+  uploadId: string,
+  onProgress?: (progress: TranscriptionProgress) => void
+): Promise<Transcript> {
+  const response = await fetch('/api/transcribe', {
+    method: 'POST',
+    headers: { Accept: 'application/x-ndjson', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uploadId })
+  });
+  if (!response.ok || !response.body) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.details || result.error || `Transcription failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    buffered += read.value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines.filter(Boolean)) {
+      const message: TranscribeStreamLine = JSON.parse(line);
+      if (message.type === 'result') return message.transcription;
+      if (message.type === 'error') throw new Error(message.details || message.error);
+      onProgress?.(message);
+    }
+  }
+  throw new Error('Transcription ended without a result');
+}
@@ -0,0 +1,392 @@
+// lib/upload-sessions.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto, { randomUUID } from 'crypto';
+import { FileState, GoogleAIFileManager } from '@google/generative-ai/server';
+import { createMockFileInfo, isMockMode } from './mock-ai';
+import { CSV_MIME_TYPE, PDF_MIME_TYPE, XLSX_MIME_TYPE, isTabularMimeType, type TablePreview } from './chat-attachments';
+import { MAX_TABULAR_BYTES, getDocumentStore, getDocumentUri, getTablePreviews } from './document-store';
+
+export const SUPPORTED_UPLOAD_TYPES = [
+  // Images
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  // Audio
+  'audio/mpeg',
+  'audio/mp3',
+  'audio/wav',
+  'audio/webm',
+  'audio/mp4',
+  'audio/m4a',
+  // Video
+  'video/mp4',
+  'video/mpeg',
+  'video/mov',
+  'video/avi',
+  'video/x-flv',
+  'video/mpg',
+  'video/webm',
+  'video/wmv',
+  'video/3gpp',
+  'video/quicktime',
+  // Documents: PDFs go to Gemini, CSV and XLSX are parsed here
+  PDF_MIME_TYPE,
+  CSV_MIME_TYPE,
+  XLSX_MIME_TYPE
+];
+
+export const UNSUPPORTED_UPLOAD_TYPE_ERROR = 'Unsupported file type. Please upload an image (JPEG, PNG, WebP), audio file (MP3, WAV, etc.), video file (MP4, MOV, etc.), PDF, CSV or XLSX spreadsheet';
+
+// Gemini's File API limit
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+// Clients send chunks of this size; each one is a separate request, so a
+// dropped connection only loses the chunk in flight
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+// Unfinished sessions are deleted after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+// A transfer to Gemini touches its session this often; one that stops (the
+// server restarted mid-transfer) is marked failed after a few missed beats
+const TRANSFER_HEARTBEAT_MS = 30 * 1000;
+const TRANSFER_STALE_MS = 4 * TRANSFER_HEARTBEAT_MS;
+const ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * uploading: the client is still sending bytes
+ * transferring: the server is sending the file on to Gemini
+ * processing: Gemini is preparing the file (videos can take minutes)
+ * active: ready to use in chat
+ */
+export type UploadState = 'uploading' | 'transferring' | 'processing' | 'active' | 'failed';
+
+// Shaped like the Gemini file info the chat route reads
+export interface UploadedFileInfo {
+  uri: string;
+  mimeType: string;
+  displayName: string;
+  name: string;
+  sizeBytes: string;
+  documentId?: string; // CSV and XLSX files, parsed into the document store
+  tables?: TablePreview[];
+  uploadId?: string; // audio and video, whose bytes stay on the server until /api/transcribe has read them
+}
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number; // bytes the client sends per request
+  receivedBytes: number;
+  state: UploadState;
+  createdAt: string;
+  updatedAt: string;
+  geminiName?: string; // set once the transfer to Gemini finished
+  file?: UploadedFileInfo; // set once the file is active
+  error?: string;
+}
+
+export type ChunkResult =
+  | { session: UploadSession }
+  | { error: string; status: number; session?: UploadSession };
+
+// Validate a new session request before anything is written
+export function parseUploadSessionInput(body: any): { input: Pick<UploadSession, 'fileName' | 'mimeType' | 'size'> } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be a JSON object' };
+  const { fileName, mimeType, size } = body;
+  if (typeof fileName !== 'string' || !fileName.trim()) return { error: 'fileName is required' };
+  if (!SUPPORTED_UPLOAD_TYPES.includes(mimeType)) {
+    return { error: UNSUPPORTED_UPLOAD_TYPE_ERROR };
+  }
+  if (!Number.isInteger(size) || size <= 0) return { error: 'size must be a positive integer' };
+  if (size > MAX_UPLOAD_BYTES) return { error: 'File too large. The maximum upload size is 2GB' };
+  if (isTabularMimeType(mimeType) && size > MAX_TABULAR_BYTES) {
+    return { error: 'Spreadsheet too large. CSV and XLSX files can be at most 20MB' };
+  }
+  return { input: { fileName: path.basename(fileName.trim()), mimeType, size } };
+}
+
+// Parse "bytes <start>-<end>/<total>" into the chunk's start offset
+export function parseContentRange(header: string | null): { start: number; end: number; total: number } | null {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(header?.trim() || '');
+  if (!match) return null;
+  const [start, end, total] = match.slice(1).map(Number);
+  return end >= start && end < total ? { start, end, total } : null;
+}
+
+function isMediaMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('audio/') || mimeType.startsWith('video/');
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha1');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+// Parse a CSV or XLSX file into the document store, shaped like an uploaded file
+export async function ingestTabularFile(fileName: string, mimeType: string, content: Buffer): Promise<UploadedFileInfo> {
+  const document = await getDocumentStore().ingest(fileName, mimeType, content);
+  return {
+    uri: getDocumentUri(document.id),
+    mimeType,
+    displayName: fileName,
+    name: `documents/${document.id}`,
+    sizeBytes: String(content.length),
+    documentId: document.id,
+    tables: getTablePreviews(document)
+  };
+}
+
+/**
+ * Chunked, resumable uploads. Bytes are appended to a part file next to a JSON
+ * session record; once complete the file is sent on to Gemini in the
+ * background, and the client polls the session for Gemini's processing state.
+ * CSV and XLSX files are parsed here instead and never reach Gemini. Audio and
+ * video keep their part file so /api/transcribe can read it without a second upload.
+ */
+export class UploadSessionStore {
+  private fileManager: GoogleAIFileManager | null = null;
+  // Pending changes per session id; each runs after the previous one finishes
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {}
+
+  private getPath(id: string, extension: 'json' | 'part'): string {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid upload id: ${id}`);
+    }
+    return path.join(this.dir, `${id}.${extension}`);
+  }
+
+  private getFileManager(): GoogleAIFileManager {
+    if (!this.fileManager) {
+      this.fileManager = new GoogleAIFileManager(process.env.GEMINI_API_KEY || '');
+    }
+    return this.fileManager;
+  }
+
+  private async write(session: UploadSession): Promise<UploadSession> {
+    const updated = { ...session, updatedAt: new Date().toISOString() };
+    const filePath = this.getPath(session.id, 'json');
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(updated), 'utf-8');
+    await fs.promises.rename(tempPath, filePath);
+    return updated;
+  }
+
+  // Run one read-modify-write of a session at a time, so an overlapping
+  // retry of a chunk sees what the request before it stored
+  private serialize<T>(id: string, change: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(id) || Promise.resolve()).then(change);
+    const tail = result.catch(() => undefined);
+    this.queues.set(id, tail);
+    tail.then(() => {
+      if (this.queues.get(id) === tail) this.queues.delete(id);
+    });
+    return result;
+  }
+
+  private async removePart(id: string): Promise<void> {
+    await fs.promises.unlink(this.getPath(id, 'part')).catch(() => undefined);
+  }
+
+  // Drop sessions nobody finished, with their part files
+  private async removeExpired(): Promise<void> {
+    const files = await fs.promises.readdir(this.dir).catch(() => [] as string[]);
+    const cutoff = Date.now() - SESSION_TTL_MS;
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => {
+        const session = await this.get(path.basename(file, '.json'));
+        if (session && Date.parse(session.updatedAt) < cutoff) await this.delete(session.id);
+      }));
+  }
+
+  public async create(input: Pick<UploadSession, 'fileName' | 'mimeType' | 'size'>): Promise<UploadSession> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await this.removeExpired();
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    await fs.promises.writeFile(this.getPath(id, 'part'), '');
+    return this.write({ id, ...input, chunkSize: UPLOAD_CHUNK_BYTES, receivedBytes: 0, state: 'uploading', createdAt: now, updatedAt: now });
+  }
+
+  public async get(id: string): Promise<UploadSession | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.promises.readFile(this.getPath(id, 'json'), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Could not read upload session ${id}:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Append one chunk. A chunk that starts before the received offset (a retry
+   * whose response was lost) only contributes its new bytes; one that starts
+   * past it is rejected so the client resumes from receivedBytes.
+   */
+  public appendChunk(id: string, start: number, total: number, bytes: Buffer): Promise<ChunkResult> {
+    return this.serialize(id, () => this.append(id, start, total, bytes));
+  }
+
+  private async append(id: string, start: number, total: number, bytes: Buffer): Promise<ChunkResult> {
+    const session = await this.get(id);
+    if (!session) return { error: 'Upload not found', status: 404 };
+    if (session.state !== 'uploading') return { error: 'Upload already complete', status: 409, session };
+    if (total !== session.size) {
+      return { error: `Content-Range total ${total} does not match the file size ${session.size}`, status: 400, session };
+    }
+    if (start > session.receivedBytes) {
+      return { error: `Expected a chunk starting at byte ${session.receivedBytes}`, status: 409, session };
+    }
+    if (start + bytes.length > session.size) {
+      return { error: 'Chunk extends past the end of the file', status: 400, session };
+    }
+
+    const fresh = bytes.subarray(session.receivedBytes - start);
+    if (fresh.length > 0) await fs.promises.appendFile(this.getPath(id, 'part'), fresh);
+
+    const updated = await this.write({ ...session, receivedBytes: session.receivedBytes + fresh.length });
+    if (updated.receivedBytes < updated.size) return { session: updated };
+
+    const transferring = await this.write({ ...updated, state: 'transferring' });
+    // Not awaited: the client polls the session instead of holding this request open
+    this.transfer(transferring).catch(error => console.error(`Upload ${id} transfer failed:`, error));
+    return { session: transferring };
+  }
+
+  // Bump updatedAt while a transfer runs, so refresh can tell it from one that died
+  private touch(id: string): Promise<unknown> {
+    return this.serialize(id, async () => {
+      const session = await this.get(id);
+      if (session?.state === 'transferring') await this.write(session);
+    });
+  }
+
+  private async transfer(session: UploadSession): Promise<void> {
+    const partPath = this.getPath(session.id, 'part');
+    const heartbeat = setInterval(() => {
+      this.touch(session.id).catch(error => console.warn(`Upload ${session.id} heartbeat failed:`, error));
+    }, TRANSFER_HEARTBEAT_MS);
+    // Queued like every other change, so a heartbeat cannot land after the final state
+    const write = (update: UploadSession) => this.serialize(session.id, () => this.write(update));
+    // Audio and video keep their part file for transcription
+    let keepPart = false;
+    try {
+      if (isTabularMimeType(session.mimeType)) {
+        try {
+          const file = await ingestTabularFile(session.fileName, session.mimeType, await fs.promises.readFile(partPath));
+          await write({ ...session, state: 'active', file });
+        } catch (error) {
+          await write({ ...session, state: 'failed', error: `Could not read ${session.fileName}: ${error instanceof Error ? error.message : 'invalid file'}` });
+        }
+        return;
+      }
+
+      if (isMockMode()) {
+        const file = createMockFileInfo({ name: session.fileName, type: session.mimeType, size: session.size }, await hashFile(partPath));
+        keepPart = isMediaMimeType(session.mimeType);
+        await write({ ...session, state: 'active', geminiName: file.name, file: { ...file, ...(keepPart && { uploadId: session.id }) } });
+        return;
+      }
+
+      const { file } = await this.getFileManager().uploadFile(partPath, {
+        mimeType: session.mimeType,
+        displayName: session.fileName
+      });
+      keepPart = isMediaMimeType(session.mimeType);
+      await write({ ...session, state: 'processing', geminiName: file.name });
+    } catch (error) {
+      keepPart = false;
+      await write({ ...session, state: 'failed', error: 'Failed to upload file to Gemini' });
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+      if (!keepPart) await this.removePart(session.id);
+    }
+  }
+
+  /**
+   * Current state, asking Gemini once whether a processing file is ready. A
+   * transfer whose heartbeat stopped is marked failed so the client stops waiting.
+   */
+  public async refresh(id: string): Promise<UploadSession | null> {
+    const session = await this.get(id);
+    if (session?.state !== 'processing' && session?.state !== 'transferring') return session;
+    return this.serialize(id, () => this.refreshPending(id));
+  }
+
+  private async refreshPending(id: string): Promise<UploadSession | null> {
+    const session = await this.get(id);
+    if (session?.state === 'transferring' && Date.now() - Date.parse(session.updatedAt) > TRANSFER_STALE_MS) {
+      return this.write({ ...session, state: 'failed', error: 'The upload was interrupted before it reached Gemini. Please try again' });
+    }
+    if (!session || session.state !== 'processing' || !session.geminiName) return session;
+
+    const fileInfo = await this.getFileManager().getFile(session.geminiName);
+    if (fileInfo.state === FileState.ACTIVE) {
+      return this.write({
+        ...session,
+        state: 'active',
+        file: {
+          uri: fileInfo.uri,
+          mimeType: fileInfo.mimeType,
+          displayName: fileInfo.displayName || session.fileName,
+          name: fileInfo.name,
+          sizeBytes: fileInfo.sizeBytes,
+          ...(isMediaMimeType(session.mimeType) && { uploadId: session.id })
+        }
+      });
+    }
+    if (fileInfo.state === FileState.FAILED) {
+      console.error(`File processing failed for ${session.fileName}`);
+      return this.write({ ...session, state: 'failed', error: 'File processing failed' });
+    }
+    return session;
+  }
+
+  // The stored bytes of an uploaded audio or video file, until releaseMedia
+  public async getMediaPath(id: string): Promise<string | null> {
+    const session = await this.get(id);
+    if (!session || session.state !== 'active' || !isMediaMimeType(session.mimeType)) return null;
+    const partPath = this.getPath(id, 'part');
+    return fs.existsSync(partPath) ? partPath : null;
+  }
+
+  public async releaseMedia(id: string): Promise<void> {
+    if (ID_PATTERN.test(id)) await this.removePart(id);
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!ID_PATTERN.test(id)) return false;
+    await this.removePart(id);
+    try {
+      await fs.promises.unlink(this.getPath(id, 'json'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function getUploadsDir(): string {
+  return process.env.UPLOADS_DIR
+    ? path.resolve(process.env.UPLOADS_DIR)
+    : path.join(os.tmpdir(), 'tradebuddy-uploads');
+}
+
+let sharedStore: UploadSessionStore | null = null;
+
+export function getUploadSessionStore(): UploadSessionStore {
+  if (!sharedStore) {
+    sharedStore = new UploadSessionStore(getUploadsDir());
+  }
+  return sharedStore;
+}
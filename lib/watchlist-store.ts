@@ -0,0 +1,143 @@
+// lib/watchlist-store.ts
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from './json-file-store';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  tickers: string[]; // primary symbols, in the order they were added
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchlistChanges {
+  name?: string;
+  tickers?: string[]; // replaces the whole list
+  add?: string[];
+  remove?: string[];
+}
+
+const MAX_NAME_LENGTH = 60;
+const MAX_TICKERS = 50;
+
+// Pick the writable fields out of a request body, rejecting wrongly typed ones
+export function parseWatchlistChanges(body: any): { changes: WatchlistChanges } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const changes: WatchlistChanges = {};
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name must be a non-empty string' };
+    changes.name = body.name.trim().slice(0, MAX_NAME_LENGTH);
+  }
+  for (const key of ['tickers', 'add', 'remove'] as const) {
+    if (body[key] === undefined) continue;
+    if (!Array.isArray(body[key]) || body[key].some((ticker: any) => typeof ticker !== 'string')) {
+      return { error: `${key} must be an array of tickers` };
+    }
+    changes[key] = body[key].map((ticker: string) => ticker.trim()).filter(Boolean);
+  }
+
+  return { changes };
+}
+
+// Map every ticker in the changes to its primary symbol; unknown ones are reported back
+export function resolveWatchlistTickers(
+  changes: WatchlistChanges,
+  resolve: (query: string) => string | null
+): { changes: WatchlistChanges } | { error: string } {
+  const invalid: string[] = [];
+  const resolveList = (list?: string[]) => list?.map(query => {
+    const ticker = resolve(query);
+    if (!ticker) invalid.push(query);
+    return ticker || query;
+  });
+
+  const resolved: WatchlistChanges = {
+    ...changes,
+    tickers: resolveList(changes.tickers),
+    add: resolveList(changes.add),
+    remove: resolveList(changes.remove)
+  };
+
+  return invalid.length > 0
+    ? { error: `Unknown ticker${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')}` }
+    : { changes: resolved };
+}
+
+function applyTickerChanges(current: string[], changes: WatchlistChanges): string[] {
+  const remove = new Set(changes.remove || []);
+  const tickers = (changes.tickers || current).concat(changes.add || []);
+  return Array.from(new Set(tickers)).filter(ticker => !remove.has(ticker)).slice(0, MAX_TICKERS);
+}
+
+// All watchlists in a single JSON file; writes are serialized so concurrent
+// requests cannot overwrite each other's changes
+export class WatchlistStore {
+  private readonly file: JsonFileStore<Watchlist[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, () => [], (parsed): parsed is Watchlist[] => Array.isArray(parsed));
+  }
+
+  public list(): Promise<Watchlist[]> {
+    return this.file.read();
+  }
+
+  public async get(id: string): Promise<Watchlist | null> {
+    return (await this.file.read()).find(watchlist => watchlist.id === id) || null;
+  }
+
+  public create(name: string, tickers: string[] = []): Promise<Watchlist> {
+    return this.file.mutate(watchlists => {
+      const now = new Date().toISOString();
+      const watchlist: Watchlist = {
+        id: randomUUID(),
+        name,
+        tickers: applyTickerChanges([], { tickers }),
+        createdAt: now,
+        updatedAt: now
+      };
+      watchlists.push(watchlist);
+      return watchlist;
+    });
+  }
+
+  public update(id: string, changes: WatchlistChanges): Promise<Watchlist | null> {
+    return this.file.mutate(watchlists => {
+      const watchlist = watchlists.find(item => item.id === id);
+      if (!watchlist) return null;
+
+      if (changes.name !== undefined) watchlist.name = changes.name;
+      watchlist.tickers = applyTickerChanges(watchlist.tickers, changes);
+      watchlist.updatedAt = new Date().toISOString();
+      return watchlist;
+    });
+  }
+
+  public delete(id: string): Promise<boolean> {
+    return this.file.mutate(watchlists => {
+      const index = watchlists.findIndex(item => item.id === id);
+      if (index === -1) return false;
+      watchlists.splice(index, 1);
+      return true;
+    });
+  }
+}
+
+export function getWatchlistsFile(): string {
+  return process.env.WATCHLISTS_FILE
+    ? path.resolve(process.env.WATCHLISTS_FILE)
+    : path.join(process.cwd(), 'data', 'watchlists.json');
+}
+
+let sharedStore: WatchlistStore | null = null;
+
+export function getWatchlistStore(): WatchlistStore {
+  if (!sharedStore) {
+    sharedStore = new WatchlistStore(getWatchlistsFile());
+  }
+  return sharedStore;
+}
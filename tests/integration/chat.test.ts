@@ -0,0 +1,65 @@
+// tests/integration/chat.test.ts
+import { jsonRequest, readDataStream } from './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST } from '@/app/api/chat/route';
+
+const userMessage = (content: string) => ({ id: 'm1', role: 'user', content });
+
+test('streams a mock reply with usage and finish annotations', async () => {
+  const response = await POST(jsonRequest('/api/chat', { messages: [userMessage('hello there')] }));
+  assert.equal(response.status, 200);
+
+  const parts = await readDataStream(response);
+  const text = parts.filter(part => part.type === '0').map(part => part.value).join('');
+  assert.match(text, /mock reply \(AI_PROVIDER=mock\) to: "hello there"/);
+
+  const annotations = parts.filter(part => part.type === '8').flatMap(part => part.value);
+  assert.ok(annotations.some(annotation => annotation.type === 'usage' && annotation.totalTokens > 0));
+  assert.equal(annotations.find(annotation => annotation.type === 'finish')?.finishReason, 'stop');
+});
+
+test('calls the sentiment tool for a ticker and cites an article from its result', async () => {
+  const response = await POST(jsonRequest('/api/chat', { messages: [userMessage('How is AAPL doing?')] }));
+  const parts = await readDataStream(response);
+
+  const toolCall = parts.find(part => part.type === '9')?.value;
+  assert.equal(toolCall.toolName, 'getStockSentiment');
+  assert.deepEqual(toolCall.args, { ticker: 'AAPL' });
+  const toolResult = parts.find(part => part.type === 'a')?.value.result;
+  assert.equal(toolResult.totalArticles, 3);
+
+  const annotations = parts.filter(part => part.type === '8').flatMap(part => part.value);
+  const citations = annotations.find(annotation => annotation.type === 'citations')?.citations;
+  assert.equal(citations?.length, 1);
+  assert.match(citations[0].title, /Apple/);
+});
+
+test('gives models without tools a sentiment snapshot instead of tool calls', async () => {
+  const response = await POST(jsonRequest('/api/chat', { model: 'local-no-tools', messages: [userMessage('How is AAPL doing?')] }));
+  const parts = await readDataStream(response);
+
+  assert.equal(parts.some(part => part.type === '9'), false);
+  const annotations = parts.filter(part => part.type === '8').flatMap(part => part.value);
+  assert.equal(annotations.find(annotation => annotation.type === 'sentiment-context')?.snapshot, true);
+});
+
+test('passes attachment transcripts to the mock model', async () => {
+  const response = await POST(jsonRequest('/api/chat', {
+    messages: [userMessage('Summarize the call')],
+    attachments: [{
+      name: 'call.mp3',
+      mimeType: 'audio/mpeg',
+      uri: 'mock://files/mock-call',
+      transcription: { text: 'Revenue grew ten percent.' }
+    }]
+  }));
+  const parts = await readDataStream(response);
+  const text = parts.filter(part => part.type === '0').map(part => part.value).join('');
+  assert.match(text, /Received 1 attached file \(audio\)/);
+});
+
+test('rejects requests without a user message', async () => {
+  const response = await POST(jsonRequest('/api/chat', { messages: [] }));
+  assert.equal(response.status, 400);
+});
@@ -0,0 +1,46 @@
+// tests/integration/images.test.ts
+import { jsonRequest } from './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as generateImage } from '@/app/api/generate-image/route';
+import { POST as editImage } from '@/app/api/edit-image/route';
+
+function decodeSvg(url: string): string {
+  assert.match(url, /^data:image\/svg\+xml;base64,/);
+  return Buffer.from(url.split(',')[1], 'base64').toString('utf-8');
+}
+
+test('generates a placeholder image sized and labelled from the request', async () => {
+  const response = await generateImage(jsonRequest('/api/generate-image', { prompt: 'Bull market chart', size: '1792x1024' }));
+  assert.equal(response.status, 200);
+
+  const { images, metadata } = await response.json();
+  const svg = decodeSvg(images[0].url);
+  assert.match(svg, /width="1792" height="1024"/);
+  assert.match(svg, /Bull market chart/);
+  assert.equal(metadata.provider, 'mock');
+});
+
+test('the same prompt always gives the same image', async () => {
+  const first = await (await generateImage(jsonRequest('/api/generate-image', { prompt: 'Bear trap' }))).json();
+  const second = await (await generateImage(jsonRequest('/api/generate-image', { prompt: 'Bear trap' }))).json();
+  assert.equal(first.images[0].url, second.images[0].url);
+});
+
+test('generation needs a prompt', async () => {
+  const response = await generateImage(jsonRequest('/api/generate-image', {}));
+  assert.equal(response.status, 400);
+});
+
+test('edits return a placeholder alongside the original image', async () => {
+  const response = await editImage(jsonRequest('/api/edit-image', {
+    imageUrl: 'https://example.com/chart.png',
+    prompt: 'Add a trend line'
+  }));
+  assert.equal(response.status, 200);
+
+  const { images, metadata } = await response.json();
+  assert.equal(images[0].originalUrl, 'https://example.com/chart.png');
+  assert.match(decodeSvg(images[0].url), /Mock edit/);
+  assert.equal(metadata.editMode, true);
+});
@@ -0,0 +1,50 @@
+// tests/integration/setup.ts
+// Imported first by every test file: the routes read these settings when they load
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tradebuddy-test-'));
+
+process.env.AI_PROVIDER = 'mock';
+process.env.MOCK_STREAM_DELAY_MS = '0';
+process.env.NEWS_DATA_DIR = path.join(__dirname, '..', 'fixtures', 'news');
+process.env.NEWS_HTTP_SOURCES = '';
+process.env.UPLOADS_DIR = path.join(dataDir, 'uploads');
+process.env.DOCUMENTS_DIR = path.join(dataDir, 'documents');
+process.env.CONVERSATIONS_DIR = path.join(dataDir, 'conversations');
+process.env.WATCHLISTS_FILE = path.join(dataDir, 'watchlists.json');
+process.env.PORTFOLIO_FILE = path.join(dataDir, 'portfolio.json');
+process.env.ALERTS_FILE = path.join(dataDir, 'alerts.json');
+// A local model without function calling, answered by the mock provider like every other
+process.env.OPENAI_COMPATIBLE_MODELS = 'local-no-tools';
+process.env.OPENAI_COMPATIBLE_TOOLS = 'false';
+delete process.env.GEMINI_API_KEY;
+delete process.env.OPENAI_API_KEY;
+delete process.env.WAVESPEED_API_KEY;
+
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+export function jsonRequest(url: string, body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+export function formRequest(url: string, fields: Record<string, string | File>, headers: Record<string, string> = {}): NextRequest {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+  return new NextRequest(`http://localhost${url}`, { method: 'POST', headers, body: formData });
+}
+
+// The parts of an AI SDK data stream, e.g. text ("0"), annotations ("8") and tool calls ("9")
+export async function readDataStream(response: Response): Promise<Array<{ type: string; value: any }>> {
+  const text = await response.text();
+  return text.split('\n').filter(Boolean).map(line => {
+    const separator = line.indexOf(':');
+    return { type: line.slice(0, separator), value: JSON.parse(line.slice(separator + 1)) };
+  });
+}
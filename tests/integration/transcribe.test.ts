@@ -0,0 +1,54 @@
+// tests/integration/transcribe.test.ts
+import { formRequest, jsonRequest } from './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as transcribe } from '@/app/api/transcribe/route';
+import { getUploadSessionStore } from '@/lib/upload-sessions';
+
+// An active audio upload whose bytes the server kept for transcription
+async function uploadAudio(): Promise<string> {
+  const store = getUploadSessionStore();
+  const content = Buffer.from('hour-long earnings call');
+  const session = await store.create({ fileName: 'call.mp3', mimeType: 'audio/mpeg', size: content.length });
+  await store.appendChunk(session.id, 0, content.length, content);
+  for (let attempt = 0; attempt < 50 && (await store.get(session.id))?.state !== 'active'; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return session.id;
+}
+
+test('transcribes a posted file into the fixture transcript', async () => {
+  const response = await transcribe(formRequest('/api/transcribe', {
+    file: new File(['audio bytes'], 'update.mp3', { type: 'audio/mpeg' })
+  }));
+  assert.equal(response.status, 200);
+
+  const { transcription, fileInfo } = await response.json();
+  assert.match(transcription.text, /^\[Mock transcript of update\.mp3\]/);
+  assert.equal(transcription.segments.length, 4);
+  assert.ok(transcription.segments.every((segment: any, index: number) => index === 0 || segment.start === transcription.segments[index - 1].end));
+  assert.deepEqual(fileInfo, { name: 'update.mp3', type: 'audio/mpeg', size: 11, isVideo: false });
+});
+
+test('transcribes a stored upload once, streaming the result as JSON lines', async () => {
+  const uploadId = await uploadAudio();
+  const response = await transcribe(jsonRequest('/api/transcribe', { uploadId }, { Accept: 'application/x-ndjson' }));
+  assert.equal(response.headers.get('content-type'), 'application/x-ndjson');
+
+  const lines = (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+  const result = lines[lines.length - 1];
+  assert.equal(result.type, 'result');
+  assert.equal(result.fileInfo.name, 'call.mp3');
+  assert.match(result.transcription.text, /Mock transcript of call\.mp3/);
+
+  // The stored bytes are released once read
+  const again = await transcribe(jsonRequest('/api/transcribe', { uploadId }));
+  assert.equal(again.status, 404);
+});
+
+test('rejects files that are not audio or video', async () => {
+  const response = await transcribe(formRequest('/api/transcribe', {
+    file: new File(['%PDF'], 'report.pdf', { type: 'application/pdf' })
+  }));
+  assert.equal(response.status, 400);
+});
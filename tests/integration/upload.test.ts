@@ -0,0 +1,74 @@
+// tests/integration/upload.test.ts
+import { formRequest, jsonRequest } from './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { POST as upload } from '@/app/api/upload/route';
+import { POST as createSession } from '@/app/api/upload/sessions/route';
+import { GET as getSession, PUT as putChunk } from '@/app/api/upload/sessions/[id]/route';
+
+const sessionContext = (id: string) => ({ params: Promise.resolve({ id }) });
+
+function chunkRequest(id: string, bytes: Buffer, start: number, total: number): NextRequest {
+  return new NextRequest(`http://localhost/api/upload/sessions/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Range': `bytes ${start}-${start + bytes.length - 1}/${total}` },
+    body: bytes
+  });
+}
+
+// The session once the server has finished with it
+async function waitForSession(id: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const session = (await (await getSession(new NextRequest(`http://localhost/api/upload/sessions/${id}`), sessionContext(id))).json()).data;
+    if (session.state !== 'transferring' && session.state !== 'processing') return session;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Upload ${id} never finished`);
+}
+
+test('one-shot upload returns a mock file URI derived from the contents', async () => {
+  const file = () => new File(['chart pixels'], 'chart.png', { type: 'image/png' });
+  const first = await (await upload(formRequest('/api/upload', { file: file() }))).json();
+  const second = await (await upload(formRequest('/api/upload', { file: file() }))).json();
+  assert.equal(first.success, true);
+  assert.match(first.file.uri, /^mock:\/\/files\/mock-[0-9a-f]{16}$/);
+  assert.equal(first.file.uri, second.file.uri);
+});
+
+test('one-shot upload rejects unsupported types', async () => {
+  const response = await upload(formRequest('/api/upload', { file: new File(['x'], 'notes.txt', { type: 'text/plain' }) }));
+  assert.equal(response.status, 400);
+});
+
+test('resumable upload accepts chunks, ignores a repeated chunk and becomes active', async () => {
+  const content = Buffer.from('a short recording of an earnings call');
+  const created = await createSession(jsonRequest('/api/upload/sessions', { fileName: 'call.mp3', mimeType: 'audio/mpeg', size: content.length }));
+  assert.equal(created.status, 201);
+  const { id } = (await created.json()).data;
+
+  const head = content.subarray(0, 10);
+  assert.equal((await (await putChunk(chunkRequest(id, head, 0, content.length), sessionContext(id))).json()).data.receivedBytes, 10);
+  // A retry of a chunk whose response was lost adds nothing
+  assert.equal((await (await putChunk(chunkRequest(id, head, 0, content.length), sessionContext(id))).json()).data.receivedBytes, 10);
+  const last = await putChunk(chunkRequest(id, content.subarray(10), 10, content.length), sessionContext(id));
+  assert.equal((await last.json()).data.state, 'transferring');
+
+  const session = await waitForSession(id);
+  assert.equal(session.state, 'active');
+  assert.match(session.file.uri, /^mock:\/\/files\//);
+  // Audio keeps its bytes on the server for /api/transcribe
+  assert.equal(session.file.uploadId, id);
+});
+
+test('resumable upload rejects chunks that do not fit the session', async () => {
+  const created = await createSession(jsonRequest('/api/upload/sessions', { fileName: 'chart.png', mimeType: 'image/png', size: 8 }));
+  const { id } = (await created.json()).data;
+
+  const skipped = await putChunk(chunkRequest(id, Buffer.from('late'), 4, 8), sessionContext(id));
+  assert.equal(skipped.status, 409);
+  assert.equal((await skipped.json()).data.receivedBytes, 0);
+
+  const wrongTotal = await putChunk(chunkRequest(id, Buffer.from('abcd'), 0, 9), sessionContext(id));
+  assert.equal(wrongTotal.status, 400);
+});
@@ -0,0 +1,110 @@
+// tests/unit/document-parser.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { parseCsv, parseTabularDocument, readXlsx, toTable } from '@/lib/document-parser';
+
+// A deflated zip of the given parts, as spreadsheet apps write them
+function zip(parts: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(parts)) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(content);
+    const data = zlib.deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directoryBytes = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(parts).length, 10);
+  end.writeUInt32LE(directoryBytes.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directoryBytes, end]);
+}
+
+function workbook(sheetXml: string, sharedStrings = ''): Buffer {
+  return zip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Prices" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/sharedStrings.xml': `<sst>${sharedStrings}</sst>`,
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetXml}</sheetData></worksheet>`
+  });
+}
+
+test('parses quoted CSV fields holding delimiters, escaped quotes and newlines', () => {
+  const rows = parseCsv('ticker,note\r\nAAPL,"beat, ""strong"" guide"\nMSFT,"line one\nline two"\n');
+  assert.deepEqual(rows, [
+    ['ticker', 'note'],
+    ['AAPL', 'beat, "strong" guide'],
+    ['MSFT', 'line one\nline two']
+  ]);
+});
+
+test('detects semicolon-delimited CSV and turns accounting values into numbers', () => {
+  const [table] = parseTabularDocument('pnl.csv', 'csv', Buffer.from('item;amount\nfees;(120)\nrevenue;"$1,234.50"\n'));
+  assert.deepEqual(table.columns, ['item', 'amount']);
+  assert.deepEqual(table.rows, [['fees', -120], ['revenue', 1234.5]]);
+});
+
+test('handles CSV files with more rows than a function call can take arguments', () => {
+  const content = 'ticker,close\n' + 'AAPL,1\n'.repeat(150000);
+  const [table] = parseTabularDocument('big.csv', 'csv', Buffer.from(content));
+  assert.equal(table.columns.length, 2);
+  assert.equal(table.rowCount, 150000);
+  assert.equal(table.truncated, true);
+});
+
+test('reads shared strings, rich text runs and sparse cells from XLSX', () => {
+  const sheets = readXlsx(workbook(
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+    '<row r="3"><c r="A3" t="inlineStr"><is><t>AAPL</t></is></c><c r="C3"><v>189.5</v></c></row>',
+    '<si><t>Ticker</t></si><si><r><t>Clo</t></r><r><t>se &amp; adj</t></r></si>'
+  ));
+  assert.equal(sheets[0].name, 'Prices');
+  assert.deepEqual(sheets[0].grid, [['Ticker', '', 'Close & adj'], [], ['AAPL', '', '189.5']]);
+});
+
+test('styled empty XLSX cells do not widen the table', () => {
+  const sheets = readXlsx(workbook(
+    '<row r="1"><c r="A1" t="inlineStr"><is><t>Ticker</t></is></c><c r="Z1" s="1"/></row>' +
+    '<row r="2"><c r="A2" t="inlineStr"><is><t>MSFT</t></is></c><c r="Z2" s="1"></c></row>'
+  ));
+  const table = toTable(sheets[0].name, sheets[0].grid);
+  assert.deepEqual(table?.columns, ['Ticker']);
+});
+
+test('rejects malformed zips', () => {
+  assert.throws(() => readXlsx(Buffer.from('not a zip at all')), /Not a valid XLSX file/);
+
+  const truncated = workbook('<row r="1"><c r="A1"><v>1</v></c></row>');
+  // Point the central directory past the end of the file
+  truncated.writeUInt32LE(truncated.length, truncated.length - 6);
+  assert.throws(() => readXlsx(truncated), /Corrupt XLSX directory/);
+});
+
+test('rejects entries that inflate past their declared size', () => {
+  const bomb = zip({ 'xl/workbook.xml': '<workbook>' + ' '.repeat(100000) + '</workbook>' });
+  // Declare the entry as 1 KB in the central directory
+  bomb.writeUInt32LE(1024, bomb.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+  assert.throws(() => readXlsx(bomb), /XLSX entry too large/);
+});
@@ -0,0 +1,44 @@
+// tests/unit/json-file-store.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFileStore } from '@/lib/json-file-store';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tradebuddy-json-'));
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+
+function listStore(name: string): { file: string; store: JsonFileStore<string[]> } {
+  const file = path.join(dir, name);
+  return { file, store: new JsonFileStore(file, () => [], (parsed): parsed is string[] => Array.isArray(parsed)) };
+}
+
+test('a missing file reads as empty and is created by the first change', async () => {
+  const { file, store } = listStore('missing.json');
+  assert.deepEqual(await store.read(), []);
+  await store.mutate(items => items.push('AAPL'));
+  assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf-8')), ['AAPL']);
+});
+
+test('overlapping changes are applied one after another', async () => {
+  const { store } = listStore('concurrent.json');
+  await Promise.all(['AAPL', 'MSFT', 'NVDA'].map(ticker => store.mutate(items => items.push(ticker))));
+  assert.deepEqual(await store.read(), ['AAPL', 'MSFT', 'NVDA']);
+});
+
+test('a corrupt or unexpected file fails the change and is left as it was', async () => {
+  const { file, store } = listStore('corrupt.json');
+  fs.writeFileSync(file, '["AAPL", "MS');
+  await assert.rejects(store.mutate(items => items.push('NVDA')), SyntaxError);
+  assert.equal(fs.readFileSync(file, 'utf-8'), '["AAPL", "MS');
+
+  fs.writeFileSync(file, '{"tickers": ["AAPL"]}');
+  await assert.rejects(store.mutate(items => items.push('NVDA')), /Unexpected contents/);
+  assert.equal(fs.readFileSync(file, 'utf-8'), '{"tickers": ["AAPL"]}');
+
+  // Later changes still run once the file is fixed
+  fs.writeFileSync(file, '["AAPL"]');
+  await store.mutate(items => items.push('NVDA'));
+  assert.deepEqual(await store.read(), ['AAPL', 'NVDA']);
+});